@@ -0,0 +1,119 @@
+import { useState } from 'react';
+import type { Album } from '../shared/types/api';
+
+type AlbumBarProps = {
+  albums: Album[];
+  activeId: string | null;
+  onSelect: (albumId: string | null) => void;
+  onCreate: (name: string) => Promise<void>;
+  onRename: (albumId: string, name: string) => Promise<void>;
+  onDelete: (albumId: string) => Promise<void>;
+};
+
+// Album filter for the history view, with inline create/rename/delete
+export const AlbumBar = ({
+  albums,
+  activeId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}: AlbumBarProps) => {
+  const [editing, setEditing] = useState<'create' | 'rename' | 'delete' | null>(null);
+  const [name, setName] = useState('');
+  const active = albums.find((a) => a.id === activeId) ?? null;
+
+  const startEditing = (mode: 'create' | 'rename' | 'delete') => {
+    setEditing(mode);
+    setName(mode === 'rename' && active ? active.name : '');
+  };
+
+  const submit = async () => {
+    if (editing === 'create') await onCreate(name);
+    else if (editing === 'rename' && active) await onRename(active.id, name);
+    else if (editing === 'delete' && active) await onDelete(active.id);
+    setEditing(null);
+  };
+
+  const chip = (selected: boolean) =>
+    `px-2 py-1 rounded-full border whitespace-nowrap ${
+      selected ? 'border-[#d93900] bg-[#fff4f0] text-[#d93900]' : 'border-gray-200 text-gray-700'
+    }`;
+
+  return (
+    <div className="mt-2 text-xs">
+      <div className="flex gap-1 overflow-x-auto pb-1" role="group" aria-label="Albums">
+        <button className={chip(activeId === null)} onClick={() => onSelect(null)}>
+          All uploads
+        </button>
+        {albums.map((a) => (
+          <button key={a.id} className={chip(a.id === activeId)} onClick={() => onSelect(a.id)}>
+            {a.name} <span className="text-gray-500">({a.count})</span>
+          </button>
+        ))}
+        <button
+          className="px-2 py-1 text-[#d93900] underline underline-offset-2 whitespace-nowrap"
+          onClick={() => startEditing('create')}
+        >
+          New album
+        </button>
+      </div>
+      {active && !editing ? (
+        <div className="mt-1 flex gap-2">
+          <button
+            className="text-gray-600 underline underline-offset-2"
+            onClick={() => startEditing('rename')}
+          >
+            Rename album
+          </button>
+          <button
+            className="text-red-700 underline underline-offset-2"
+            onClick={() => startEditing('delete')}
+          >
+            Delete album
+          </button>
+        </div>
+      ) : null}
+      {editing ? (
+        <form
+          className="mt-1 flex flex-wrap items-center gap-2 rounded border border-gray-200 bg-gray-50 px-2 py-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void submit();
+          }}
+        >
+          {editing === 'delete' ? (
+            <span className="flex-1">
+              Delete “{active?.name}”? Its uploads stay in your history.
+            </span>
+          ) : (
+            <input
+              className="flex-1 rounded border border-gray-300 px-2 py-1"
+              placeholder="Album name"
+              aria-label="Album name"
+              value={name}
+              autoFocus
+              onChange={(e) => setName(e.target.value)}
+            />
+          )}
+          <button
+            type="submit"
+            className={`px-2 py-1 rounded text-white ${
+              editing === 'delete' ? 'bg-red-600' : 'bg-[#d93900]'
+            }`}
+            disabled={editing !== 'delete' && !name.trim()}
+          >
+            {editing === 'create' ? 'Create' : editing === 'rename' ? 'Rename' : 'Delete'}
+          </button>
+          <button
+            type="button"
+            className="text-gray-600 underline underline-offset-2"
+            onClick={() => setEditing(null)}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : null}
+    </div>
+  );
+};
@@ -1,17 +1,92 @@
-import { useCallback, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import type React from 'react';
-import type { UploadResponse } from '../shared/types/api';
+import type {
+  Album,
+  AlbumsResponse,
+  GallerySettingsResponse,
+  ImageMimeType,
+  PolicyResponse,
+  QuotaResponse,
+  UploadExpiry,
+  UploadPolicy,
+  UploadResponse,
+} from '../shared/types/api';
+import {
+  DEFAULT_UPLOAD_POLICY,
+  UPLOAD_EXPIRIES,
+  VIDEO_MIME_TYPES,
+  formatMegabytes,
+  formatMimeTypes,
+  isVideoMimeType,
+} from '../shared/policy';
+import { Gallery } from './Gallery';
 import { History } from './History';
+import { ImageEditor } from './ImageEditor';
+import { ModLog } from './ModLog';
+import {
+  formatDimensions,
+  formatDuration,
+  formatResize,
+  formatStrippedMetadata,
+  parseTags,
+} from './format';
+import { MAX_EDGE_CHOICES, canDownscale, downscaleImage } from './downscale';
+import { UploadQueue } from './UploadQueue';
+import { uploadInChunks, type UploadProgress } from './chunkedUpload';
+import { attachThumbnail } from './thumbnail';
+import { ApiError, apiRequest, describeError } from './api';
+import { useUploadQueue, type QueueItem } from './useUploadQueue';
 
-type View = 'home' | 'history';
+type View = 'home' | 'history' | 'moderation' | 'gallery';
+
+const EXPIRY_LABELS: Record<UploadExpiry, string> = {
+  '1d': 'Remove after 1 day',
+  '7d': 'Remove after 7 days',
+  never: 'Keep until deleted',
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Clipboard images arrive as "image.png" (or unnamed); give them a unique, dated name instead
+const namePastedFile = (file: File, index: number): File => {
+  const d = new Date();
+  const stamp =
+    `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}-` +
+    `${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}`;
+  const ext = file.type.split('/')[1]?.replace('jpeg', 'jpg') ?? 'png';
+  const suffix = index > 0 ? `-${index + 1}` : '';
+  return new File([file], `pasted-${stamp}${suffix}.${ext}`, { type: file.type });
+};
+
+const QuotaSummary = ({ quota }: { quota: QuotaResponse }) => {
+  const { remaining } = quota;
+  const uploadsLeft = Math.min(remaining.uploadsThisHour, remaining.uploadsToday);
+  if (uploadsLeft <= 0 || remaining.bytesToday <= 0) {
+    const resetsAt =
+      remaining.uploadsToday <= 0 || remaining.bytesToday <= 0
+        ? quota.dayResetsAt
+        : quota.hourResetsAt;
+    return (
+      <p className="mt-3 text-center text-xs text-red-700">
+        Upload limit reached. You can upload again at {new Date(resetsAt).toLocaleTimeString()}.
+      </p>
+    );
+  }
+  return (
+    <p className="mt-3 text-center text-xs text-gray-500">
+      {uploadsLeft} upload{uploadsLeft === 1 ? '' : 's'} left ·{' '}
+      {(remaining.bytesToday / (1024 * 1024)).toFixed(1)} MB left today
+    </p>
+  );
+};
 
 export const App = () => {
   const [dragActive, setDragActive] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [uploading, setUploading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
   const [serverInfo, setServerInfo] = useState<UploadResponse | null>(null);
+  const [quota, setQuota] = useState<QuotaResponse | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
 
   const isMobile = useMemo(() => {
@@ -19,10 +94,34 @@ export const App = () => {
     return /Android|iPhone|iPad|iPod|iOS/i.test(navigator.userAgent);
   }, []);
 
-  const allowedTypes = useMemo(
-    () => ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const,
-    []
-  );
+  // Until the subreddit's policy loads, validate against the server's defaults
+  const [policy, setPolicy] = useState<UploadPolicy>(DEFAULT_UPLOAD_POLICY);
+  const [canModerate, setCanModerate] = useState(false);
+  const [autoResize, setAutoResize] = useState(true);
+  const [editFirst, setEditFirst] = useState(false);
+  // Images waiting for the editor; each is queued once it is edited or skipped
+  const [pendingEdits, setPendingEdits] = useState<File[]>([]);
+  const [maxEdge, setMaxEdge] = useState<number>(2048);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [albumId, setAlbumId] = useState('');
+  // Applied to every file uploaded while set
+  const [caption, setCaption] = useState('');
+  const [altText, setAltText] = useState('');
+  const [tags, setTags] = useState('');
+  const [expiresIn, setExpiresIn] = useState<UploadExpiry>('never');
+
+  useEffect(() => {
+    const loadPolicy = async () => {
+      try {
+        const data = await apiRequest<PolicyResponse>('/api/policy');
+        setPolicy(data.policy);
+        setCanModerate(data.canEdit);
+      } catch (err) {
+        console.error('Failed to fetch upload policy', err);
+      }
+    };
+    void loadPolicy();
+  }, []);
 
   const resetPreview = useCallback(() => {
     if (previewUrl) URL.revokeObjectURL(previewUrl);
@@ -33,19 +132,36 @@ export const App = () => {
 
   const validateFile = useCallback(
     (file: File): string | null => {
-      if (!allowedTypes.includes(file.type as (typeof allowedTypes)[number])) {
-        return 'Only PNG, JPEG, GIF, or WEBP images are allowed.';
+      if (isVideoMimeType(file.type)) {
+        if (!policy.allowVideos) return 'Videos are not allowed here.';
+        if (file.size > policy.maxVideoBytes) {
+          return `Video must be under ${formatMegabytes(policy.maxVideoBytes)}.`;
+        }
+        return null;
+      }
+      if (!policy.allowedTypes.includes(file.type as ImageMimeType)) {
+        return `Only ${formatMimeTypes(policy.allowedTypes)} images are allowed.`;
       }
-      if (file.size > 4 * 1024 * 1024) {
-        return 'Image must be under 4MB.';
+      // Oversized photos are shrunk before upload when auto-resize is on
+      if (file.size > policy.maxBytes && !(autoResize && canDownscale(file))) {
+        return file.type === 'image/gif'
+          ? `GIFs can't be resized and must be under ${formatMegabytes(policy.maxBytes)}.`
+          : `Image must be under ${formatMegabytes(policy.maxBytes)}.`;
       }
       return null;
     },
-    [allowedTypes]
+    [policy, autoResize]
   );
 
-  // Upload a single file
-  // duplicate definition below removed
+  const prepareFile = useCallback(
+    (file: File) =>
+      downscaleImage(file, {
+        maxEdge,
+        maxBytes: policy.maxBytes,
+        allowedTypes: policy.allowedTypes,
+      }),
+    [maxEdge, policy]
+  );
 
   const onDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -59,56 +175,160 @@ export const App = () => {
     setDragActive(false);
   }, []);
 
-  const uploadFile = useCallback(async (file: File) => {
+  const refreshQuota = useCallback(async () => {
     try {
-      setUploading(true);
-      setMessage(null);
-      setServerInfo(null);
-      const arrayBuffer = await file.arrayBuffer();
-      const res = await fetch('/api/upload-image', {
-        method: 'POST',
-        headers: {
-          'Content-Type': file.type,
-          'X-File-Name': file.name,
-        },
-        body: arrayBuffer,
+      const data = await apiRequest<QuotaResponse>('/api/quota');
+      setQuota(data);
+    } catch (err) {
+      console.error('Failed to fetch quota', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void refreshQuota();
+  }, [refreshQuota]);
+
+  const [view, setView] = useState<View>('home');
+
+  const [gallery, setGallery] = useState<GallerySettingsResponse | null>(null);
+  const [galleryError, setGalleryError] = useState<string | null>(null);
+
+  // Gallery posts open on the gallery rather than the uploader
+  useEffect(() => {
+    const loadGallery = async () => {
+      try {
+        const data = await apiRequest<GallerySettingsResponse>('/api/gallery/settings');
+        setGallery(data);
+        if (data.settings.enabled) setView('gallery');
+      } catch (err) {
+        console.error('Failed to fetch gallery settings', err);
+      }
+    };
+    void loadGallery();
+  }, []);
+
+  const setGalleryEnabled = async (enabled: boolean) => {
+    try {
+      setGalleryError(null);
+      const data = await apiRequest<GallerySettingsResponse>('/api/gallery/settings', {
+        method: 'PUT',
+        body: { enabled },
       });
-      if (!res.ok) {
-        const text = await res.text();
-        throw new Error(text || `Upload failed with ${res.status}`);
+      setGallery(data);
+      setView(enabled ? 'gallery' : 'home');
+    } catch (err) {
+      setGalleryError(describeError(err));
+    }
+  };
+
+  // Albums can change in the history view, so reload them whenever we're back home
+  useEffect(() => {
+    if (view !== 'home') return;
+    const loadAlbums = async () => {
+      try {
+        const data = await apiRequest<AlbumsResponse>('/api/albums');
+        setAlbums(data.albums);
+        setAlbumId((current) => (data.albums.some((a) => a.id === current) ? current : ''));
+      } catch (err) {
+        console.error('Failed to fetch albums', err);
       }
-      const data: UploadResponse = await res.json();
+    };
+    void loadAlbums();
+  }, [view]);
+
+  // Upload a single file in resumable chunks, then its thumbnail; rejects with an ApiError
+  // when the file itself fails
+  const uploadFile = useCallback(
+    async (file: File, signal: AbortSignal, onProgress: (progress: UploadProgress) => void) => {
+      try {
+        const result = await uploadInChunks(file, {
+          details: {
+            fileName: file.name,
+            ...(albumId ? { albumId } : {}),
+            ...(caption.trim() ? { caption: caption.trim() } : {}),
+            ...(altText.trim() ? { altText: altText.trim() } : {}),
+            ...(parseTags(tags).length > 0 ? { tags: parseTags(tags) } : {}),
+            ...(expiresIn !== 'never' ? { expiresIn } : {}),
+          },
+          signal,
+          onProgress,
+        });
+        return { ...result, asset: await attachThumbnail(file, result.asset, signal) };
+      } catch (err) {
+        if (err instanceof ApiError && err.code === 'RATE_LIMITED') void refreshQuota();
+        throw err;
+      }
+    },
+    [refreshQuota, albumId, caption, altText, tags, expiresIn]
+  );
+
+  const onUploaded = useCallback(
+    (item: QueueItem, data: UploadResponse) => {
       setServerInfo(data);
-      setMessage('Upload successful');
+      setMessage(
+        data.duplicate ? `${item.file.name}: already uploaded` : `${item.file.name} uploaded`
+      );
+      void refreshQuota();
       // History view will fetch on demand
-    } catch (err) {
-      console.error(err);
-      setMessage('Upload failed. Please try another image.');
-      setServerInfo(null);
-    } finally {
-      setUploading(false);
-    }
+    },
+    [refreshQuota]
+  );
+
+  const onFailed = useCallback((item: QueueItem, error: string) => {
+    setMessage(`${item.file.name} failed: ${error}`);
   }, []);
 
-  const handleFiles = useCallback(
-    (files: FileList | null) => {
-      if (!files || files.length === 0) return;
-      const file = files[0]!;
-      const err = validateFile(file);
-      if (err) {
-        setMessage(err);
+  const queue = useUploadQueue({
+    upload: uploadFile,
+    validate: validateFile,
+    onUploaded,
+    onFailed,
+    ...(autoResize ? { prepare: prepareFile } : {}),
+  });
+  const previewResize = queue.items.find((it) => it.file === selectedFile)?.resize;
+  const { enqueue, busy: uploading } = queue;
+
+  const queueFiles = useCallback(
+    (files: readonly File[]) => {
+      if (files.length === 0) return;
+      const added = enqueue(files);
+      const first = added.find((it) => it.status === 'queued');
+      if (!first) {
+        setMessage(added[0]?.error ?? null);
         resetPreview();
         return;
       }
       setMessage(null);
-      setSelectedFile(file);
       setServerInfo(null);
-      const url = URL.createObjectURL(file);
-      setPreviewUrl(url);
-      void uploadFile(file);
+      if (previewUrl) URL.revokeObjectURL(previewUrl);
+      setSelectedFile(first.file);
+      setPreviewUrl(URL.createObjectURL(first.file));
+    },
+    [enqueue, previewUrl, resetPreview]
+  );
+
+  const handleFiles = useCallback(
+    (files: FileList | readonly File[] | null) => {
+      if (!files || files.length === 0) return;
+      const all = Array.from(files);
+      // Videos and GIFs can't be edited in a canvas without losing frames, so they skip the editor
+      const editable = editFirst ? all.filter(canDownscale) : [];
+      if (editable.length > 0) setPendingEdits((prev) => [...prev, ...editable]);
+      queueFiles(all.filter((f) => !editable.includes(f)));
+    },
+    [editFirst, queueFiles]
+  );
+
+  const editing = pendingEdits[0];
+  const finishEdit = useCallback(
+    (file: File | null) => {
+      setPendingEdits((prev) => prev.slice(1));
+      // The edited file goes through the same validation and resizing as any other
+      if (file) queueFiles([file]);
     },
-    [validateFile, resetPreview, uploadFile]
+    [queueFiles]
   );
+  const cancelEdit = useCallback(() => finishEdit(null), [finishEdit]);
 
   const onDrop = useCallback(
     (e: React.DragEvent<HTMLDivElement>) => {
@@ -120,7 +340,38 @@ export const App = () => {
     [handleFiles]
   );
 
-  const [view, setView] = useState<View>('home');
+  // Ctrl/Cmd+V anywhere on the upload screen adds clipboard images to the queue
+  useEffect(() => {
+    if (view !== 'home') return;
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target;
+      if (
+        target instanceof Element &&
+        target.closest('input, textarea, [contenteditable="true"]')
+      ) {
+        return;
+      }
+      const files = Array.from(e.clipboardData?.items ?? [])
+        .filter((item) => item.kind === 'file' && item.type.startsWith('image/'))
+        .map((item) => item.getAsFile())
+        .filter((f): f is File => Boolean(f))
+        .map(namePastedFile);
+      if (files.length === 0) return;
+      e.preventDefault();
+      handleFiles(files);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  }, [view, handleFiles]);
+
+  const onDropZoneKeyDown = useCallback((e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Only when the zone itself has focus, so its inner buttons keep their own behavior
+    if (e.target !== e.currentTarget) return;
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      inputRef.current?.click();
+    }
+  }, []);
 
   return (
     <div className="flex relative flex-col justify-start items-center h-full gap-4 p-4 overflow-hidden">
@@ -129,29 +380,49 @@ export const App = () => {
           <div
             className={
               `mt-4 rounded-lg border-2 border-dashed transition-colors flex-1 max-h-full min-h-48 ` +
+              `outline-none focus-visible:ring-2 focus-visible:ring-[#d93900] focus-visible:ring-offset-2 ` +
               (dragActive ? 'border-[#d93900] bg-[#fff4f0]' : 'border-gray-300 bg-white')
             }
+            tabIndex={0}
+            aria-label="Image drop zone. Press Enter or Space to choose images, or paste an image."
+            onKeyDown={onDropZoneKeyDown}
             onDrop={!isMobile ? onDrop : undefined}
             onDragOver={!isMobile ? onDragOver : undefined}
             onDragLeave={!isMobile ? onDragLeave : undefined}
           >
             <div className="flex flex-col items-center justify-center p-6 gap-3 h-full">
               {previewUrl ? (
-                <img
-                  src={previewUrl}
-                  alt={selectedFile?.name || 'preview'}
-                  className="max-h-full w-full object-contain rounded"
-                />
+                <>
+                  {selectedFile && isVideoMimeType(selectedFile.type) ? (
+                    <video
+                      src={previewUrl}
+                      aria-label={selectedFile.name || 'preview'}
+                      className="max-h-full w-full object-contain rounded min-h-0"
+                      controls
+                      muted
+                    />
+                  ) : (
+                    <img
+                      src={previewUrl}
+                      alt={selectedFile?.name || 'preview'}
+                      className="max-h-full w-full object-contain rounded min-h-0"
+                    />
+                  )}
+                  {previewResize ? (
+                    <p className="text-xs text-gray-600">Resized: {formatResize(previewResize)}</p>
+                  ) : null}
+                </>
               ) : (
                 <div className="flex flex-col items-center gap-2 text-center">
                   <div className="text-5xl">🖼️</div>
                   {isMobile ? (
-                    <p className="text-sm text-gray-700">Tap Choose Image to pick a photo.</p>
+                    <p className="text-sm text-gray-700">Tap Choose Images to pick photos.</p>
                   ) : (
                     <p className="text-sm text-gray-700">
-                      Drag & drop an image here, or
+                      Drag & drop or paste images here, or
                       <button
                         className="ml-1 text-[#d93900] underline underline-offset-2"
+                        tabIndex={-1}
                         onClick={() => inputRef.current?.click()}
                       >
                         browse
@@ -167,9 +438,8 @@ export const App = () => {
                 <button
                   className="px-4 py-2 rounded bg-gray-100 text-gray-800 text-sm disabled:opacity-50"
                   onClick={() => inputRef.current?.click()}
-                  disabled={uploading}
                 >
-                  {uploading ? 'Uploading…' : 'Choose Image'}
+                  {uploading ? 'Add more images' : 'Choose Images'}
                 </button>
                 {selectedFile ? (
                   <button
@@ -184,34 +454,182 @@ export const App = () => {
               <input
                 ref={inputRef}
                 type="file"
-                accept={allowedTypes.join(',')}
+                multiple
+                accept={[
+                  ...policy.allowedTypes,
+                  ...(policy.allowVideos ? VIDEO_MIME_TYPES : []),
+                ].join(',')}
                 className="hidden"
-                onChange={(e) => handleFiles(e.target.files)}
+                onChange={(e) => {
+                  handleFiles(e.target.files);
+                  // Allow picking the same files again after a failure
+                  e.target.value = '';
+                }}
               />
             </div>
           </div>
 
-          {message ? <p className="text-center mt-3 text-sm text-gray-700">{message}</p> : null}
+          <div className="mt-3 flex flex-wrap items-center justify-center gap-2 text-xs text-gray-700">
+            <label className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={autoResize}
+                onChange={(e) => setAutoResize(e.target.checked)}
+              />
+              Shrink large photos to fit
+            </label>
+            <label className="inline-flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={editFirst}
+                onChange={(e) => setEditFirst(e.target.checked)}
+              />
+              Crop or rotate before upload
+            </label>
+            {autoResize ? (
+              <select
+                className="rounded border border-gray-300 px-1 py-0.5"
+                aria-label="Maximum edge length"
+                value={maxEdge}
+                onChange={(e) => setMaxEdge(Number(e.target.value))}
+              >
+                {MAX_EDGE_CHOICES.map((edge) => (
+                  <option key={edge} value={edge}>
+                    max {edge}px
+                  </option>
+                ))}
+              </select>
+            ) : null}
+            <select
+              className="rounded border border-gray-300 px-1 py-0.5"
+              aria-label="How long to keep new uploads in your history"
+              value={expiresIn}
+              onChange={(e) => setExpiresIn(e.target.value as UploadExpiry)}
+            >
+              {UPLOAD_EXPIRIES.map((expiry) => (
+                <option key={expiry} value={expiry}>
+                  {EXPIRY_LABELS[expiry]}
+                </option>
+              ))}
+            </select>
+            {albums.length > 0 ? (
+              <select
+                className="rounded border border-gray-300 px-1 py-0.5"
+                aria-label="Album for new uploads"
+                value={albumId}
+                onChange={(e) => setAlbumId(e.target.value)}
+              >
+                <option value="">No album</option>
+                {albums.map((a) => (
+                  <option key={a.id} value={a.id}>
+                    Add to {a.name}
+                  </option>
+                ))}
+              </select>
+            ) : null}
+          </div>
+          <details className="mt-2 text-xs text-gray-700">
+            <summary className="cursor-pointer text-center">Caption, alt text and tags</summary>
+            <div className="mt-2 flex flex-col gap-1">
+              <input
+                className="rounded border border-gray-300 px-2 py-1"
+                placeholder="Caption"
+                aria-label="Caption for new uploads"
+                value={caption}
+                onChange={(e) => setCaption(e.target.value)}
+              />
+              <input
+                className="rounded border border-gray-300 px-2 py-1"
+                placeholder="Alt text (describe the image)"
+                aria-label="Alt text for new uploads"
+                value={altText}
+                onChange={(e) => setAltText(e.target.value)}
+              />
+              <input
+                className="rounded border border-gray-300 px-2 py-1"
+                placeholder="Tags, comma separated"
+                aria-label="Tags for new uploads"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+              />
+            </div>
+          </details>
+          {quota ? <QuotaSummary quota={quota} /> : null}
+          <UploadQueue
+            items={queue.items}
+            onRetry={queue.retry}
+            onCancel={queue.cancel}
+            onClearFinished={queue.clearFinished}
+          />
+          {/* Always rendered so screen readers announce each new upload result */}
+          <p role="status" aria-live="polite" className="text-center mt-3 text-sm text-gray-700">
+            {message}
+          </p>
           {serverInfo ? (
             <div className="mt-3 text-xs text-gray-600 text-center">
               <div>Server accepted: {serverInfo.mimeType}</div>
               <div>Size: {(serverInfo.bytes / 1024).toFixed(1)} KB</div>
+              {formatDimensions(serverInfo.asset) ? (
+                <div>Dimensions: {formatDimensions(serverInfo.asset)}</div>
+              ) : null}
+              {serverInfo.asset.durationSeconds !== undefined ? (
+                <div>Duration: {formatDuration(serverInfo.asset.durationSeconds)}</div>
+              ) : null}
               {serverInfo.fileName ? <div>File: {serverInfo.fileName}</div> : null}
+              <div className="truncate select-all">
+                {serverInfo.duplicate ? 'Existing URL' : 'URL'}: {serverInfo.asset.mediaUrl}
+              </div>
+              {serverInfo.strippedMetadata.length > 0 ? (
+                <div>Removed: {formatStrippedMetadata(serverInfo.strippedMetadata)}</div>
+              ) : null}
             </div>
           ) : null}
         </section>
+      ) : view === 'history' ? (
+        <History galleryEnabled={gallery?.settings.enabled ?? false} />
+      ) : view === 'gallery' ? (
+        <Gallery
+          canManage={gallery?.canManage ?? false}
+          onDisable={() => void setGalleryEnabled(false)}
+        />
       ) : (
-        <History />
+        <ModLog />
       )}
+      {galleryError ? <p className="text-xs text-red-700">{galleryError}</p> : null}
 
       <div className="mt-4 flex justify-center">
         {view === 'home' ? (
-          <button
-            className="px-4 py-2 rounded bg-[#d93900] text-white text-sm"
-            onClick={() => setView('history')}
-          >
-            History
-          </button>
+          <div className="flex gap-3">
+            <button
+              className="px-4 py-2 rounded bg-[#d93900] text-white text-sm"
+              onClick={() => setView('history')}
+            >
+              History
+            </button>
+            {gallery?.settings.enabled ? (
+              <button
+                className="px-4 py-2 rounded bg-gray-100 text-gray-800 text-sm"
+                onClick={() => setView('gallery')}
+              >
+                Gallery
+              </button>
+            ) : gallery?.canManage ? (
+              <button
+                className="px-4 py-2 rounded bg-gray-100 text-gray-800 text-sm"
+                onClick={() => void setGalleryEnabled(true)}
+              >
+                Turn on gallery
+              </button>
+            ) : null}
+            {canModerate ? (
+              <button
+                className="px-4 py-2 rounded bg-gray-100 text-gray-800 text-sm"
+                onClick={() => setView('moderation')}
+              >
+                Moderation
+              </button>
+            ) : null}
+          </div>
         ) : (
           <button
             className="px-4 py-2 rounded bg-gray-800 text-white text-sm"
@@ -221,6 +639,14 @@ export const App = () => {
           </button>
         )}
       </div>
+      {editing ? (
+        <ImageEditor
+          file={editing}
+          remaining={pendingEdits.length - 1}
+          onDone={finishEdit}
+          onCancel={cancelEdit}
+        />
+      ) : null}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import { useState } from 'react';
+import type { AssetDetails, UploadedAsset } from '../shared/types/api';
+import { parseTags } from './format';
+
+type AssetDetailsFormProps = {
+  asset: UploadedAsset;
+  onSave: (details: AssetDetails) => Promise<void>;
+  onCancel: () => void;
+};
+
+// Inline editor for an upload's caption, alt text and tags
+export const AssetDetailsForm = ({ asset, onSave, onCancel }: AssetDetailsFormProps) => {
+  const [caption, setCaption] = useState(asset.caption ?? '');
+  const [altText, setAltText] = useState(asset.altText ?? '');
+  const [tags, setTags] = useState((asset.tags ?? []).join(', '));
+  const [saving, setSaving] = useState(false);
+
+  return (
+    <form
+      className="flex flex-col gap-1 text-xs"
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        setSaving(true);
+        void onSave({ caption, altText, tags: parseTags(tags) }).finally(() => setSaving(false));
+      }}
+    >
+      <input
+        className="rounded border border-gray-300 px-2 py-1"
+        placeholder="Caption"
+        aria-label="Caption"
+        value={caption}
+        autoFocus
+        onChange={(e) => setCaption(e.target.value)}
+      />
+      <input
+        className="rounded border border-gray-300 px-2 py-1"
+        placeholder="Alt text (describe the image)"
+        aria-label="Alt text"
+        value={altText}
+        onChange={(e) => setAltText(e.target.value)}
+      />
+      <input
+        className="rounded border border-gray-300 px-2 py-1"
+        placeholder="Tags, comma separated"
+        aria-label="Tags"
+        value={tags}
+        onChange={(e) => setTags(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="px-2 py-1 rounded bg-[#d93900] text-white disabled:opacity-50"
+          disabled={saving}
+        >
+          Save
+        </button>
+        <button
+          type="button"
+          className="text-gray-600 underline underline-offset-2"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,125 @@
+import { useRef, useState } from 'react';
+import type { ImportUploadsResponse } from '../shared/types/api';
+import { EXPORT_FORMATS, type ExportFormat } from '../shared/formats';
+import { apiFetch, apiRequest, describeError } from './api';
+
+const formatLabels: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
+};
+
+type ExportImportProps = {
+  onImported: () => void;
+};
+
+// Download the whole history, or restore it from a JSON export
+export const ExportImport = ({ onImported }: ExportImportProps) => {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  const download = async () => {
+    try {
+      setBusy(true);
+      setMessage(null);
+      const res = await apiFetch(`/api/my-images/export?format=${format}`);
+      const blob = await res.blob();
+      const name =
+        /filename="([^"]+)"/.exec(res.headers.get('Content-Disposition') ?? '')?.[1] ??
+        'image-drop-history';
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = name;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Failed to export history', err);
+      setMessage(`Could not export your history. ${describeError(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      setBusy(true);
+      setMessage(null);
+      let assets: unknown;
+      try {
+        assets = JSON.parse(await file.text());
+      } catch {
+        setMessage(`${file.name} is not valid JSON.`);
+        return;
+      }
+      const data = await apiRequest<ImportUploadsResponse>('/api/my-images/import', {
+        method: 'POST',
+        body: { assets },
+      });
+      const first = data.skipped[0];
+      setMessage(
+        `Imported ${data.imported} upload${data.imported === 1 ? '' : 's'}` +
+          (first
+            ? `, skipped ${data.skipped.length} (record ${first.index + 1}: ${first.reason}).`
+            : '.')
+      );
+      if (data.imported > 0) onImported();
+    } catch (err) {
+      console.error('Failed to import history', err);
+      setMessage(`Could not import that file. ${describeError(err)}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-2 text-xs text-gray-700">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="rounded border border-gray-300 px-1 py-1"
+          aria-label="Export format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+        >
+          {EXPORT_FORMATS.map((f) => (
+            <option key={f} value={f}>
+              {formatLabels[f]}
+            </option>
+          ))}
+        </select>
+        <button
+          className="px-2 py-1 rounded bg-gray-100 text-gray-800 disabled:opacity-50"
+          disabled={busy}
+          onClick={() => void download()}
+        >
+          Export
+        </button>
+        <button
+          className="px-2 py-1 rounded bg-gray-100 text-gray-800 disabled:opacity-50"
+          disabled={busy}
+          onClick={() => fileRef.current?.click()}
+        >
+          Import JSON
+        </button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) void importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {message ? (
+        <p role="status" className="mt-1 text-gray-600">
+          {message}
+        </p>
+      ) : null}
+    </div>
+  );
+};
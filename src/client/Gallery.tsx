@@ -0,0 +1,196 @@
+import type {
+  GalleryEntry,
+  GalleryEntryResponse,
+  GalleryResponse,
+  GallerySort,
+} from '../shared/types/api';
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, describeError } from './api';
+import { altTextFor } from './format';
+
+const PAGE_SIZE = 24;
+
+const fetchPage = async (sort: GallerySort, cursor: string | null): Promise<GalleryResponse> => {
+  const params = new URLSearchParams({ sort, limit: String(PAGE_SIZE) });
+  if (cursor) params.set('cursor', cursor);
+  return apiRequest<GalleryResponse>(`/api/gallery?${params.toString()}`);
+};
+
+type GalleryProps = {
+  // Post author or moderator: may remove any entry and turn the gallery off
+  canManage: boolean;
+  onDisable: () => void;
+};
+
+export const Gallery = ({ canManage, onDisable }: GalleryProps) => {
+  const [entries, setEntries] = useState<GalleryEntry[] | null>(null);
+  const [sort, setSort] = useState<GallerySort>('new');
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const formatDate = useCallback((iso: string) => new Date(iso).toLocaleDateString(), []);
+
+  const load = useCallback(async (nextSort: GallerySort, cursor: string | null) => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await fetchPage(nextSort, cursor);
+      setEntries((prev) => {
+        if (!cursor) return data.entries;
+        // Offsets shift when entries are shared or voted on between pages
+        const seen = new Set((prev ?? []).map((e) => e.mediaId));
+        return [...(prev ?? []), ...data.entries.filter((e) => !seen.has(e.mediaId))];
+      });
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch gallery', err);
+      setError(describeError(err));
+      if (!cursor) setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void load(sort, null);
+  }, [load, sort]);
+
+  const replace = (entry: GalleryEntry) =>
+    setEntries((prev) =>
+      prev ? prev.map((e) => (e.mediaId === entry.mediaId ? entry : e)) : prev
+    );
+
+  const toggleVote = async (entry: GalleryEntry) => {
+    // Optimistic: the count flips immediately and is corrected by the server's answer
+    replace({
+      ...entry,
+      votedByMe: !entry.votedByMe,
+      votes: entry.votes + (entry.votedByMe ? -1 : 1),
+    });
+    try {
+      const data = await apiRequest<GalleryEntryResponse>(
+        `/api/gallery/${encodeURIComponent(entry.mediaId)}/vote`,
+        { method: entry.votedByMe ? 'DELETE' : 'PUT' }
+      );
+      replace(data.entry);
+    } catch (err) {
+      replace(entry);
+      setError(describeError(err));
+    }
+  };
+
+  const remove = async (entry: GalleryEntry) => {
+    try {
+      setError(null);
+      await apiRequest(`/api/gallery/${encodeURIComponent(entry.mediaId)}`, { method: 'DELETE' });
+      setEntries((prev) => (prev ? prev.filter((e) => e.mediaId !== entry.mediaId) : prev));
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  return (
+    <section className="w-full max-w-screen-sm mx-auto mt-6 flex flex-col min-h-0">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold text-gray-900">Community gallery</h2>
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            className="rounded border border-gray-300 px-1 py-0.5 text-xs"
+            aria-label="Sort gallery"
+            value={sort}
+            onChange={(e) => setSort(e.target.value as GallerySort)}
+          >
+            <option value="new">Newest</option>
+            <option value="top">Top</option>
+          </select>
+          <button
+            className="text-[#d93900] underline underline-offset-2"
+            onClick={() => void load(sort, null)}
+          >
+            Refresh
+          </button>
+          {canManage ? (
+            <button className="text-gray-600 underline underline-offset-2" onClick={onDisable}>
+              Turn off gallery
+            </button>
+          ) : null}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Share your uploads from History to add them here.
+      </p>
+      {error ? <p className="mt-2 text-xs text-red-700">{error}</p> : null}
+      {entries === null ? (
+        <p className="text-sm text-gray-600 mt-2">Loading…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-600 mt-2">Nothing has been shared yet.</p>
+      ) : (
+        <div className="mt-3 max-h-[60vh] overflow-y-auto overscroll-contain">
+          <ul className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+            {entries.map((e) => (
+              <li key={e.mediaId} className="rounded border border-gray-200 bg-white">
+                <div className="aspect-square overflow-hidden rounded-t bg-gray-100">
+                  {e.mediaType === 'video' ? (
+                    <video
+                      src={e.mediaUrl}
+                      aria-label={altTextFor(e)}
+                      className="h-full w-full object-cover"
+                      preload="metadata"
+                      controls
+                      muted
+                    />
+                  ) : (
+                    <img
+                      src={e.mediaUrl}
+                      alt={altTextFor(e)}
+                      className="h-full w-full object-cover"
+                    />
+                  )}
+                </div>
+                <div className="p-2 text-xs">
+                  {e.caption ? <div className="truncate text-gray-900">{e.caption}</div> : null}
+                  <div className="truncate text-gray-600">
+                    u/{e.username} · {formatDate(e.date)}
+                  </div>
+                  <div className="mt-1 flex items-center justify-between">
+                    <button
+                      className={`inline-flex items-center gap-1 rounded px-1.5 py-0.5 ${
+                        e.votedByMe ? 'bg-[#fff4f0] text-[#d93900]' : 'bg-gray-100 text-gray-700'
+                      }`}
+                      aria-pressed={e.votedByMe}
+                      aria-label={`${e.votedByMe ? 'Remove upvote' : 'Upvote'} (${e.votes})`}
+                      onClick={() => void toggleVote(e)}
+                    >
+                      <span aria-hidden>▲</span>
+                      {e.votes}
+                    </button>
+                    {canManage || e.sharedByMe ? (
+                      <button
+                        className="text-red-700 underline underline-offset-2"
+                        onClick={() => void remove(e)}
+                      >
+                        Remove
+                      </button>
+                    ) : null}
+                  </div>
+                </div>
+              </li>
+            ))}
+          </ul>
+          {nextCursor ? (
+            <div className="mt-3 text-center">
+              <button
+                className="px-3 py-1 rounded bg-gray-100 text-gray-800 text-xs disabled:opacity-50"
+                disabled={loading}
+                onClick={() => void load(sort, nextCursor)}
+              >
+                {loading ? 'Loading…' : 'Load more'}
+              </button>
+            </div>
+          ) : null}
+        </div>
+      )}
+    </section>
+  );
+};
@@ -1,13 +1,89 @@
-import type { ListUploadsResponse, UploadedAsset } from '../shared/types/api';
+import type {
+  Album,
+  AlbumResponse,
+  AlbumsResponse,
+  AssetDetails,
+  GalleryEntryResponse,
+  HistoryEvent,
+  MediaMimeType,
+  ListUploadsResponse,
+  PublishResponse,
+  PublishTarget,
+  UpdateAssetResponse,
+  UploadSearch,
+  UploadedAsset,
+} from '../shared/types/api';
+import { IMAGE_MIME_TYPES, VIDEO_MIME_TYPES, formatMimeTypes } from '../shared/policy';
+import { formatAssetLink, type CopyFormat } from '../shared/formats';
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { AlbumBar } from './AlbumBar';
+import { ApiError, apiRequest, describeError } from './api';
+import { AssetDetailsForm } from './AssetDetailsForm';
+import { ExportImport } from './ExportImport';
+import { applyHistoryEvent, mergeFirstPage, useHistorySync } from './historySync';
+import { Lightbox } from './Lightbox';
+import { PublishForm } from './PublishForm';
+import { navigateTo } from '@devvit/web/client';
+import { altTextFor, formatDimensions, formatDuration } from './format';
 
-export const History = () => {
+// How long a deleted row can be restored before the delete is sent to the server
+const UNDO_WINDOW_MS = 5000;
+const PAGE_SIZE = 20;
+
+const fetchPage = async (
+  cursor: string | null,
+  albumId: string | null,
+  search: UploadSearch
+): Promise<ListUploadsResponse> => {
+  const params = new URLSearchParams({ limit: String(PAGE_SIZE) });
+  if (cursor) params.set('cursor', cursor);
+  if (albumId) params.set('album', albumId);
+  for (const [key, value] of Object.entries(search)) {
+    if (value) params.set(key, value);
+  }
+  const data = await apiRequest<ListUploadsResponse>(`/api/my-images?${params.toString()}`);
+  if (data.type !== 'listUploads') throw new Error('Unexpected response');
+  return data;
+};
+
+// Date inputs give local calendar days; widen them to the whole day in the user's timezone
+const dayStart = (day: string) => new Date(`${day}T00:00:00`).toISOString();
+const dayEnd = (day: string) => new Date(`${day}T23:59:59.999`).toISOString();
+
+type HistoryProps = {
+  // The post has a community gallery, so rows can be shared to it
+  galleryEnabled: boolean;
+};
+
+export const History = ({ galleryEnabled }: HistoryProps) => {
   const [assets, setAssets] = useState<UploadedAsset[] | null>(null);
   const [loading, setLoading] = useState(false);
   const [selectedId, setSelectedId] = useState<string | null>(null);
   const urlRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const [copiedId, setCopiedId] = useState<string | null>(null);
   const copiedTimer = useRef<number | null>(null);
+  const [checkedIds, setCheckedIds] = useState<Set<string>>(() => new Set());
+  const [pendingDelete, setPendingDelete] = useState<string[] | null>(null);
+  const pendingRef = useRef<{ ids: string[]; timer: number } | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const sentinelRef = useRef<HTMLDivElement | null>(null);
+  const [albums, setAlbums] = useState<Album[]>([]);
+  const [albumId, setAlbumId] = useState<string | null>(null);
+  const [albumError, setAlbumError] = useState<string | null>(null);
+  const [search, setSearch] = useState<UploadSearch>({});
+  const [query, setQuery] = useState('');
+  const [typeFilter, setTypeFilter] = useState<MediaMimeType | ''>('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [publishingId, setPublishingId] = useState<string | null>(null);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [sharedIds, setSharedIds] = useState<Set<string>>(() => new Set());
+  const [expanded, setExpanded] = useState<UploadedAsset | null>(null);
+  const closeLightbox = useCallback(() => setExpanded(null), []);
 
   useEffect(() => {
     return () => {
@@ -22,23 +98,319 @@ export const History = () => {
   const fetchMyImages = useCallback(async () => {
     try {
       setLoading(true);
-      const res = await fetch('/api/my-images');
-      if (!res.ok) throw new Error(`HTTP ${res.status}`);
-      const data: ListUploadsResponse = await res.json();
-      if (data.type !== 'listUploads') throw new Error('Unexpected response');
+      const data = await fetchPage(null, albumId, search);
       setAssets(data.assets);
+      setNextCursor(data.nextCursor);
     } catch (err) {
       console.error('Failed to fetch my images', err);
       setAssets([]);
+      setNextCursor(null);
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [albumId, search]);
+
+  const fetchMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    try {
+      setLoadingMore(true);
+      const data = await fetchPage(nextCursor, albumId, search);
+      setAssets((prev) => {
+        const seen = new Set((prev ?? []).map((a) => a.mediaId));
+        return [...(prev ?? []), ...data.assets.filter((a) => !seen.has(a.mediaId))];
+      });
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      console.error('Failed to fetch more images', err);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [nextCursor, loadingMore, albumId, search]);
+
+  // Changes from the user's other sessions. New rows only appear in the unfiltered list, since
+  // only the server knows whether they belong to an album or match a search.
+  const filtered = albumId !== null || Object.keys(search).length > 0;
+  const onHistoryEvent = useCallback(
+    (event: HistoryEvent) => {
+      setAssets((prev) =>
+        prev
+          ? applyHistoryEvent(prev, event, { insert: !filtered, hasMore: nextCursor !== null })
+          : prev
+      );
+      if (event.type === 'removed') {
+        setCheckedIds((prev) => new Set([...prev].filter((id) => !event.mediaIds.includes(id))));
+      }
+    },
+    [filtered, nextCursor]
+  );
+
+  // Polling fallback: merges the first page in place, so scrolled-in pages aren't lost
+  const resync = useCallback(async () => {
+    try {
+      const data = await fetchPage(null, albumId, search);
+      setAssets((prev) =>
+        prev ? mergeFirstPage(prev, data.assets, data.nextCursor !== null) : data.assets
+      );
+      setNextCursor((prev) => (data.nextCursor ? (prev ?? data.nextCursor) : null));
+    } catch (err) {
+      console.error('Failed to sync my images', err);
+    }
+  }, [albumId, search]);
+
+  const live = useHistorySync({ onEvent: onHistoryEvent, onResync: () => void resync() });
+
+  // Load the next page when the bottom of the list scrolls into view
+  useEffect(() => {
+    const root = scrollRef.current;
+    const sentinel = sentinelRef.current;
+    if (!root || !sentinel || !nextCursor) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((e) => e.isIntersecting)) void fetchMore();
+      },
+      { root, rootMargin: '200px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, fetchMore, assets]);
 
   useEffect(() => {
     void fetchMyImages();
   }, [fetchMyImages]);
 
+  const fetchAlbums = useCallback(async () => {
+    try {
+      const data = await apiRequest<AlbumsResponse>('/api/albums');
+      setAlbums(data.albums);
+    } catch (err) {
+      console.error('Failed to fetch albums', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchAlbums();
+  }, [fetchAlbums]);
+
+  const selectAlbum = useCallback((id: string | null) => {
+    setAlbumId(id);
+    setCheckedIds(new Set());
+    setAlbumError(null);
+  }, []);
+
+  // Runs an album change, then refreshes album counts (and the list, when it may have changed)
+  const albumAction = useCallback(
+    async (action: () => Promise<unknown>, refetchList: boolean) => {
+      try {
+        setAlbumError(null);
+        await action();
+        await fetchAlbums();
+        if (refetchList) await fetchMyImages();
+      } catch (err) {
+        console.error('Album update failed', err);
+        setAlbumError(describeError(err));
+      }
+    },
+    [fetchAlbums, fetchMyImages]
+  );
+
+  const createAlbum = (name: string) =>
+    albumAction(async () => {
+      const data = await apiRequest<AlbumResponse>('/api/albums', {
+        method: 'POST',
+        body: { name },
+      });
+      setAlbumId(data.album.id);
+    }, false);
+
+  const renameAlbum = (id: string, name: string) =>
+    albumAction(
+      () =>
+        apiRequest(`/api/albums/${encodeURIComponent(id)}`, { method: 'PATCH', body: { name } }),
+      false
+    );
+
+  const deleteAlbum = (id: string) =>
+    albumAction(async () => {
+      await apiRequest(`/api/albums/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      setAlbumId(null);
+    }, false);
+
+  const addCheckedToAlbum = (id: string) =>
+    albumAction(async () => {
+      await apiRequest(`/api/albums/${encodeURIComponent(id)}/assets`, {
+        method: 'POST',
+        body: { mediaIds: [...checkedIds] },
+      });
+      setCheckedIds(new Set());
+    }, false);
+
+  const removeCheckedFromAlbum = (id: string) =>
+    albumAction(async () => {
+      await apiRequest(`/api/albums/${encodeURIComponent(id)}/assets`, {
+        method: 'DELETE',
+        body: { mediaIds: [...checkedIds] },
+      });
+      setCheckedIds(new Set());
+    }, true);
+
+  // Filters apply on submit, not on every keystroke
+  const applySearch = () => {
+    setCheckedIds(new Set());
+    setSearch({
+      ...(query.trim() ? { q: query.trim() } : {}),
+      ...(search.tag ? { tag: search.tag } : {}),
+      ...(typeFilter ? { type: typeFilter } : {}),
+      ...(fromDay ? { from: dayStart(fromDay) } : {}),
+      ...(toDay ? { to: dayEnd(toDay) } : {}),
+    });
+  };
+
+  const filterByTag = (tag: string | null) => {
+    setCheckedIds(new Set());
+    setSearch((prev) => {
+      const { tag: _previous, ...rest } = prev;
+      return tag ? { ...rest, tag } : rest;
+    });
+  };
+
+  const clearSearch = () => {
+    setQuery('');
+    setTypeFilter('');
+    setFromDay('');
+    setToDay('');
+    setCheckedIds(new Set());
+    setSearch({});
+  };
+
+  const saveDetails = async (mediaId: string, details: AssetDetails) => {
+    try {
+      setEditError(null);
+      const data = await apiRequest<UpdateAssetResponse>(
+        `/api/my-images/${encodeURIComponent(mediaId)}`,
+        { method: 'PATCH', body: details }
+      );
+      setAssets((prev) =>
+        prev ? prev.map((a) => (a.mediaId === mediaId ? data.asset : a)) : prev
+      );
+      setEditingId(null);
+    } catch (err) {
+      console.error('Failed to update upload', err);
+      setEditError(describeError(err));
+    }
+  };
+
+  const publish = async (mediaId: string, target: PublishTarget, title: string, body: string) => {
+    try {
+      setEditError(null);
+      const data = await apiRequest<PublishResponse>('/api/publish', {
+        method: 'POST',
+        body: { mediaId, target, ...(target === 'post' ? { title } : { body }) },
+      });
+      setAssets((prev) =>
+        prev ? prev.map((a) => (a.mediaId === mediaId ? data.asset : a)) : prev
+      );
+      setPublishingId(null);
+    } catch (err) {
+      console.error('Failed to publish upload', err);
+      setEditError(describeError(err));
+    }
+  };
+
+  const shareToGallery = async (mediaId: string) => {
+    try {
+      setEditError(null);
+      const data = await apiRequest<GalleryEntryResponse>('/api/gallery', {
+        method: 'POST',
+        body: { mediaId },
+      });
+      setSharedIds((prev) => new Set(prev).add(data.entry.mediaId));
+    } catch (err) {
+      console.error('Failed to share upload', err);
+      setEditError(describeError(err));
+    }
+  };
+
+  const isSearching = Object.keys(search).length > 0;
+
+  const commitDelete = useCallback(
+    async (ids: string[]) => {
+      try {
+        try {
+          if (ids.length === 1) {
+            await apiRequest(`/api/my-images/${encodeURIComponent(ids[0]!)}`, { method: 'DELETE' });
+          } else {
+            await apiRequest('/api/my-images', { method: 'DELETE', body: { mediaIds: ids } });
+          }
+        } catch (err) {
+          // NOT_FOUND means the row is already gone, which is what we wanted
+          if (!(err instanceof ApiError && err.code === 'NOT_FOUND')) throw err;
+        }
+        // Requested ids are either deleted now or were never in the user's history
+        const gone = new Set(ids);
+        setAssets((prev) => (prev ? prev.filter((a) => !gone.has(a.mediaId)) : prev));
+        void fetchAlbums();
+      } catch (err) {
+        console.error('Failed to delete uploads', err);
+        setDeleteError(`Could not delete: ${describeError(err)}`);
+        void fetchMyImages();
+      }
+    },
+    [fetchMyImages, fetchAlbums]
+  );
+
+  // commitDelete changes with the filters; reading it through a ref keeps the flush below
+  // stable, so changing a filter doesn't close the undo window early
+  const commitDeleteRef = useRef(commitDelete);
+  useEffect(() => {
+    commitDeleteRef.current = commitDelete;
+  }, [commitDelete]);
+
+  // Send the pending delete now instead of waiting for the undo window to close
+  const flushPendingDelete = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingRef.current = null;
+    setPendingDelete(null);
+    void commitDeleteRef.current(pending.ids);
+  }, []);
+
+  // Only on unmount
+  useEffect(() => flushPendingDelete, [flushPendingDelete]);
+
+  const scheduleDelete = useCallback(
+    (ids: string[]) => {
+      if (ids.length === 0) return;
+      flushPendingDelete();
+      setDeleteError(null);
+      const timer = window.setTimeout(flushPendingDelete, UNDO_WINDOW_MS);
+      pendingRef.current = { ids, timer };
+      setPendingDelete(ids);
+      setCheckedIds(new Set());
+    },
+    [flushPendingDelete]
+  );
+
+  const undoDelete = useCallback(() => {
+    const pending = pendingRef.current;
+    if (!pending) return;
+    window.clearTimeout(pending.timer);
+    pendingRef.current = null;
+    setPendingDelete(null);
+  }, []);
+
+  const toggleChecked = (mediaId: string) => {
+    setCheckedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(mediaId)) next.delete(mediaId);
+      else next.add(mediaId);
+      return next;
+    });
+  };
+
+  const hidden = new Set(pendingDelete ?? []);
+  const visibleAssets = assets ? assets.filter((a) => !hidden.has(a.mediaId)) : null;
+
   const selectText = (el: HTMLElement) => {
     const selection = window.getSelection();
     if (!selection) return;
@@ -48,11 +420,11 @@ export const History = () => {
     selection.addRange(range);
   };
 
-  const handleRowClick = async (asset: UploadedAsset) => {
+  const handleRowClick = async (asset: UploadedAsset, format: CopyFormat = 'url') => {
     setSelectedId(asset.mediaId);
     let copied = false;
     try {
-      await navigator.clipboard.writeText(asset.mediaUrl);
+      await navigator.clipboard.writeText(formatAssetLink(asset, format));
       copied = true;
     } catch {
       // no-op; user can manually copy from selection/highlight
@@ -69,16 +441,158 @@ export const History = () => {
   };
   return (
     <section className="w-full max-w-screen-sm mx-auto mt-6">
+      {expanded ? <Lightbox asset={expanded} onClose={closeLightbox} /> : null}
       <div className="flex items-center justify-between">
         <h2 className="text-lg font-semibold text-gray-900">My uploads</h2>
-        <button
-          className="text-sm text-[#d93900] underline underline-offset-2"
-          onClick={fetchMyImages}
+        <div className="flex items-center gap-3">
+          {live ? (
+            <span
+              className="text-xs text-green-700"
+              title="Uploads from your other devices appear here automatically"
+            >
+              ● Live
+            </span>
+          ) : null}
+          <button
+            className="text-sm text-[#d93900] underline underline-offset-2"
+            onClick={fetchMyImages}
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        Click any row to copy the URL, or use Copy as for Markdown and HTML.
+      </p>
+      <ExportImport onImported={() => void fetchMyImages()} />
+      <AlbumBar
+        albums={albums}
+        activeId={albumId}
+        onSelect={selectAlbum}
+        onCreate={createAlbum}
+        onRename={renameAlbum}
+        onDelete={deleteAlbum}
+      />
+      {albumError ? <p className="mt-2 text-xs text-red-700">{albumError}</p> : null}
+      <form
+        className="mt-2 flex flex-wrap items-center gap-2 text-xs"
+        role="search"
+        onSubmit={(e) => {
+          e.preventDefault();
+          applySearch();
+        }}
+      >
+        <input
+          className="flex-1 min-w-32 rounded border border-gray-300 px-2 py-1"
+          type="search"
+          placeholder="Search captions, tags, file names"
+          aria-label="Search uploads"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          aria-label="Filter by format"
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as MediaMimeType | '')}
         >
-          Refresh
+          <option value="">All formats</option>
+          {[...IMAGE_MIME_TYPES, ...VIDEO_MIME_TYPES].map((t) => (
+            <option key={t} value={t}>
+              {formatMimeTypes([t])}
+            </option>
+          ))}
+        </select>
+        <input
+          className="rounded border border-gray-300 px-1 py-1"
+          type="date"
+          aria-label="Uploaded on or after"
+          value={fromDay}
+          onChange={(e) => setFromDay(e.target.value)}
+        />
+        <input
+          className="rounded border border-gray-300 px-1 py-1"
+          type="date"
+          aria-label="Uploaded on or before"
+          value={toDay}
+          onChange={(e) => setToDay(e.target.value)}
+        />
+        <button type="submit" className="px-2 py-1 rounded bg-gray-100 text-gray-800">
+          Search
         </button>
-      </div>
-      <p className="text-xs text-gray-500 mt-1">Click any row to copy the URL.</p>
+        {isSearching ? (
+          <button
+            type="button"
+            className="text-gray-600 underline underline-offset-2"
+            onClick={clearSearch}
+          >
+            Clear
+          </button>
+        ) : null}
+      </form>
+      {search.tag ? (
+        <div className="mt-2 inline-flex items-center gap-2 rounded-full border border-[#d93900] bg-[#fff4f0] px-2 py-0.5 text-xs text-[#d93900]">
+          <span>#{search.tag}</span>
+          <button aria-label="Remove tag filter" onClick={() => filterByTag(null)}>
+            ×
+          </button>
+        </div>
+      ) : null}
+      {editError ? <p className="mt-2 text-xs text-red-700">{editError}</p> : null}
+      {pendingDelete ? (
+        <div className="mt-2 inline-flex items-center gap-2 rounded border border-gray-200 bg-gray-50 px-2 py-1 text-xs text-gray-700">
+          <span>
+            Deleted {pendingDelete.length} upload{pendingDelete.length === 1 ? '' : 's'}.
+          </span>
+          <button className="text-[#d93900] underline underline-offset-2" onClick={undoDelete}>
+            Undo
+          </button>
+        </div>
+      ) : null}
+      {deleteError ? <p className="mt-2 text-xs text-red-700">{deleteError}</p> : null}
+      {checkedIds.size > 0 ? (
+        <div className="mt-2 flex items-center gap-2 text-xs">
+          <button
+            className="px-2 py-1 rounded bg-red-600 text-white"
+            onClick={() => scheduleDelete([...checkedIds])}
+          >
+            Delete selected ({checkedIds.size})
+          </button>
+          {albums.length > 0 ? (
+            <select
+              className="rounded border border-gray-300 px-1 py-1"
+              aria-label="Add selected to album"
+              value=""
+              onChange={(e) => {
+                if (e.target.value) void addCheckedToAlbum(e.target.value);
+              }}
+            >
+              <option value="">Add to album…</option>
+              {albums
+                .filter((a) => a.id !== albumId)
+                .map((a) => (
+                  <option key={a.id} value={a.id}>
+                    {a.name}
+                  </option>
+                ))}
+            </select>
+          ) : null}
+          {albumId ? (
+            <button
+              className="px-2 py-1 rounded bg-gray-100 text-gray-800"
+              onClick={() => void removeCheckedFromAlbum(albumId)}
+            >
+              Remove from album
+            </button>
+          ) : null}
+          <button
+            className="text-gray-600 underline underline-offset-2"
+            onClick={() => setCheckedIds(new Set())}
+          >
+            Clear selection
+          </button>
+        </div>
+      ) : null}
       {copiedId ? (
         <div className="mt-2 inline-flex items-center gap-1 rounded border border-green-200 bg-green-50 px-2 py-1 text-xs text-green-700">
           <span aria-hidden>✓</span>
@@ -87,34 +601,109 @@ export const History = () => {
       ) : null}
       {loading ? (
         <p className="text-sm text-gray-600 mt-2">Loading…</p>
-      ) : assets && assets.length > 0 ? (
+      ) : visibleAssets && visibleAssets.length > 0 ? (
         <div className="mt-3 overflow-x-auto">
-          <div className="h-60 overflow-y-auto overscroll-contain rounded border border-gray-200">
+          <div
+            ref={scrollRef}
+            className="max-h-[60vh] overflow-y-auto overscroll-contain rounded border border-gray-200"
+          >
             <table className="w-full text-left text-sm border-separate border-spacing-0">
               <thead>
                 <tr>
+                  <th className="px-2 py-2 border-b border-gray-200">
+                    <input
+                      type="checkbox"
+                      aria-label="Select all"
+                      checked={visibleAssets.every((a) => checkedIds.has(a.mediaId))}
+                      onChange={(e) =>
+                        setCheckedIds(
+                          e.target.checked
+                            ? new Set(visibleAssets.map((a) => a.mediaId))
+                            : new Set()
+                        )
+                      }
+                    />
+                  </th>
                   <th className="sticky left-0 z-[1] bg-white px-3 py-2 border-b border-gray-200">
                     Preview
                   </th>
                   <th className="px-3 py-2 border-b border-gray-200">URL</th>
                   <th className="px-3 py-2 border-b border-gray-200">Date</th>
+                  <th className="px-3 py-2 border-b border-gray-200">
+                    <span className="sr-only">Actions</span>
+                  </th>
                 </tr>
               </thead>
               <tbody>
-                {assets.map((a) => (
+                {visibleAssets.map((a) => (
                   <tr
                     key={a.mediaId}
                     className={`hover:bg-gray-50 cursor-pointer ${selectedId === a.mediaId ? 'bg-yellow-50' : ''}`}
                     onClick={() => void handleRowClick(a)}
                   >
+                    <td
+                      className="px-2 py-2 border-b border-gray-100"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${a.mediaId}`}
+                        checked={checkedIds.has(a.mediaId)}
+                        onChange={() => toggleChecked(a.mediaId)}
+                      />
+                    </td>
                     <td
                       className={`sticky left-0 ${selectedId === a.mediaId ? 'bg-yellow-50' : 'bg-white/95'} backdrop-blur px-3 py-2 border-b border-gray-100 max-w-3`}
                     >
-                      <div className="h-12 w-12 overflow-hidden rounded bg-gray-100">
-                        <img src={a.mediaUrl} alt={a.mediaId} className="h-12 w-12 object-cover" />
-                      </div>
+                      <button
+                        className="block h-12 w-12 overflow-hidden rounded bg-gray-100"
+                        aria-label={`Open ${altTextFor(a)}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setExpanded(a);
+                        }}
+                      >
+                        {a.thumbnailUrl || a.mediaType !== 'video' ? (
+                          // Uploads from before thumbnails existed fall back to the original
+                          <img
+                            src={a.thumbnailUrl ?? a.mediaUrl}
+                            alt={altTextFor(a)}
+                            className="h-12 w-12 object-cover"
+                            loading="lazy"
+                            decoding="async"
+                          />
+                        ) : (
+                          // Loads just enough to show the first frame
+                          <video
+                            src={a.mediaUrl}
+                            aria-label={altTextFor(a)}
+                            className="h-12 w-12 object-cover"
+                            preload="metadata"
+                            muted
+                          />
+                        )}
+                      </button>
                     </td>
                     <td className="px-3 py-2 border-b border-gray-100">
+                      {editingId === a.mediaId ? (
+                        <AssetDetailsForm
+                          asset={a}
+                          onSave={(details) => saveDetails(a.mediaId, details)}
+                          onCancel={() => setEditingId(null)}
+                        />
+                      ) : null}
+                      {publishingId === a.mediaId ? (
+                        <PublishForm
+                          asset={a}
+                          onPublish={(target, title, body) =>
+                            publish(a.mediaId, target, title, body)
+                          }
+                          onCancel={() => setPublishingId(null)}
+                        />
+                      ) : null}
+                      {a.caption ? (
+                        <div className="text-xs text-gray-900 truncate">{a.caption}</div>
+                      ) : null}
                       <div
                         ref={(el) => {
                           urlRefs.current[a.mediaId] = el;
@@ -127,18 +716,133 @@ export const History = () => {
                       >
                         {a.mediaUrl}
                       </div>
+                      {formatDimensions(a) ? (
+                        <div className="text-[11px] text-gray-500">{formatDimensions(a)}</div>
+                      ) : null}
+                      {a.durationSeconds !== undefined ? (
+                        <div className="text-[11px] text-gray-500">
+                          {formatDuration(a.durationSeconds)}
+                        </div>
+                      ) : null}
+                      {a.publications && a.publications.length > 0 ? (
+                        <div className="mt-0.5 flex flex-wrap gap-x-2 text-[11px] text-green-700">
+                          {a.publications.map((p) => (
+                            <button
+                              key={p.permalink}
+                              className="underline underline-offset-2"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                navigateTo(p.permalink);
+                              }}
+                            >
+                              Published as {p.target} ↗
+                            </button>
+                          ))}
+                        </div>
+                      ) : null}
+                      {a.tags && a.tags.length > 0 ? (
+                        <div className="mt-0.5 flex flex-wrap gap-1">
+                          {a.tags.map((t) => (
+                            <button
+                              key={t}
+                              className="rounded-full bg-gray-100 px-1.5 text-[11px] text-gray-700"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                filterByTag(t);
+                              }}
+                            >
+                              #{t}
+                            </button>
+                          ))}
+                        </div>
+                      ) : null}
                     </td>
                     <td className="px-3 py-2 border-b border-gray-100 whitespace-nowrap text-gray-600">
                       {formatDate(a.date)}
+                      {a.expiresAt ? (
+                        <div className="text-[11px] text-amber-700">
+                          Expires {formatDate(a.expiresAt)}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="px-3 py-2 border-b border-gray-100 whitespace-nowrap">
+                      <button
+                        className="mr-2 text-xs text-gray-700 underline underline-offset-2"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditError(null);
+                          setPublishingId(null);
+                          setEditingId(editingId === a.mediaId ? null : a.mediaId);
+                        }}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        className="mr-2 text-xs text-[#d93900] underline underline-offset-2"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setEditError(null);
+                          setEditingId(null);
+                          setPublishingId(publishingId === a.mediaId ? null : a.mediaId);
+                        }}
+                      >
+                        Publish
+                      </button>
+                      {galleryEnabled ? (
+                        <button
+                          className="mr-2 text-xs text-gray-700 underline underline-offset-2 disabled:no-underline disabled:text-green-700"
+                          disabled={sharedIds.has(a.mediaId)}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            void shareToGallery(a.mediaId);
+                          }}
+                        >
+                          {sharedIds.has(a.mediaId) ? 'Shared ✓' : 'Share'}
+                        </button>
+                      ) : null}
+                      <button
+                        className="text-xs text-red-700 underline underline-offset-2"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          scheduleDelete([a.mediaId]);
+                        }}
+                      >
+                        Delete
+                      </button>
+                      <select
+                        className="ml-2 rounded border border-gray-200 px-1 text-xs text-gray-700"
+                        aria-label={`Copy ${altTextFor(a)} as`}
+                        value=""
+                        onClick={(e) => e.stopPropagation()}
+                        onChange={(e) => {
+                          if (e.target.value) void handleRowClick(a, e.target.value as CopyFormat);
+                        }}
+                      >
+                        <option value="">Copy as…</option>
+                        <option value="url">URL</option>
+                        <option value="markdown">Markdown</option>
+                        <option value="html">HTML</option>
+                      </select>
                     </td>
                   </tr>
                 ))}
               </tbody>
             </table>
+            {nextCursor ? (
+              <div ref={sentinelRef} className="px-3 py-2 text-center text-xs text-gray-500">
+                {loadingMore ? 'Loading more…' : ''}
+              </div>
+            ) : null}
           </div>
         </div>
       ) : (
-        <p className="text-sm text-gray-600 mt-2">No uploads yet.</p>
+        <p className="text-sm text-gray-600 mt-2">
+          {isSearching
+            ? 'No uploads match your search.'
+            : albumId
+              ? 'This album is empty.'
+              : 'No uploads yet.'}
+        </p>
       )}
     </section>
   );
@@ -0,0 +1,331 @@
+import { useEffect, useRef, useState } from 'react';
+import type React from 'react';
+import { describeError } from './api';
+import {
+  ASPECT_CHOICES,
+  type AspectRatio,
+  type Corner,
+  type CropRect,
+  type EditState,
+  drawOriented,
+  fitCrop,
+  flipEdit,
+  initialEdit,
+  moveCrop,
+  orientedSize,
+  renderEdit,
+  resizeCrop,
+  rotateEdit,
+} from './imageEdit';
+
+// Longest side of the on-screen preview canvas; the upload is rendered at full size
+const PREVIEW_EDGE = 640;
+// Fraction of the image moved per arrow key press on the crop box
+const KEY_STEP = 0.01;
+const KEY_STEPS: Partial<Record<string, readonly [number, number]>> = {
+  ArrowLeft: [-KEY_STEP, 0],
+  ArrowRight: [KEY_STEP, 0],
+  ArrowUp: [0, -KEY_STEP],
+  ArrowDown: [0, KEY_STEP],
+};
+
+const CORNERS: readonly Corner[] = ['nw', 'ne', 'sw', 'se'];
+const CORNER_CLASSES: Record<Corner, string> = {
+  nw: '-left-1.5 -top-1.5 cursor-nwse-resize',
+  ne: '-right-1.5 -top-1.5 cursor-nesw-resize',
+  sw: '-left-1.5 -bottom-1.5 cursor-nesw-resize',
+  se: '-right-1.5 -bottom-1.5 cursor-nwse-resize',
+};
+
+type Drag = {
+  // 'move' drags the whole box, a corner resizes it
+  mode: 'move' | Corner;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+};
+
+type ImageEditorProps = {
+  file: File;
+  // Images still waiting for the editor after this one
+  remaining: number;
+  // Receives the edited file, or the original when the user skips editing
+  onDone: (file: File) => void;
+  // Drops this image without uploading it
+  onCancel: () => void;
+};
+
+export const ImageEditor = ({ file, remaining, onDone, onCancel }: ImageEditorProps) => {
+  const [image, setImage] = useState<ImageBitmap | null>(null);
+  const [edit, setEdit] = useState<EditState>(initialEdit);
+  const [ratio, setRatio] = useState<AspectRatio>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const skipRef = useRef<HTMLButtonElement | null>(null);
+
+  // 'from-image' applies the EXIF orientation, so sideways phone photos start out upright
+  useEffect(() => {
+    let bitmap: ImageBitmap | null = null;
+    let cancelled = false;
+    setImage(null);
+    setEdit(initialEdit());
+    setRatio(null);
+    setError(null);
+    createImageBitmap(file, { imageOrientation: 'from-image' })
+      .then((decoded) => {
+        if (cancelled) return decoded.close();
+        bitmap = decoded;
+        setImage(decoded);
+      })
+      .catch((err: unknown) => {
+        if (!cancelled) setError(`Could not open ${file.name} for editing: ${describeError(err)}`);
+      });
+    return () => {
+      cancelled = true;
+      bitmap?.close();
+    };
+  }, [file]);
+
+  const oriented = image ? orientedSize(image.width, image.height, edit.rotation) : null;
+
+  // The crop isn't drawn into the preview, only the overlay on top of it, so drags don't redraw
+  const { rotation, flipX, flipY } = edit;
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!image || !canvas) return;
+    const size = orientedSize(image.width, image.height, rotation);
+    const scale = Math.min(1, PREVIEW_EDGE / Math.max(size.width, size.height));
+    canvas.width = Math.max(1, Math.round(size.width * scale));
+    canvas.height = Math.max(1, Math.round(size.height * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    drawOriented(ctx, image, { rotation, flipX, flipY }, scale);
+  }, [image, rotation, flipX, flipY]);
+
+  // Focus starts on "Upload original"; Escape drops the image like "Don't upload"
+  useEffect(() => {
+    skipRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onCancel();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onCancel]);
+
+  const chooseRatio = (next: AspectRatio) => {
+    setRatio(next);
+    if (oriented) setEdit((e) => ({ ...e, crop: fitCrop(next, oriented.width, oriented.height) }));
+  };
+
+  const rotate = (direction: 1 | -1) => {
+    if (!image) return;
+    setEdit((e) => {
+      const next = rotateEdit(e, direction);
+      const size = orientedSize(image.width, image.height, next.rotation);
+      return { ...next, crop: fitCrop(ratio, size.width, size.height) };
+    });
+  };
+
+  const startDrag = (mode: Drag['mode']) => (e: React.PointerEvent<HTMLElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: edit.crop };
+  };
+
+  const onDrag = (e: React.PointerEvent<HTMLElement>) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current?.getBoundingClientRect();
+    if (!drag || !frame || !oriented) return;
+    // Pointer movement as a fraction of the displayed image
+    const dx = (e.clientX - drag.startX) / frame.width;
+    const dy = (e.clientY - drag.startY) / frame.height;
+    const crop =
+      drag.mode === 'move'
+        ? moveCrop(drag.startCrop, dx, dy)
+        : resizeCrop(drag.startCrop, drag.mode, dx, dy, ratio, oriented.width, oriented.height);
+    setEdit((prev) => ({ ...prev, crop }));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  // Arrow keys move the box; with Shift they grow or shrink it from the bottom-right corner
+  const onCropKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = KEY_STEPS[e.key];
+    if (!step || !oriented) return;
+    e.preventDefault();
+    const [dx, dy] = step;
+    setEdit((prev) => ({
+      ...prev,
+      crop: e.shiftKey
+        ? resizeCrop(prev.crop, 'se', dx, dy, ratio, oriented.width, oriented.height)
+        : moveCrop(prev.crop, dx, dy),
+    }));
+  };
+
+  const apply = async () => {
+    if (!image) return;
+    try {
+      setSaving(true);
+      setError(null);
+      // Always re-rendered, even unchanged, so the upload carries no EXIF orientation to misapply
+      onDone(await renderEdit(image, edit, file));
+    } catch (err) {
+      setError(`Could not save the edit: ${describeError(err)}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const { crop } = edit;
+  const toolClass =
+    'px-2 py-1 rounded bg-gray-100 text-gray-800 text-xs disabled:opacity-50 aria-pressed:bg-[#fff4f0] aria-pressed:text-[#d93900]';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Edit ${file.name} before uploading`}
+    >
+      <div className="flex max-h-full w-full max-w-screen-sm flex-col gap-3 rounded-lg bg-white p-4">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="truncate text-sm font-semibold text-gray-900">Edit {file.name}</h2>
+          {remaining > 0 ? (
+            <span className="shrink-0 text-xs text-gray-500">{remaining} more to edit</span>
+          ) : null}
+        </div>
+
+        <div className="flex min-h-0 justify-center">
+          {image && oriented ? (
+            <div ref={frameRef} className="relative touch-none select-none overflow-hidden">
+              <canvas
+                ref={canvasRef}
+                className="block max-h-[55vh] max-w-full"
+                aria-label={`Preview of ${file.name}`}
+              />
+              <div
+                className="absolute cursor-move border-2 border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)] outline-none focus-visible:border-[#d93900]"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                }}
+                tabIndex={0}
+                role="group"
+                aria-label="Crop area. Arrow keys move it; Shift and arrow keys resize it."
+                onKeyDown={onCropKeyDown}
+                onPointerDown={startDrag('move')}
+                onPointerMove={onDrag}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+              >
+                {CORNERS.map((corner) => (
+                  <span
+                    key={corner}
+                    className={`absolute h-3 w-3 rounded-sm border border-gray-700 bg-white ${CORNER_CLASSES[corner]}`}
+                    aria-hidden
+                    onPointerDown={startDrag(corner)}
+                    onPointerMove={onDrag}
+                    onPointerUp={endDrag}
+                    onPointerCancel={endDrag}
+                  />
+                ))}
+              </div>
+            </div>
+          ) : error ? null : (
+            <p className="py-8 text-sm text-gray-600">Loading…</p>
+          )}
+        </div>
+
+        {image && oriented ? (
+          <>
+            <p className="text-center text-xs text-gray-600">
+              {Math.round(crop.width * oriented.width)}×{Math.round(crop.height * oriented.height)}
+              px
+            </p>
+            <div className="flex flex-wrap items-center justify-center gap-2">
+              <button className={toolClass} onClick={() => rotate(-1)}>
+                ⟲ Rotate left
+              </button>
+              <button className={toolClass} onClick={() => rotate(1)}>
+                ⟳ Rotate right
+              </button>
+              <button
+                className={toolClass}
+                aria-pressed={edit.flipX}
+                onClick={() => setEdit((e) => flipEdit(e, 'x'))}
+              >
+                ⇋ Flip horizontal
+              </button>
+              <button
+                className={toolClass}
+                aria-pressed={edit.flipY}
+                onClick={() => setEdit((e) => flipEdit(e, 'y'))}
+              >
+                ⇵ Flip vertical
+              </button>
+            </div>
+            <div
+              className="flex flex-wrap items-center justify-center gap-1"
+              role="group"
+              aria-label="Crop aspect ratio"
+            >
+              {ASPECT_CHOICES.map((choice) => (
+                <button
+                  key={choice.label}
+                  className={toolClass}
+                  aria-pressed={ratio === choice.ratio}
+                  onClick={() => chooseRatio(choice.ratio)}
+                >
+                  {choice.label}
+                </button>
+              ))}
+              <button
+                className="px-2 py-1 text-xs text-gray-600 underline underline-offset-2"
+                onClick={() => {
+                  setRatio(null);
+                  setEdit(initialEdit());
+                }}
+              >
+                Reset
+              </button>
+            </div>
+          </>
+        ) : null}
+
+        {error ? <p className="text-xs text-red-700">{error}</p> : null}
+
+        <div className="flex flex-wrap justify-end gap-2">
+          <button
+            className="px-3 py-1.5 rounded bg-gray-100 text-gray-800 text-sm"
+            onClick={onCancel}
+          >
+            Don't upload
+          </button>
+          <button
+            ref={skipRef}
+            className="px-3 py-1.5 rounded bg-gray-100 text-gray-800 text-sm"
+            onClick={() => onDone(file)}
+          >
+            Upload original
+          </button>
+          <button
+            className="px-3 py-1.5 rounded bg-[#d93900] text-white text-sm disabled:opacity-50"
+            disabled={!image || saving}
+            onClick={() => void apply()}
+          >
+            {saving ? 'Saving…' : 'Apply & upload'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { useEffect, useRef } from 'react';
+import type { UploadedAsset } from '../shared/types/api';
+import { altTextFor, formatDimensions } from './format';
+
+type LightboxProps = {
+  asset: UploadedAsset;
+  onClose: () => void;
+};
+
+// Full-size view of one upload; the original is only fetched once this opens
+export const Lightbox = ({ asset, onClose }: LightboxProps) => {
+  const closeRef = useRef<HTMLButtonElement | null>(null);
+
+  // Escape closes; focus moves into the dialog and back to where it was on close
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      previous?.focus();
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex flex-col items-center justify-center gap-2 bg-black/80 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-label={altTextFor(asset)}
+      onClick={onClose}
+    >
+      <button
+        ref={closeRef}
+        className="absolute right-3 top-3 rounded bg-white/90 px-2 py-1 text-sm text-gray-900"
+        onClick={onClose}
+      >
+        Close
+      </button>
+      {asset.mediaType === 'video' ? (
+        <video
+          src={asset.mediaUrl}
+          aria-label={altTextFor(asset)}
+          className="max-h-[85vh] max-w-full rounded"
+          controls
+          autoPlay
+          onClick={(e) => e.stopPropagation()}
+        />
+      ) : (
+        <img
+          src={asset.mediaUrl}
+          alt={altTextFor(asset)}
+          className="max-h-[85vh] max-w-full rounded object-contain"
+          onClick={(e) => e.stopPropagation()}
+        />
+      )}
+      {asset.caption || formatDimensions(asset) ? (
+        <p className="text-center text-xs text-white/90">
+          {[asset.caption, formatDimensions(asset)].filter(Boolean).join(' · ')}
+        </p>
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,260 @@
+import type {
+  MediaMimeType,
+  ModUploadEntry,
+  ModUploadsResponse,
+  UploadBan,
+  UploadBansResponse,
+} from '../shared/types/api';
+import {
+  IMAGE_MIME_TYPES,
+  VIDEO_MIME_TYPES,
+  formatMimeTypes,
+  isVideoMimeType,
+} from '../shared/policy';
+import { useCallback, useEffect, useState } from 'react';
+import { apiRequest, describeError } from './api';
+
+export const ModLog = () => {
+  const [entries, setEntries] = useState<ModUploadEntry[] | null>(null);
+  const [bans, setBans] = useState<UploadBan[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [usernameFilter, setUsernameFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<MediaMimeType | ''>('');
+  const [banTarget, setBanTarget] = useState<string | null>(null);
+  const [banReason, setBanReason] = useState('');
+
+  const formatDate = useCallback((iso: string) => new Date(iso).toLocaleString(), []);
+
+  const fetchLog = useCallback(async (username: string, mimeType: MediaMimeType | '') => {
+    try {
+      setLoading(true);
+      setError(null);
+      const params = new URLSearchParams();
+      if (username.trim()) params.set('username', username.trim());
+      if (mimeType) params.set('mimeType', mimeType);
+      const [log, banList] = await Promise.all([
+        apiRequest<ModUploadsResponse>(`/api/mod/uploads?${params.toString()}`),
+        apiRequest<UploadBansResponse>('/api/mod/bans'),
+      ]);
+      setEntries(log.entries);
+      setBans(banList.bans);
+    } catch (err) {
+      console.error('Failed to fetch upload log', err);
+      setError(describeError(err));
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchLog('', '');
+  }, [fetchLog]);
+
+  // Filters apply on submit, not on every keystroke
+  const applyFilters = () => void fetchLog(usernameFilter, typeFilter);
+
+  const ban = async (username: string, reason: string) => {
+    setBanTarget(null);
+    setBanReason('');
+    try {
+      const data = await apiRequest<UploadBansResponse>('/api/mod/bans', {
+        method: 'POST',
+        body: { username, reason },
+      });
+      setBans(data.bans);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  const unban = async (userId: string) => {
+    try {
+      const data = await apiRequest<UploadBansResponse>(
+        `/api/mod/bans/${encodeURIComponent(userId)}`,
+        { method: 'DELETE' }
+      );
+      setBans(data.bans);
+    } catch (err) {
+      setError(describeError(err));
+    }
+  };
+
+  const bannedIds = new Set(bans.map((b) => b.userId));
+
+  return (
+    <section className="w-full max-w-screen-sm mx-auto mt-6 min-h-0 overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">Subreddit uploads</h2>
+        <button
+          className="text-sm text-[#d93900] underline underline-offset-2"
+          onClick={applyFilters}
+        >
+          Refresh
+        </button>
+      </div>
+      <form
+        className="mt-2 flex flex-wrap items-center gap-2 text-xs"
+        onSubmit={(e) => {
+          e.preventDefault();
+          applyFilters();
+        }}
+      >
+        <input
+          className="rounded border border-gray-300 px-2 py-1"
+          placeholder="Username"
+          aria-label="Filter by username"
+          value={usernameFilter}
+          onChange={(e) => setUsernameFilter(e.target.value)}
+        />
+        <select
+          className="rounded border border-gray-300 px-2 py-1"
+          aria-label="Filter by format"
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value as MediaMimeType | '')}
+        >
+          <option value="">All formats</option>
+          {[...IMAGE_MIME_TYPES, ...VIDEO_MIME_TYPES].map((t) => (
+            <option key={t} value={t}>
+              {formatMimeTypes([t])}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="px-2 py-1 rounded bg-gray-100 text-gray-800">
+          Filter
+        </button>
+      </form>
+      {error ? <p className="mt-2 text-xs text-red-700">{error}</p> : null}
+      {banTarget ? (
+        <form
+          className="mt-2 flex flex-wrap items-center gap-2 rounded border border-red-200 bg-red-50 px-2 py-1 text-xs"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void ban(banTarget, banReason);
+          }}
+        >
+          <span>Ban u/{banTarget} from uploading?</span>
+          <input
+            className="flex-1 rounded border border-gray-300 px-2 py-1"
+            placeholder="Reason (optional)"
+            aria-label="Ban reason"
+            value={banReason}
+            onChange={(e) => setBanReason(e.target.value)}
+          />
+          <button type="submit" className="px-2 py-1 rounded bg-red-600 text-white">
+            Ban
+          </button>
+          <button
+            type="button"
+            className="text-gray-600 underline underline-offset-2"
+            onClick={() => setBanTarget(null)}
+          >
+            Cancel
+          </button>
+        </form>
+      ) : null}
+
+      {loading ? (
+        <p className="text-sm text-gray-600 mt-2">Loading…</p>
+      ) : entries && entries.length > 0 ? (
+        <div className="mt-3 max-h-[40vh] overflow-y-auto overscroll-contain rounded border border-gray-200">
+          <table className="w-full text-left text-xs border-separate border-spacing-0">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 border-b border-gray-200">Preview</th>
+                <th className="px-3 py-2 border-b border-gray-200">User</th>
+                <th className="px-3 py-2 border-b border-gray-200">Type</th>
+                <th className="px-3 py-2 border-b border-gray-200">Size</th>
+                <th className="px-3 py-2 border-b border-gray-200">Date</th>
+                <th className="px-3 py-2 border-b border-gray-200">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <tr key={e.mediaId}>
+                  <td className="px-3 py-2 border-b border-gray-100">
+                    <a href={e.mediaUrl} target="_blank" rel="noreferrer">
+                      {isVideoMimeType(e.mimeType) ? (
+                        <video
+                          src={e.mediaUrl}
+                          aria-label={`Upload by u/${e.username}`}
+                          className="h-10 w-10 rounded object-cover bg-gray-100"
+                          preload="metadata"
+                          muted
+                        />
+                      ) : (
+                        <img
+                          src={e.mediaUrl}
+                          alt={`Upload by u/${e.username}`}
+                          className="h-10 w-10 rounded object-cover bg-gray-100"
+                        />
+                      )}
+                    </a>
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-100">u/{e.username}</td>
+                  <td className="px-3 py-2 border-b border-gray-100">
+                    {formatMimeTypes([e.mimeType])}
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-100 whitespace-nowrap">
+                    {(e.bytes / 1024).toFixed(1)} KB
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-100 whitespace-nowrap text-gray-600">
+                    {formatDate(e.date)}
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-100">
+                    {bannedIds.has(e.userId) ? (
+                      <button
+                        className="text-gray-700 underline underline-offset-2"
+                        onClick={() => void unban(e.userId)}
+                      >
+                        Unban
+                      </button>
+                    ) : (
+                      <button
+                        className="text-red-700 underline underline-offset-2"
+                        onClick={() => setBanTarget(e.username)}
+                      >
+                        Ban
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 mt-2">No uploads found.</p>
+      )}
+
+      <h3 className="mt-4 text-sm font-semibold text-gray-900">Banned from uploading</h3>
+      {bans.length > 0 ? (
+        <ul className="mt-1 divide-y divide-gray-100 rounded border border-gray-200 text-xs">
+          {bans.map((b) => (
+            <li key={b.userId} className="flex items-center gap-2 px-3 py-1.5">
+              <span className="flex-1 truncate">
+                u/{b.username}
+                {b.reason ? <span className="text-gray-500"> — {b.reason}</span> : null}
+                <span className="text-gray-500">
+                  {' '}
+                  (by u/{b.bannedBy}, {formatDate(b.date)})
+                </span>
+              </span>
+              <button
+                className="text-gray-700 underline underline-offset-2"
+                onClick={() => void unban(b.userId)}
+              >
+                Unban
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-xs text-gray-600 mt-1">Nobody is banned.</p>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,84 @@
+import { useState } from 'react';
+import type { PublishTarget, UploadedAsset } from '../shared/types/api';
+
+type PublishFormProps = {
+  asset: UploadedAsset;
+  onPublish: (target: PublishTarget, title: string, body: string) => Promise<void>;
+  onCancel: () => void;
+};
+
+// Inline form for sharing an upload as a new post in this community or a comment here
+export const PublishForm = ({ asset, onPublish, onCancel }: PublishFormProps) => {
+  const [target, setTarget] = useState<PublishTarget>('post');
+  const [title, setTitle] = useState(asset.caption ?? '');
+  const [body, setBody] = useState('');
+  const [publishing, setPublishing] = useState(false);
+
+  return (
+    <form
+      className="flex flex-col gap-1 text-xs"
+      onClick={(e) => e.stopPropagation()}
+      onSubmit={(e) => {
+        e.preventDefault();
+        setPublishing(true);
+        void onPublish(target, title, body).finally(() => setPublishing(false));
+      }}
+    >
+      <div className="flex gap-3" role="radiogroup" aria-label="Publish as">
+        <label className="inline-flex items-center gap-1">
+          <input
+            type="radio"
+            name={`target-${asset.mediaId}`}
+            checked={target === 'post'}
+            onChange={() => setTarget('post')}
+          />
+          New post
+        </label>
+        <label className="inline-flex items-center gap-1">
+          <input
+            type="radio"
+            name={`target-${asset.mediaId}`}
+            checked={target === 'comment'}
+            onChange={() => setTarget('comment')}
+          />
+          Comment on this post
+        </label>
+      </div>
+      {target === 'post' ? (
+        <input
+          className="rounded border border-gray-300 px-2 py-1"
+          placeholder="Post title"
+          aria-label="Post title"
+          value={title}
+          autoFocus
+          onChange={(e) => setTitle(e.target.value)}
+        />
+      ) : (
+        <textarea
+          className="rounded border border-gray-300 px-2 py-1"
+          placeholder="Comment (optional)"
+          aria-label="Comment text"
+          rows={2}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+      )}
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="px-2 py-1 rounded bg-[#d93900] text-white disabled:opacity-50"
+          disabled={publishing || (target === 'post' && !title.trim())}
+        >
+          {publishing ? 'Publishing…' : 'Publish'}
+        </button>
+        <button
+          type="button"
+          className="text-gray-600 underline underline-offset-2"
+          onClick={onCancel}
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,97 @@
+import type { QueueItem, QueueStatus } from './useUploadQueue';
+import { formatBytes, formatResize } from './format';
+
+const statusLabel: Record<QueueStatus, string> = {
+  queued: 'Queued',
+  processing: 'Resizing…',
+  uploading: 'Uploading…',
+  done: 'Done',
+  failed: 'Failed',
+  canceled: 'Canceled',
+};
+
+const statusClass: Record<QueueStatus, string> = {
+  queued: 'text-gray-500',
+  processing: 'text-[#d93900]',
+  uploading: 'text-[#d93900]',
+  done: 'text-green-700',
+  failed: 'text-red-700',
+  canceled: 'text-gray-500',
+};
+
+type UploadQueueProps = {
+  items: QueueItem[];
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onClearFinished: () => void;
+};
+
+export const UploadQueue = ({ items, onRetry, onCancel, onClearFinished }: UploadQueueProps) => {
+  if (items.length === 0) return null;
+  const done = items.filter((it) => it.status === 'done').length;
+  const finished = items.some(
+    (it) => it.status === 'done' || it.status === 'failed' || it.status === 'canceled'
+  );
+
+  return (
+    <div className="mt-3">
+      <div className="flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {done} of {items.length} uploaded
+        </span>
+        {finished ? (
+          <button className="text-[#d93900] underline underline-offset-2" onClick={onClearFinished}>
+            Clear finished
+          </button>
+        ) : null}
+      </div>
+      <ul className="mt-1 max-h-40 overflow-y-auto overscroll-contain rounded border border-gray-200 divide-y divide-gray-100">
+        {items.map((it) => (
+          <li key={it.id} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-gray-800">{it.file.name || 'Untitled'}</div>
+              {it.resize && it.status !== 'failed' ? (
+                <div className="truncate text-gray-500">Resized: {formatResize(it.resize)}</div>
+              ) : null}
+              {it.status === 'uploading' && it.progress ? (
+                <div className="mt-1 flex items-center gap-2">
+                  <progress
+                    className="h-1.5 flex-1 accent-[#d93900]"
+                    max={it.progress.totalBytes}
+                    value={it.progress.sentBytes}
+                    aria-label={`Upload progress for ${it.file.name || 'file'}`}
+                  />
+                  <span className="whitespace-nowrap text-gray-500">
+                    {formatBytes(it.progress.sentBytes)} of {formatBytes(it.progress.totalBytes)}
+                  </span>
+                </div>
+              ) : null}
+              {it.status === 'failed' && it.error ? (
+                <div className="truncate text-red-700">{it.error}</div>
+              ) : null}
+            </div>
+            <span className={`whitespace-nowrap ${statusClass[it.status]}`}>
+              {it.result?.duplicate ? 'Already uploaded' : statusLabel[it.status]}
+            </span>
+            {it.status === 'failed' || it.status === 'canceled' ? (
+              <button
+                className="text-[#d93900] underline underline-offset-2"
+                onClick={() => onRetry(it.id)}
+              >
+                Retry
+              </button>
+            ) : null}
+            {it.status === 'queued' || it.status === 'processing' || it.status === 'uploading' ? (
+              <button
+                className="text-gray-600 underline underline-offset-2"
+                onClick={() => onCancel(it.id)}
+              >
+                Cancel
+              </button>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
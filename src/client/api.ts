@@ -0,0 +1,110 @@
+import type { ErrorCode, ErrorResponse } from '../shared/types/api';
+
+// The request never got a response (offline, dropped connection, blocked by the browser)
+export type ClientErrorCode = ErrorCode | 'NETWORK_ERROR';
+
+export class ApiError extends Error {
+  constructor(
+    readonly code: ClientErrorCode,
+    message: string,
+    readonly status: number,
+    readonly details: Omit<ErrorResponse, 'status' | 'code' | 'message'> = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const isErrorResponse = (value: unknown): value is ErrorResponse =>
+  typeof value === 'object' &&
+  value !== null &&
+  (value as ErrorResponse).status === 'error' &&
+  typeof (value as ErrorResponse).code === 'string' &&
+  typeof (value as ErrorResponse).message === 'string';
+
+// Builds an ApiError from a failed response's status and body text
+export const toApiError = (status: number, text: string): ApiError => {
+  try {
+    const body: unknown = JSON.parse(text);
+    if (isErrorResponse(body)) {
+      const { status: _status, code, message, ...details } = body;
+      // Codes from a newer server or the platform itself get the generic treatment
+      return new ApiError(isKnownCode(code) ? code : 'INTERNAL_ERROR', message, status, details);
+    }
+  } catch {
+    // not JSON (e.g. a proxy error page); fall through
+  }
+  return new ApiError(
+    status === 401 ? 'UNAUTHORIZED' : status === 413 ? 'TOO_LARGE' : 'INTERNAL_ERROR',
+    `Request failed with ${status}`,
+    status
+  );
+};
+
+/**
+ * fetch that throws an ApiError for network failures and non-2xx responses. Aborts are
+ * rethrown untouched so callers can tell them apart.
+ */
+export const apiFetch = async (path: string, init?: RequestInit): Promise<Response> => {
+  let res: Response;
+  try {
+    res = await fetch(path, init);
+  } catch (err) {
+    if (init?.signal?.aborted) throw err;
+    throw new ApiError('NETWORK_ERROR', 'Network request failed', 0);
+  }
+  if (!res.ok) throw toApiError(res.status, await res.text());
+  return res;
+};
+
+// JSON in, typed JSON out
+export const apiRequest = async <T>(
+  path: string,
+  { method = 'GET', body, signal }: { method?: string; body?: unknown; signal?: AbortSignal } = {}
+): Promise<T> => {
+  const res = await apiFetch(path, {
+    method,
+    ...(body === undefined
+      ? {}
+      : { headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) }),
+    ...(signal ? { signal } : {}),
+  });
+  return (await res.json()) as T;
+};
+
+// Server messages don't end in punctuation; hints are appended as a second sentence
+const sentence = (text: string) => (/[.!?]$/.test(text) ? text : `${text}.`);
+
+const messages: Record<ClientErrorCode, (err: ApiError) => string> = {
+  UNAUTHORIZED: () => 'You need to be logged in to Reddit. Reload the page and try again.',
+  FORBIDDEN: () => 'Only moderators of this community can do that.',
+  BANNED: () =>
+    "You've been banned from uploading in this community. Message the moderators if you think this is a mistake.",
+  NOT_FOUND: (e) => `${sentence(e.message)} It may have been deleted; refresh and try again.`,
+  INVALID_REQUEST: (e) => sentence(e.message),
+  UNSUPPORTED_TYPE: (e) => `${sentence(e.message)} Convert the file to an allowed format first.`,
+  INVALID_IMAGE: (e) =>
+    `This file is damaged or isn't really the image type it claims to be (${e.message}). Try re-saving it in an image editor.`,
+  INVALID_VIDEO: (e) =>
+    `This video file is damaged or incomplete (${e.message}). Try exporting it again.`,
+  TOO_LARGE: (e) => `${sentence(e.message)} Turn on auto-resize or choose a smaller file.`,
+  POLICY_VIOLATION: (e) => `${sentence(e.message)} This community's upload rules don't allow it.`,
+  RATE_LIMITED: (e) => sentence(e.message),
+  INCOMPLETE_UPLOAD: () => "Part of the upload didn't arrive. Press Retry to resume.",
+  CHECKSUM_MISMATCH: () =>
+    'The file was corrupted on the way to the server. Press Retry to upload it again.',
+  UPSTREAM_MEDIA_ERROR: () =>
+    "Reddit's media service couldn't store the file. Wait a moment, then press Retry.",
+  UPSTREAM_REDDIT_ERROR: () =>
+    "Reddit didn't accept the request. Check the community's rules and try again.",
+  INTERNAL_ERROR: (e) => `${sentence(e.message)} Please try again.`,
+  NETWORK_ERROR: () => 'Connection lost. Check your connection and try again.',
+};
+
+const isKnownCode = (code: string): code is ClientErrorCode => Object.hasOwn(messages, code);
+
+// A specific, actionable message for the UI
+export const describeError = (err: unknown): string => {
+  if (err instanceof ApiError) return messages[err.code](err);
+  return err instanceof Error ? err.message : 'Something went wrong';
+};
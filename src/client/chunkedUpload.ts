@@ -0,0 +1,207 @@
+import type {
+  UploadResponse,
+  UploadSessionRequest,
+  UploadSessionResponse,
+} from '../shared/types/api';
+import { ApiError, apiRequest, toApiError } from './api';
+
+export type UploadProgress = {
+  sentBytes: number;
+  totalBytes: number;
+};
+
+type ChunkedUploadOptions = {
+  // Everything the session needs besides what's read from the file itself
+  details: Omit<UploadSessionRequest, 'mimeType' | 'bytes' | 'sha256'>;
+  signal: AbortSignal;
+  onProgress: (progress: UploadProgress) => void;
+};
+
+// Attempts per chunk before the upload is reported as failed; Retry resumes from there
+const CHUNK_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+// Sessions are remembered per file hash so a retry, or a reload, picks up where it stopped.
+// The request that opened the session is kept too: the server applies its caption, album and
+// expiry on completion, so a session opened with other details can't be resumed.
+type RememberedSession = { sessionId: string; request: string };
+
+const sessionStorageKey = (sha256: string) => `imageDrop:uploadSession:${sha256}`;
+
+// Sorted keys, so the same details always give the same string
+const describeRequest = (request: UploadSessionRequest) =>
+  JSON.stringify(request, Object.keys(request).sort());
+
+const rememberSession = (sha256: string, session: RememberedSession | null) => {
+  try {
+    if (session) localStorage.setItem(sessionStorageKey(sha256), JSON.stringify(session));
+    else localStorage.removeItem(sessionStorageKey(sha256));
+  } catch {
+    // storage unavailable; uploads still work, they just can't resume after a reload
+  }
+};
+
+const recallSession = (sha256: string): RememberedSession | null => {
+  try {
+    const raw = localStorage.getItem(sessionStorageKey(sha256));
+    const parsed = raw ? (JSON.parse(raw) as Partial<RememberedSession>) : null;
+    return typeof parsed?.sessionId === 'string' && typeof parsed.request === 'string'
+      ? { sessionId: parsed.sessionId, request: parsed.request }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const sha256Hex = async (file: File) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+};
+
+// XMLHttpRequest rather than fetch: it's the only way to observe upload progress
+const putChunk = (
+  url: string,
+  chunk: Blob,
+  signal: AbortSignal,
+  onProgress: (loaded: number) => void
+): Promise<UploadSessionResponse> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const onAbort = () => xhr.abort();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.upload.onprogress = (e) => onProgress(e.loaded);
+    xhr.onload = () => {
+      signal.removeEventListener('abort', onAbort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText) as UploadSessionResponse);
+      } else {
+        reject(toApiError(xhr.status, xhr.responseText));
+      }
+    };
+    xhr.onerror = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new ApiError('NETWORK_ERROR', 'Connection lost while uploading', 0));
+    };
+    xhr.onabort = () => {
+      signal.removeEventListener('abort', onAbort);
+      reject(new DOMException('Upload canceled', 'AbortError'));
+    };
+    signal.addEventListener('abort', onAbort);
+    xhr.send(chunk);
+  });
+
+const delay = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new DOMException('Upload canceled', 'AbortError'));
+      },
+      { once: true }
+    );
+  });
+
+// Resumes the remembered session for this file when the server still has it and it was
+// opened with the same details
+const openSession = async (
+  file: File,
+  sha256: string,
+  opts: ChunkedUploadOptions
+): Promise<UploadSessionResponse> => {
+  const request: UploadSessionRequest = {
+    ...opts.details,
+    mimeType: file.type as UploadSessionRequest['mimeType'],
+    bytes: file.size,
+    sha256,
+  };
+  const described = describeRequest(request);
+  const existing = recallSession(sha256);
+  if (existing && existing.request === described) {
+    try {
+      return await apiRequest<UploadSessionResponse>(
+        `/api/upload-sessions/${encodeURIComponent(existing.sessionId)}`,
+        { signal: opts.signal }
+      );
+    } catch (err) {
+      // Expired or unknown: start over below
+      if (!(err instanceof ApiError && err.code === 'NOT_FOUND')) throw err;
+    }
+  } else if (existing) {
+    // Cancel it rather than leave it counting against the open session limit until it expires
+    await apiRequest(`/api/upload-sessions/${encodeURIComponent(existing.sessionId)}`, {
+      method: 'DELETE',
+    }).catch(() => undefined);
+  }
+  const session = await apiRequest<UploadSessionResponse>('/api/upload-sessions', {
+    method: 'POST',
+    body: request,
+    signal: opts.signal,
+  });
+  rememberSession(sha256, { sessionId: session.sessionId, request: described });
+  return session;
+};
+
+/**
+ * Uploads a file through an upload session, one chunk per request, reporting bytes sent as
+ * they go. Chunks the server already has are skipped, so calling this again after a failure
+ * resumes the upload.
+ */
+export const uploadInChunks = async (
+  file: File,
+  opts: ChunkedUploadOptions
+): Promise<UploadResponse> => {
+  const { signal, onProgress } = opts;
+  const sha256 = await sha256Hex(file);
+  const session = await openSession(file, sha256, opts);
+  const base = `/api/upload-sessions/${encodeURIComponent(session.sessionId)}`;
+
+  const sizeOf = (index: number) =>
+    Math.min(session.chunkBytes, session.bytes - index * session.chunkBytes);
+  const received = new Set(session.receivedChunks);
+  let confirmed = session.receivedChunks.reduce((sum, i) => sum + sizeOf(i), 0);
+  onProgress({ sentBytes: confirmed, totalBytes: session.bytes });
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue;
+    const start = index * session.chunkBytes;
+    const chunk = file.slice(start, start + sizeOf(index));
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await putChunk(`${base}/chunks/${index}`, chunk, signal, (loaded) =>
+          onProgress({ sentBytes: confirmed + loaded, totalBytes: session.bytes })
+        );
+        break;
+      } catch (err) {
+        // Only dropped connections are worth retrying; the server rejecting a chunk is final
+        const dropped = err instanceof ApiError && err.code === 'NETWORK_ERROR';
+        if (signal.aborted || !dropped || attempt >= CHUNK_ATTEMPTS) throw err;
+        await delay(RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+    confirmed += chunk.size;
+    onProgress({ sentBytes: confirmed, totalBytes: session.bytes });
+  }
+
+  try {
+    const result = await apiRequest<UploadResponse>(`${base}/complete`, {
+      method: 'POST',
+      signal,
+    });
+    rememberSession(sha256, null);
+    return result;
+  } catch (err) {
+    // The server discards the session on everything but missing chunks and quota limits
+    if (
+      err instanceof ApiError &&
+      err.code !== 'INCOMPLETE_UPLOAD' &&
+      err.code !== 'RATE_LIMITED' &&
+      err.code !== 'NETWORK_ERROR'
+    ) {
+      rememberSession(sha256, null);
+    }
+    throw err;
+  }
+};
@@ -0,0 +1,165 @@
+import type { ImageMimeType } from '../shared/types/api';
+import { MAX_THUMBNAIL_BYTES, THUMBNAIL_EDGE, THUMBNAIL_MIME_TYPES } from '../shared/policy';
+
+export type ImageSize = {
+  bytes: number;
+  width: number;
+  height: number;
+};
+
+export type ResizeInfo = {
+  before: ImageSize;
+  after: ImageSize;
+};
+
+export type DownscaleOptions = {
+  // Longest side of the output in pixels
+  maxEdge: number;
+  maxBytes: number;
+  // Formats the server will accept, in order of preference for the re-encoded file
+  allowedTypes: readonly ImageMimeType[];
+};
+
+export const MAX_EDGE_CHOICES = [1280, 2048, 4096] as const;
+
+// Quality steps tried in order until the encoded image fits
+const QUALITY_STEPS = [0.92, 0.85, 0.75, 0.65, 0.55, 0.45];
+// When even the lowest quality is too big, shrink the canvas by this factor and try again
+const SHRINK_FACTOR = 0.8;
+const MAX_SHRINKS = 4;
+
+type Canvas = OffscreenCanvas | HTMLCanvasElement;
+
+const createCanvas = (width: number, height: number): Canvas => {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const encode = (canvas: Canvas, type: string, quality: number): Promise<Blob | null> =>
+  canvas instanceof HTMLCanvasElement
+    ? new Promise((resolve) => canvas.toBlob(resolve, type, quality))
+    : canvas.convertToBlob({ type, quality });
+
+const draw = (bitmap: ImageBitmap, width: number, height: number): Canvas => {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d') as
+    | CanvasRenderingContext2D
+    | OffscreenCanvasRenderingContext2D
+    | null;
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, width, height);
+  return canvas;
+};
+
+const renamed = (name: string, type: string) => {
+  const ext = type === 'image/webp' ? 'webp' : 'jpg';
+  const base = name.replace(/\.[^.]+$/, '') || 'image';
+  return `${base}.${ext}`;
+};
+
+// Files the browser can decode and we're willing to re-encode; GIFs would lose their animation
+export const canDownscale = (file: File): boolean =>
+  file.type === 'image/png' || file.type === 'image/jpeg' || file.type === 'image/webp';
+
+/**
+ * Decodes the image and, when it is larger than `maxEdge` or `maxBytes`, re-encodes it as
+ * WebP or JPEG at decreasing quality (and then decreasing size) until it fits. Returns the
+ * original file untouched when it already fits.
+ */
+export const downscaleImage = async (
+  file: File,
+  opts: DownscaleOptions
+): Promise<{ file: File; resize?: ResizeInfo }> => {
+  if (!canDownscale(file)) return { file };
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  try {
+    const before: ImageSize = { bytes: file.size, width: bitmap.width, height: bitmap.height };
+    const longest = Math.max(bitmap.width, bitmap.height);
+    if (longest <= opts.maxEdge && file.size <= opts.maxBytes) return { file };
+
+    // Keep transparency where possible: PNG/WebP sources prefer WebP output
+    const preferred: ImageMimeType[] =
+      file.type === 'image/jpeg' ? ['image/jpeg', 'image/webp'] : ['image/webp', 'image/jpeg'];
+    const targets = preferred.filter((t) => opts.allowedTypes.includes(t));
+    if (targets.length === 0) return { file };
+
+    let scale = Math.min(1, opts.maxEdge / longest);
+    for (let attempt = 0; attempt <= MAX_SHRINKS; attempt++) {
+      const width = Math.max(1, Math.round(bitmap.width * scale));
+      const height = Math.max(1, Math.round(bitmap.height * scale));
+      const canvas = draw(bitmap, width, height);
+      for (const type of targets) {
+        for (const quality of QUALITY_STEPS) {
+          const blob = await encode(canvas, type, quality);
+          // Browsers fall back to PNG for encoders they don't have; skip those
+          if (!blob || blob.type !== type) break;
+          if (blob.size <= opts.maxBytes) {
+            return {
+              file: new File([blob], renamed(file.name, type), { type }),
+              resize: { before, after: { bytes: blob.size, width, height } },
+            };
+          }
+        }
+      }
+      scale *= SHRINK_FACTOR;
+    }
+    throw new Error('Image is still too large after resizing');
+  } finally {
+    bitmap.close();
+  }
+};
+
+const THUMBNAIL_QUALITY_STEPS = [0.8, 0.6, 0.4];
+
+// A still frame to draw from: the image itself (first frame for GIFs) or a video's first frame
+const decodeFrame = async (file: File): Promise<ImageBitmap> => {
+  if (!file.type.startsWith('video/')) {
+    return createImageBitmap(file, { imageOrientation: 'from-image' });
+  }
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve();
+      video.onerror = () => reject(new Error('Could not decode video'));
+      video.src = url;
+    });
+    return await createImageBitmap(video);
+  } finally {
+    video.removeAttribute('src');
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Renders a small still preview of an image or video, at most THUMBNAIL_EDGE pixels on each
+ * side. Null when the browser can't encode one small enough.
+ */
+export const renderThumbnail = async (file: File): Promise<Blob | null> => {
+  const bitmap = await decodeFrame(file);
+  try {
+    const scale = Math.min(1, THUMBNAIL_EDGE / Math.max(bitmap.width, bitmap.height));
+    const canvas = draw(
+      bitmap,
+      Math.max(1, Math.round(bitmap.width * scale)),
+      Math.max(1, Math.round(bitmap.height * scale))
+    );
+    for (const type of THUMBNAIL_MIME_TYPES) {
+      for (const quality of THUMBNAIL_QUALITY_STEPS) {
+        const blob = await encode(canvas, type, quality);
+        if (!blob || blob.type !== type) break;
+        if (blob.size <= MAX_THUMBNAIL_BYTES) return blob;
+      }
+    }
+    return null;
+  } finally {
+    bitmap.close();
+  }
+};
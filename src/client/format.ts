@@ -0,0 +1,52 @@
+import type { ImageDimensions, MetadataKind, UploadedAsset } from '../shared/types/api';
+import type { ImageSize, ResizeInfo } from './downscale';
+
+// e.g. "1920×1080" or "480×270 · animated, 24 frames"; null when dimensions are unknown
+export const formatDimensions = (info: Partial<ImageDimensions>): string | null => {
+  if (info.width === undefined || info.height === undefined) return null;
+  const size = `${info.width}×${info.height}`;
+  return info.animated ? `${size} · animated, ${info.frameCount ?? '?'} frames` : size;
+};
+
+const metadataLabels: Record<MetadataKind, string> = {
+  exif: 'EXIF (camera, GPS)',
+  xmp: 'XMP',
+  iptc: 'IPTC',
+  text: 'text chunks',
+  other: 'other metadata',
+};
+
+export const formatStrippedMetadata = (kinds: readonly MetadataKind[]): string =>
+  kinds.map((k) => metadataLabels[k]).join(', ');
+
+export const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024
+    ? `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    : `${(bytes / 1024).toFixed(1)} KB`;
+
+const formatSize = (size: ImageSize) => `${formatBytes(size.bytes)}, ${size.width}×${size.height}`;
+
+// "5.2 MB, 4032×3024 → 1.1 MB, 2048×1536"
+export const formatResize = (resize: ResizeInfo): string =>
+  `${formatSize(resize.before)} → ${formatSize(resize.after)}`;
+
+// 75.4 → "1:15"; videos over an hour get an hours field
+export const formatDuration = (seconds: number): string => {
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+};
+
+// "cats, #Funny ,memes" → ["cats", "funny", "memes"]; the server normalizes the same way
+export const parseTags = (input: string): string[] =>
+  input
+    .split(',')
+    .map((t) => t.trim().replace(/^#+/, '').toLowerCase())
+    .filter(Boolean);
+
+// Best available description of an upload for screen readers
+export const altTextFor = (
+  asset: Pick<UploadedAsset, 'altText' | 'caption' | 'fileName'>
+): string => asset.altText || asset.caption || asset.fileName || 'Uploaded image';
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import type { UploadedAsset } from '../shared/types/api';
+import { applyHistoryEvent, mergeFirstPage } from './historySync';
+
+// Upload n, made n minutes into the day, so higher numbers are newer
+const asset = (n: number, details: Partial<UploadedAsset> = {}): UploadedAsset => ({
+  mediaType: 'image',
+  mediaId: `media${n}`,
+  mediaUrl: `https://i.redd.it/media${n}.png`,
+  date: new Date(Date.UTC(2025, 0, 1, 0, n)).toISOString(),
+  ...details,
+});
+
+const ids = (assets: UploadedAsset[]) => assets.map((a) => a.mediaId);
+
+describe('applyHistoryEvent', () => {
+  const loaded = [asset(5), asset(3), asset(1)];
+
+  it('updates a loaded upload in place rather than adding it again', () => {
+    const captioned = asset(3, { caption: 'Sunset' });
+    const once = applyHistoryEvent(
+      loaded,
+      { type: 'saved', asset: captioned },
+      { insert: true, hasMore: false }
+    );
+    const twice = applyHistoryEvent(
+      once,
+      { type: 'saved', asset: captioned },
+      { insert: true, hasMore: false }
+    );
+    expect(ids(twice)).toEqual(['media5', 'media3', 'media1']);
+    expect(twice[1]).toEqual(captioned);
+  });
+
+  it('inserts new uploads in date order', () => {
+    const result = applyHistoryEvent(
+      loaded,
+      { type: 'saved', asset: asset(4) },
+      { insert: true, hasMore: true }
+    );
+    expect(ids(result)).toEqual(['media5', 'media4', 'media3', 'media1']);
+  });
+
+  it("leaves filtered lists alone, since they can't tell whether a new upload matches", () => {
+    const result = applyHistoryEvent(
+      loaded,
+      { type: 'saved', asset: asset(6) },
+      { insert: false, hasMore: false }
+    );
+    expect(result).toBe(loaded);
+  });
+
+  it('leaves uploads older than the loaded pages to a later page', () => {
+    const older = { type: 'saved', asset: asset(0) } as const;
+    expect(applyHistoryEvent(loaded, older, { insert: true, hasMore: true })).toBe(loaded);
+    // With nothing left to load, the end of the list is where it belongs
+    const appended = applyHistoryEvent(loaded, older, { insert: true, hasMore: false });
+    expect(ids(appended)).toEqual(['media5', 'media3', 'media1', 'media0']);
+  });
+
+  it('removes loaded uploads and ignores ones that were never loaded', () => {
+    const options = { insert: true, hasMore: true };
+    expect(applyHistoryEvent(loaded, { type: 'removed', mediaIds: ['media9'] }, options)).toBe(
+      loaded
+    );
+    const result = applyHistoryEvent(
+      loaded,
+      { type: 'removed', mediaIds: ['media3', 'media9'] },
+      options
+    );
+    expect(ids(result)).toEqual(['media5', 'media1']);
+  });
+});
+
+describe('mergeFirstPage', () => {
+  it('adds and updates uploads from the page without repeating them', () => {
+    const loaded = [asset(5), asset(3), asset(1)];
+    const page = [asset(6), asset(5, { caption: 'Updated' }), asset(3)];
+
+    const result = mergeFirstPage(loaded, page, true);
+    expect(ids(result)).toEqual(['media6', 'media5', 'media3', 'media1']);
+    expect(result[1]!.caption).toBe('Updated');
+  });
+
+  it("drops loaded uploads within the page's range that the page no longer has", () => {
+    // media4 was deleted elsewhere; media1 is past the first page, so its fate is unknown
+    const loaded = [asset(5), asset(4), asset(3), asset(1)];
+
+    const result = mergeFirstPage(loaded, [asset(5), asset(3)], true);
+    expect(ids(result)).toEqual(['media5', 'media3', 'media1']);
+  });
+
+  it('replaces everything when the page is the whole history', () => {
+    const loaded = [asset(5), asset(3), asset(1)];
+
+    expect(ids(mergeFirstPage(loaded, [asset(5), asset(3)], false))).toEqual(['media5', 'media3']);
+    expect(mergeFirstPage(loaded, [], false)).toEqual([]);
+  });
+
+  it('sorts the result newest first, whatever order the rows come in', () => {
+    const loaded = [asset(1), asset(2)];
+    const page = [asset(4), asset(7)];
+
+    expect(ids(mergeFirstPage(loaded, page, true))).toEqual([
+      'media7',
+      'media4',
+      'media2',
+      'media1',
+    ]);
+  });
+});
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from 'react';
+import { connectRealtime } from '@devvit/web/client';
+import type { HistoryChannelResponse, HistoryEvent, UploadedAsset } from '../shared/types/api';
+import { apiRequest } from './api';
+
+// How often History refetches its first page while realtime is unavailable
+const POLL_INTERVAL_MS = 30_000;
+
+const newestFirst = (a: UploadedAsset, b: UploadedAsset) => Date.parse(b.date) - Date.parse(a.date);
+
+/**
+ * Applies a change made in another session to the loaded rows. Unknown uploads are only
+ * inserted when `insert` is set, since a filtered list can't tell whether they match, and
+ * only when they'd fall within the pages already loaded.
+ */
+export const applyHistoryEvent = (
+  assets: UploadedAsset[],
+  event: HistoryEvent,
+  { insert, hasMore }: { insert: boolean; hasMore: boolean }
+): UploadedAsset[] => {
+  if (event.type === 'removed') {
+    const gone = new Set(event.mediaIds);
+    return assets.some((a) => gone.has(a.mediaId))
+      ? assets.filter((a) => !gone.has(a.mediaId))
+      : assets;
+  }
+  const { asset } = event;
+  if (assets.some((a) => a.mediaId === asset.mediaId)) {
+    return assets.map((a) => (a.mediaId === asset.mediaId ? asset : a));
+  }
+  const oldest = assets[assets.length - 1];
+  // Older than everything loaded: it'll arrive with a later page instead
+  if (!insert || (hasMore && oldest && newestFirst(asset, oldest) > 0)) return assets;
+  return [...assets, asset].sort(newestFirst);
+};
+
+/**
+ * Reconciles the loaded rows with a fresh first page: rows in the page are added or updated,
+ * and loaded rows within the page's date range that it no longer contains were removed.
+ * Rows past the first page are left alone.
+ */
+export const mergeFirstPage = (
+  assets: UploadedAsset[],
+  page: UploadedAsset[],
+  hasMore: boolean
+): UploadedAsset[] => {
+  const inPage = new Set(page.map((a) => a.mediaId));
+  const oldest = page[page.length - 1];
+  const cutoff = hasMore && oldest ? Date.parse(oldest.date) : -Infinity;
+  const kept = assets.filter((a) => !inPage.has(a.mediaId) && Date.parse(a.date) < cutoff);
+  return [...page, ...kept].sort(newestFirst);
+};
+
+type HistorySyncOptions = {
+  onEvent: (event: HistoryEvent) => void;
+  // Refetches the first page; used for polling and to catch up after a reconnect
+  onResync: () => void;
+};
+
+/**
+ * Listens on the user's history channel, falling back to polling every POLL_INTERVAL_MS
+ * while the channel can't be reached or has dropped. Returns whether updates are live.
+ */
+export const useHistorySync = ({ onEvent, onResync }: HistorySyncOptions): boolean => {
+  const [live, setLive] = useState(false);
+  // Latest callbacks, so a re-render doesn't resubscribe
+  const handlers = useRef({ onEvent, onResync });
+  handlers.current = { onEvent, onResync };
+
+  useEffect(() => {
+    let cancelled = false;
+    let connection: Awaited<ReturnType<typeof connectRealtime>> | null = null;
+    let dropped = false;
+
+    const connect = async () => {
+      try {
+        const { channel } = await apiRequest<HistoryChannelResponse>('/api/my-images/channel');
+        if (cancelled) return;
+        connection = await connectRealtime({
+          channel,
+          onConnect: () => {
+            if (cancelled) return;
+            setLive(true);
+            // Anything sent while we were away was missed
+            if (dropped) handlers.current.onResync();
+          },
+          onDisconnect: () => {
+            dropped = true;
+            if (!cancelled) setLive(false);
+          },
+          onMessage: (msg) => handlers.current.onEvent(msg as HistoryEvent),
+        });
+        if (cancelled) void connection.disconnect();
+      } catch (err) {
+        console.error('Live history updates unavailable; polling instead', err);
+      }
+    };
+    void connect();
+    return () => {
+      cancelled = true;
+      void connection?.disconnect();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (live) return;
+    const timer = window.setInterval(() => {
+      if (document.visibilityState === 'visible') handlers.current.onResync();
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [live]);
+
+  return live;
+};
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FULL_CROP,
+  MIN_CROP,
+  cropPixels,
+  fitCrop,
+  flipEdit,
+  initialEdit,
+  orientedSize,
+  resizeCrop,
+  rotateEdit,
+  type CropRect,
+} from './imageEdit';
+
+const expectCrop = (actual: CropRect, expected: CropRect) => {
+  expect(actual.x).toBeCloseTo(expected.x);
+  expect(actual.y).toBeCloseTo(expected.y);
+  expect(actual.width).toBeCloseTo(expected.width);
+  expect(actual.height).toBeCloseTo(expected.height);
+};
+
+// Width / height of the crop in pixels of an image this size
+const pixelRatio = (crop: CropRect, width: number, height: number) =>
+  (crop.width * width) / (crop.height * height);
+
+describe('fitCrop', () => {
+  it('covers the whole image for a free crop', () => {
+    expect(fitCrop(null, 200, 100)).toEqual(FULL_CROP);
+  });
+
+  it('centers the largest crop with the ratio in pixels', () => {
+    const square = fitCrop(1, 200, 100);
+    expectCrop(square, { x: 0.25, y: 0, width: 0.5, height: 1 });
+
+    const wide = fitCrop(16 / 9, 100, 200);
+    expect(wide.width).toBe(1);
+    expect(wide.y).toBeCloseTo((1 - wide.height) / 2);
+    expect(pixelRatio(wide, 100, 200)).toBeCloseTo(16 / 9);
+  });
+});
+
+describe('resizeCrop', () => {
+  const crop = { x: 0.2, y: 0.2, width: 0.5, height: 0.5 };
+
+  it('moves the dragged corner and keeps the opposite one fixed', () => {
+    expectCrop(resizeCrop(crop, 'se', 0.1, 0.2, null, 100, 100), {
+      x: 0.2,
+      y: 0.2,
+      width: 0.6,
+      height: 0.7,
+    });
+    expectCrop(resizeCrop(crop, 'nw', 0.1, -0.1, null, 100, 100), {
+      x: 0.3,
+      y: 0.1,
+      width: 0.4,
+      height: 0.6,
+    });
+  });
+
+  it('stops at the image edges and at MIN_CROP', () => {
+    expectCrop(resizeCrop(crop, 'se', 1, 1, null, 100, 100), {
+      x: 0.2,
+      y: 0.2,
+      width: 0.8,
+      height: 0.8,
+    });
+    // Dragged past the opposite corner, the box collapses towards it instead of flipping over
+    expectCrop(resizeCrop(crop, 'nw', 1, 1, null, 100, 100), {
+      x: 0.7 - MIN_CROP,
+      y: 0.7 - MIN_CROP,
+      width: MIN_CROP,
+      height: MIN_CROP,
+    });
+  });
+
+  it('keeps the aspect ratio when an edge stops the drag', () => {
+    // A square filling the height of a 2:1 image can't grow any further
+    const square = fitCrop(1, 200, 100);
+    const grown = resizeCrop(square, 'se', 0.2, 0, 1, 200, 100);
+    expectCrop(grown, square);
+    expectCrop(resizeCrop(square, 'nw', -0.2, 0, 1, 200, 100), square);
+
+    const shrunk = resizeCrop(square, 'se', -0.2, 0, 1, 200, 100);
+    expectCrop(shrunk, { x: 0.25, y: 0, width: 0.3, height: 0.6 });
+    expect(pixelRatio(shrunk, 200, 100)).toBeCloseTo(1);
+  });
+
+  it('keeps the aspect ratio at MIN_CROP on the shorter axis', () => {
+    // On a 1:2 image a square's height fraction is half its width fraction, so the height
+    // reaches MIN_CROP first
+    const square = { x: 0, y: 0, width: 0.5, height: 0.25 };
+    const smallest = resizeCrop(square, 'se', -1, -1, 1, 100, 200);
+    expectCrop(smallest, { x: 0, y: 0, width: 2 * MIN_CROP, height: MIN_CROP });
+    expect(pixelRatio(smallest, 100, 200)).toBeCloseTo(1);
+  });
+});
+
+describe('flipEdit', () => {
+  const edit = { ...initialEdit(), crop: { x: 0.1, y: 0.2, width: 0.3, height: 0.4 } };
+
+  it('mirrors the crop with the image', () => {
+    const flippedX = flipEdit(edit, 'x');
+    expect(flippedX).toMatchObject({ flipX: true, flipY: false });
+    expectCrop(flippedX.crop, { x: 0.6, y: 0.2, width: 0.3, height: 0.4 });
+
+    const flippedY = flipEdit(edit, 'y');
+    expect(flippedY).toMatchObject({ flipX: false, flipY: true });
+    expectCrop(flippedY.crop, { x: 0.1, y: 0.4, width: 0.3, height: 0.4 });
+  });
+
+  it('restores the edit when flipped twice', () => {
+    const twice = flipEdit(flipEdit(edit, 'x'), 'x');
+    expect(twice.flipX).toBe(false);
+    expectCrop(twice.crop, edit.crop);
+  });
+});
+
+describe('rotateEdit', () => {
+  it('turns a quarter at a time and resets the crop', () => {
+    const cropped = { ...initialEdit(), crop: { x: 0.1, y: 0.1, width: 0.5, height: 0.5 } };
+
+    expect(rotateEdit(cropped, 1)).toMatchObject({ rotation: 90, crop: FULL_CROP });
+    expect(rotateEdit(cropped, -1)).toMatchObject({ rotation: 270, crop: FULL_CROP });
+    let edit = cropped;
+    for (let i = 0; i < 4; i++) edit = rotateEdit(edit, 1);
+    expect(edit.rotation).toBe(0);
+  });
+
+  it('swaps the displayed width and height on quarter turns', () => {
+    expect(orientedSize(200, 100, 90)).toEqual({ width: 100, height: 200 });
+    expect(orientedSize(200, 100, 180)).toEqual({ width: 200, height: 100 });
+  });
+});
+
+describe('cropPixels', () => {
+  it('rounds to whole pixels inside the image', () => {
+    expect(cropPixels({ x: 0.25, y: 0.5, width: 0.5, height: 0.5 }, 201, 101)).toEqual({
+      x: 50,
+      y: 51,
+      width: 101,
+      height: 50,
+    });
+  });
+
+  it('keeps at least one pixel', () => {
+    expect(cropPixels({ x: 0, y: 0, width: 0.001, height: 0.001 }, 100, 100)).toEqual({
+      x: 0,
+      y: 0,
+      width: 1,
+      height: 1,
+    });
+  });
+});
@@ -0,0 +1,200 @@
+// Geometry and rendering for the pre-upload editor. Crops are stored as fractions of the
+// image as displayed, i.e. after rotation and flips, so they survive preview resizing.
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export type CropRect = {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type EditState = {
+  rotation: Rotation;
+  flipX: boolean; // mirror left-right as displayed
+  flipY: boolean; // mirror top-bottom as displayed
+  crop: CropRect;
+};
+
+// Width / height, or null for a free crop
+export type AspectRatio = number | null;
+
+export const ASPECT_CHOICES: readonly { label: string; ratio: AspectRatio }[] = [
+  { label: 'Free', ratio: null },
+  { label: '1:1', ratio: 1 },
+  { label: '4:3', ratio: 4 / 3 },
+  { label: '3:2', ratio: 3 / 2 },
+  { label: '16:9', ratio: 16 / 9 },
+  { label: '9:16', ratio: 9 / 16 },
+];
+
+// Smallest crop edge, as a fraction of the image, so handles can't collapse the box
+export const MIN_CROP = 0.05;
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const initialEdit = (): EditState => ({
+  rotation: 0,
+  flipX: false,
+  flipY: false,
+  crop: FULL_CROP,
+});
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Pixel size of the image as displayed
+export const orientedSize = (
+  width: number,
+  height: number,
+  rotation: Rotation
+): { width: number; height: number } =>
+  rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height };
+
+/** The largest centered crop with the given aspect ratio; the whole image for a free crop. */
+export const fitCrop = (ratio: AspectRatio, imageWidth: number, imageHeight: number): CropRect => {
+  if (ratio === null) return FULL_CROP;
+  const imageRatio = imageWidth / imageHeight;
+  // Fractions are relative to each axis, so the ratio has to be converted into that space
+  const width = ratio >= imageRatio ? 1 : ratio / imageRatio;
+  const height = ratio >= imageRatio ? imageRatio / ratio : 1;
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+export const moveCrop = (crop: CropRect, dx: number, dy: number): CropRect => ({
+  ...crop,
+  x: clamp(crop.x + dx, 0, 1 - crop.width),
+  y: clamp(crop.y + dy, 0, 1 - crop.height),
+});
+
+export type Corner = 'nw' | 'ne' | 'sw' | 'se';
+
+/**
+ * Drags one corner by (dx, dy) with the opposite corner fixed. With a fixed aspect ratio the
+ * horizontal movement drives the size and the height follows.
+ */
+export const resizeCrop = (
+  crop: CropRect,
+  corner: Corner,
+  dx: number,
+  dy: number,
+  ratio: AspectRatio,
+  imageWidth: number,
+  imageHeight: number
+): CropRect => {
+  const west = corner === 'nw' || corner === 'sw';
+  const north = corner === 'nw' || corner === 'ne';
+  const anchorX = west ? crop.x + crop.width : crop.x;
+  const anchorY = north ? crop.y + crop.height : crop.y;
+  // Room between the fixed corner and the image edge it's being dragged towards
+  const roomX = west ? anchorX : 1 - anchorX;
+  const roomY = north ? anchorY : 1 - anchorY;
+
+  let width = clamp(crop.width + (west ? -dx : dx), MIN_CROP, roomX);
+  let height = clamp(crop.height + (north ? -dy : dy), MIN_CROP, roomY);
+  if (ratio !== null) {
+    // height fraction for a given width fraction at this aspect ratio
+    const perWidth = imageWidth / (imageHeight * ratio);
+    height = width * perWidth;
+    if (height > roomY) {
+      height = roomY;
+      width = height / perWidth;
+    }
+    if (height < MIN_CROP) {
+      height = MIN_CROP;
+      width = height / perWidth;
+    }
+  }
+  return {
+    x: west ? anchorX - width : anchorX,
+    y: north ? anchorY - height : anchorY,
+    width,
+    height,
+  };
+};
+
+// Quarter turn clockwise (1) or counter-clockwise (-1); the crop resets since the old one no
+// longer lines up with the image
+export const rotateEdit = (edit: EditState, direction: 1 | -1): EditState => ({
+  ...edit,
+  rotation: ((edit.rotation + 90 * direction + 360) % 360) as Rotation,
+  crop: FULL_CROP,
+});
+
+// Mirrors the image and the crop with it, so the same region stays selected
+export const flipEdit = (edit: EditState, axis: 'x' | 'y'): EditState =>
+  axis === 'x'
+    ? { ...edit, flipX: !edit.flipX, crop: { ...edit.crop, x: 1 - edit.crop.x - edit.crop.width } }
+    : {
+        ...edit,
+        flipY: !edit.flipY,
+        crop: { ...edit.crop, y: 1 - edit.crop.y - edit.crop.height },
+      };
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Draws the whole image rotated and flipped, scaled by `scale`, with its top-left corner at
+ * (-offsetX, -offsetY) in canvas pixels.
+ */
+export const drawOriented = (
+  ctx: Context2D,
+  image: ImageBitmap,
+  edit: Pick<EditState, 'rotation' | 'flipX' | 'flipY'>,
+  scale: number,
+  offsetX = 0,
+  offsetY = 0
+) => {
+  const oriented = orientedSize(image.width, image.height, edit.rotation);
+  ctx.save();
+  ctx.translate((oriented.width / 2) * scale - offsetX, (oriented.height / 2) * scale - offsetY);
+  // Flips apply after rotation so they mirror what's on screen
+  ctx.scale(edit.flipX ? -scale : scale, edit.flipY ? -scale : scale);
+  ctx.rotate((edit.rotation * Math.PI) / 180);
+  ctx.drawImage(image, -image.width / 2, -image.height / 2);
+  ctx.restore();
+};
+
+// Crop in whole pixels of the displayed image, at least 1×1
+export const cropPixels = (crop: CropRect, width: number, height: number): CropRect => {
+  const x = Math.round(crop.x * width);
+  const y = Math.round(crop.y * height);
+  return {
+    x,
+    y,
+    width: Math.max(1, Math.min(width - x, Math.round(crop.width * width))),
+    height: Math.max(1, Math.min(height - y, Math.round(crop.height * height))),
+  };
+};
+
+// Keeps lossless formats lossless; JPEG and WebP are re-encoded near their original quality
+const OUTPUT_QUALITY = 0.92;
+
+/**
+ * Renders the edit at full resolution. The bitmap must already have EXIF orientation applied
+ * (createImageBitmap's `imageOrientation: 'from-image'`); the re-encoded file carries no EXIF,
+ * so its pixels are the single source of truth for orientation.
+ */
+export const renderEdit = async (
+  image: ImageBitmap,
+  edit: EditState,
+  file: File
+): Promise<File> => {
+  const oriented = orientedSize(image.width, image.height, edit.rotation);
+  const crop = cropPixels(edit.crop, oriented.width, oriented.height);
+  const canvas = document.createElement('canvas');
+  canvas.width = crop.width;
+  canvas.height = crop.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.imageSmoothingQuality = 'high';
+  drawOriented(ctx, image, edit, 1, crop.x, crop.y);
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, file.type, OUTPUT_QUALITY)
+  );
+  if (!blob) throw new Error('Could not encode the edited image');
+  // Browsers without an encoder for the type fall back to PNG
+  const name = blob.type === file.type ? file.name : file.name.replace(/\.[^.]+$/, '') + '.png';
+  return new File([blob], name, { type: blob.type, lastModified: Date.now() });
+};
@@ -0,0 +1,31 @@
+import type { UpdateAssetResponse, UploadedAsset } from '../shared/types/api';
+import { apiFetch } from './api';
+import { renderThumbnail } from './downscale';
+
+/**
+ * Renders and uploads a thumbnail for a freshly uploaded file, returning the asset with its
+ * `thumbnailUrl`. Thumbnails are a nicety: on any failure the asset comes back unchanged and
+ * History falls back to the original.
+ */
+export const attachThumbnail = async (
+  file: File,
+  asset: UploadedAsset,
+  signal: AbortSignal
+): Promise<UploadedAsset> => {
+  if (asset.thumbnailUrl) return asset;
+  try {
+    const thumbnail = await renderThumbnail(file);
+    if (!thumbnail) return asset;
+    const res = await apiFetch(`/api/my-images/${encodeURIComponent(asset.mediaId)}/thumbnail`, {
+      method: 'PUT',
+      headers: { 'Content-Type': thumbnail.type },
+      body: thumbnail,
+      signal,
+    });
+    return ((await res.json()) as UpdateAssetResponse).asset;
+  } catch (err) {
+    if (signal.aborted) throw err;
+    console.warn('Failed to attach thumbnail', err);
+    return asset;
+  }
+};
@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UploadResponse } from '../shared/types/api';
+import type { ResizeInfo } from './downscale';
+import type { UploadProgress } from './chunkedUpload';
+import { describeError } from './api';
+
+export type QueueStatus = 'queued' | 'processing' | 'uploading' | 'done' | 'failed' | 'canceled';
+
+export type QueueItem = {
+  id: string;
+  // The file as picked; retries start over from it
+  file: File;
+  status: QueueStatus;
+  error?: string;
+  result?: UploadResponse;
+  resize?: ResizeInfo;
+  // Bytes the server has acknowledged so far; only set while uploading
+  progress?: UploadProgress;
+};
+
+export type PreparedFile = {
+  file: File;
+  resize?: ResizeInfo;
+};
+
+type UploadQueueOptions = {
+  upload: (
+    file: File,
+    signal: AbortSignal,
+    onProgress: (progress: UploadProgress) => void
+  ) => Promise<UploadResponse>;
+  validate: (file: File) => string | null;
+  // Optional preprocessing (e.g. downscaling) run before each upload attempt
+  prepare?: (file: File) => Promise<PreparedFile>;
+  onUploaded?: (item: QueueItem, result: UploadResponse) => void;
+  onFailed?: (item: QueueItem, error: string) => void;
+  concurrency?: number;
+};
+
+const DEFAULT_CONCURRENCY = 3;
+
+const isActive = (item: QueueItem) => item.status === 'processing' || item.status === 'uploading';
+
+/**
+ * Keeps a list of files to upload and runs at most `concurrency` uploads at a time.
+ * Items move queued → processing → uploading → done | failed | canceled and can be retried
+ * or canceled.
+ */
+export const useUploadQueue = ({
+  upload,
+  validate,
+  prepare,
+  onUploaded,
+  onFailed,
+  concurrency = DEFAULT_CONCURRENCY,
+}: UploadQueueOptions) => {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const nextId = useRef(0);
+
+  const update = useCallback((id: string, patch: (item: QueueItem) => QueueItem) => {
+    setItems((prev) => prev.map((it) => (it.id === id ? patch(it) : it)));
+  }, []);
+
+  const run = useCallback(
+    async (item: QueueItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      try {
+        let file = item.file;
+        if (prepare) {
+          const prepared = await prepare(item.file);
+          file = prepared.file;
+          const { resize } = prepared;
+          update(item.id, (it) => ({
+            id: it.id,
+            file: it.file,
+            status: 'uploading',
+            ...(resize ? { resize } : {}),
+          }));
+        }
+        const result = await upload(file, controller.signal, (progress) =>
+          update(item.id, (it) => ({ ...it, progress }))
+        );
+        update(item.id, (it) => ({
+          id: it.id,
+          file: it.file,
+          status: 'done',
+          result,
+          ...(it.resize ? { resize: it.resize } : {}),
+        }));
+        onUploaded?.(item, result);
+      } catch (err) {
+        if (controller.signal.aborted) {
+          update(item.id, (it) => ({ id: it.id, file: it.file, status: 'canceled' }));
+        } else {
+          const error = describeError(err);
+          update(item.id, (it) => ({ id: it.id, file: it.file, status: 'failed', error }));
+          onFailed?.(item, error);
+        }
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    },
+    [upload, prepare, update, onUploaded, onFailed]
+  );
+
+  // Start queued items whenever a slot frees up
+  useEffect(() => {
+    const active = items.filter(isActive).length;
+    const slots = concurrency - active;
+    if (slots <= 0) return;
+    const toStart = items.filter((it) => it.status === 'queued').slice(0, slots);
+    if (toStart.length === 0) return;
+    const ids = new Set(toStart.map((it) => it.id));
+    const next: QueueStatus = prepare ? 'processing' : 'uploading';
+    setItems((prev) => prev.map((it) => (ids.has(it.id) ? { ...it, status: next } : it)));
+    for (const item of toStart) void run(item);
+  }, [items, concurrency, prepare, run]);
+
+  // Abort anything still in flight when the component goes away
+  useEffect(() => {
+    const map = controllers.current;
+    return () => {
+      for (const controller of map.values()) controller.abort();
+      map.clear();
+    };
+  }, []);
+
+  const toItem = useCallback(
+    (file: File): QueueItem => {
+      const id = `${Date.now()}-${nextId.current++}`;
+      const error = validate(file);
+      return error ? { id, file, status: 'failed', error } : { id, file, status: 'queued' };
+    },
+    [validate]
+  );
+
+  const enqueue = useCallback(
+    (files: readonly File[]): QueueItem[] => {
+      const added = files.map(toItem);
+      setItems((prev) => [...prev, ...added]);
+      return added;
+    },
+    [toItem]
+  );
+
+  const retry = useCallback(
+    (id: string) => {
+      setItems((prev) =>
+        prev.map((it) => {
+          if (it.id !== id || (it.status !== 'failed' && it.status !== 'canceled')) return it;
+          const error = validate(it.file);
+          return error
+            ? { id: it.id, file: it.file, status: 'failed', error }
+            : { id: it.id, file: it.file, status: 'queued' };
+        })
+      );
+    },
+    [validate]
+  );
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllers.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    setItems((prev) =>
+      prev.map((it) =>
+        it.id === id && it.status === 'queued' ? { ...it, status: 'canceled' } : it
+      )
+    );
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setItems((prev) => prev.filter((it) => it.status === 'queued' || isActive(it)));
+  }, []);
+
+  const busy = items.some((it) => it.status === 'queued' || isActive(it));
+
+  return { items, busy, enqueue, retry, cancel, clearFinished };
+};
@@ -0,0 +1,1877 @@
+import { createHash } from 'node:crypto';
+import { readFileSync } from 'node:fs';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterEach, describe, expect, it } from 'vitest';
+import type {
+  AlbumResponse,
+  AlbumsResponse,
+  ErrorResponse,
+  GalleryEntryResponse,
+  GalleryResponse,
+  GallerySettingsResponse,
+  HistoryChannelResponse,
+  HistoryEvent,
+  ListUploadsResponse,
+  ModUploadsResponse,
+  PolicyResponse,
+  PublishRequest,
+  PublishResponse,
+  QuotaResponse,
+  UpdateAssetResponse,
+  UploadedAsset,
+  UploadResponse,
+  UploadBansResponse,
+  UploadSessionResponse,
+} from '../shared/types/api';
+import { createApp } from './app';
+import { crc32 } from './core/crc32';
+import { sweepExpiredUploads } from './core/expiry';
+import { MAX_LOG_ENTRIES, listModLog, logUpload } from './core/modlog';
+import { MAX_TITLE_LENGTH } from './core/publish';
+import {
+  MAX_OPEN_UPLOAD_SESSIONS,
+  MAX_STAGED_UPLOAD_BYTES,
+  UPLOAD_CHUNK_BYTES,
+  UPLOAD_SESSION_TTL_SECONDS,
+  createUploadSession,
+  saveChunk,
+} from './core/uploadSessions';
+import { saveUpload } from './core/uploads';
+import {
+  createFakeClock,
+  createMemoryServices,
+  createMemorySettings,
+  type FakeClock,
+  type MemoryServices,
+} from './memoryServices';
+import { runWithServices } from './services';
+
+const fixture = (name: string) => readFileSync(new URL(`./core/fixtures/${name}`, import.meta.url));
+
+const servers: Server[] = [];
+
+afterEach(async () => {
+  await Promise.all(
+    servers.splice(0).map((s) => new Promise<void>((resolve) => s.close(() => resolve())))
+  );
+});
+
+type Requester = (path: string, init?: Parameters<typeof fetch>[1]) => Promise<Response>;
+
+// Starts an app on a free port; `request` resolves paths against it
+const start = async (services: MemoryServices = createMemoryServices()) => {
+  const server = createApp(services).listen(0);
+  servers.push(server);
+  await new Promise<void>((resolve) => server.once('listening', resolve));
+  const { port } = server.address() as AddressInfo;
+  const request: Requester = (path, init) => fetch(`http://127.0.0.1:${port}${path}`, init);
+  return { services, request };
+};
+
+const uploadPng = (request: Requester) =>
+  request('/api/upload-image', {
+    method: 'POST',
+    headers: { 'Content-Type': 'image/png', 'X-File-Name': 'valid.png' },
+    body: fixture('valid.png'),
+  });
+
+// Distinct files, so uploads aren't de-duplicated against each other
+const IMAGE_FIXTURES = [
+  { name: 'valid.png', mimeType: 'image/png' },
+  { name: 'valid.gif', mimeType: 'image/gif' },
+  { name: 'valid.jpg', mimeType: 'image/jpeg' },
+  { name: 'valid-lossy.webp', mimeType: 'image/webp' },
+] as const;
+
+// Uploads the fixtures a minute apart, so each lands at its own time; returns them oldest first
+const uploadEach = async (
+  request: Requester,
+  clock: FakeClock,
+  uploads: readonly { name: string; mimeType: string; headers?: Record<string, string> }[]
+) => {
+  const assets = [];
+  for (const { name, mimeType, headers } of uploads) {
+    clock.advance(60_000);
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': mimeType, 'X-File-Name': name, ...headers },
+      body: fixture(name),
+    });
+    expect(res.status).toBe(200);
+    assets.push(((await res.json()) as UploadResponse).asset);
+  }
+  return assets;
+};
+
+const sendJson = (request: Requester, method: string, path: string, body: unknown) =>
+  request(path, {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+describe('POST /api/upload-image', () => {
+  it('stores the image and records it in the uploader history', async () => {
+    const { services, request } = await start();
+
+    const res = await uploadPng(request);
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as UploadResponse;
+    expect(body).toMatchObject({
+      type: 'upload',
+      mimeType: 'image/png',
+      fileName: 'valid.png',
+      duplicate: false,
+      asset: { mediaType: 'image', mediaId: 'media1' },
+    });
+    expect(services.media.uploads).toHaveLength(1);
+  });
+
+  it('returns the existing entry for a repeated file without uploading again', async () => {
+    const { services, request } = await start();
+
+    await uploadPng(request);
+    const res = await uploadPng(request);
+    const body = (await res.json()) as UploadResponse;
+    expect(body.duplicate).toBe(true);
+    expect(body.asset.mediaId).toBe('media1');
+    expect(services.media.uploads).toHaveLength(1);
+  });
+
+  it('rejects anonymous requests', async () => {
+    const services = createMemoryServices();
+    services.context.userId = undefined;
+    const { request } = await start(services);
+
+    const res = await uploadPng(request);
+    expect(res.status).toBe(401);
+    expect(((await res.json()) as ErrorResponse).code).toBe('UNAUTHORIZED');
+  });
+
+  it('rejects content types that are not images or videos', async () => {
+    const { request } = await start();
+
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/pdf' },
+      body: Buffer.from('%PDF-1.4'),
+    });
+    expect(res.status).toBe(415);
+    expect(((await res.json()) as ErrorResponse).code).toBe('UNSUPPORTED_TYPE');
+  });
+
+  it('rejects files that are not well-formed images', async () => {
+    const { services, request } = await start();
+
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/png' },
+      body: fixture('truncated.png'),
+    });
+    expect(res.status).toBe(415);
+    expect(((await res.json()) as ErrorResponse).code).toBe('INVALID_IMAGE');
+    expect(services.media.uploads).toHaveLength(0);
+  });
+
+  it('stores videos with the duration and frame size read from the container', async () => {
+    const { services, request } = await start();
+
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'video/mp4', 'X-File-Name': 'clip.mp4' },
+      body: fixture('valid.mp4'),
+    });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      mimeType: 'video/mp4',
+      width: 320,
+      height: 240,
+      strippedMetadata: [],
+      asset: { mediaType: 'video', durationSeconds: 2.5, width: 320, height: 240 },
+    });
+    expect(services.media.uploads.map((u) => u.type)).toEqual(['video']);
+
+    const bad = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'video/webm' },
+      body: fixture('wrong-doctype.webm'),
+    });
+    expect(bad.status).toBe(415);
+    expect(((await bad.json()) as ErrorResponse).code).toBe('INVALID_VIDEO');
+  });
+
+  it('reports media service failures as upstream errors', async () => {
+    const services = createMemoryServices();
+    services.media.upload = () => Promise.reject(new Error('media service down'));
+    const { request } = await start(services);
+
+    const res = await uploadPng(request);
+    expect(res.status).toBe(502);
+    expect(((await res.json()) as ErrorResponse).code).toBe('UPSTREAM_MEDIA_ERROR');
+  });
+});
+
+describe('GET /api/my-images', () => {
+  it('lists only the current user uploads, newest first', async () => {
+    const { services, request } = await start();
+
+    await uploadPng(request);
+    await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/gif' },
+      body: fixture('valid.gif'),
+    });
+
+    const res = await request('/api/my-images');
+    const body = (await res.json()) as ListUploadsResponse;
+    expect(body.type).toBe('listUploads');
+    expect(body.assets.map((a) => a.mimeType)).toEqual(['image/gif', 'image/png']);
+    expect(body.nextCursor).toBeNull();
+
+    services.context.userId = 't2_someoneelse';
+    const other = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(other.assets).toEqual([]);
+  });
+
+  it('pages through uploads with a cursor', async () => {
+    const { request } = await start();
+
+    await uploadPng(request);
+    await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/gif' },
+      body: fixture('valid.gif'),
+    });
+
+    const first = (await (await request('/api/my-images?limit=1')).json()) as ListUploadsResponse;
+    expect(first.assets).toHaveLength(1);
+    expect(first.nextCursor).not.toBeNull();
+
+    const second = (await (
+      await request(`/api/my-images?limit=1&cursor=${encodeURIComponent(first.nextCursor!)}`)
+    ).json()) as ListUploadsResponse;
+    expect(second.assets).toHaveLength(1);
+    expect(second.assets[0]!.mediaId).not.toBe(first.assets[0]!.mediaId);
+  });
+
+  it('rejects a non-numeric limit', async () => {
+    const { request } = await start();
+
+    const res = await request('/api/my-images?limit=lots');
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as ErrorResponse).code).toBe('INVALID_REQUEST');
+  });
+
+  describe('search', () => {
+    const search = async (request: Requester, query: string) =>
+      (await (await request(`/api/my-images?${query}`)).json()) as ListUploadsResponse;
+
+    const ids = (page: ListUploadsResponse) => page.assets.map((a) => a.mediaId);
+
+    // Writes history entries straight to storage, for histories too long to upload one by one
+    const seed = (services: MemoryServices, assets: UploadedAsset[]) =>
+      runWithServices(services, async () => {
+        for (const asset of assets) await saveUpload(services.context.userId!, asset);
+      });
+
+    const seeded = (n: number, date: string, details: Partial<UploadedAsset> = {}) => ({
+      mediaType: 'image' as const,
+      mediaUrl: `https://i.redd.it/seed${n}.png`,
+      mediaId: `seed${n}`,
+      date,
+      ...details,
+    });
+
+    it('filters by text, tag and type', async () => {
+      const clock = createFakeClock();
+      const { request } = await start(createMemoryServices(clock));
+      const [png, gif, jpeg] = await uploadEach(request, clock, [
+        {
+          ...IMAGE_FIXTURES[0],
+          headers: { 'X-Caption': encodeURIComponent('Sunset at the beach'), 'X-Tags': 'Travel' },
+        },
+        { ...IMAGE_FIXTURES[1], headers: { 'X-Tags': 'travel,cats' } },
+        { ...IMAGE_FIXTURES[2], headers: { 'X-Alt-Text': 'A cat asleep' } },
+      ]);
+
+      // Caption, alt text, tags and file name, ignoring case
+      expect(ids(await search(request, 'q=SUNSET'))).toEqual([png!.mediaId]);
+      expect(ids(await search(request, 'q=cat'))).toEqual([jpeg!.mediaId, gif!.mediaId]);
+      expect(ids(await search(request, 'q=.jpg'))).toEqual([jpeg!.mediaId]);
+
+      expect(ids(await search(request, 'tag=%23TRAVEL'))).toEqual([gif!.mediaId, png!.mediaId]);
+      expect(ids(await search(request, 'tag=travel&type=image/png'))).toEqual([png!.mediaId]);
+      expect(ids(await search(request, 'q=beach&tag=cats'))).toEqual([]);
+    });
+
+    it('filters by date, with both bounds inclusive', async () => {
+      const clock = createFakeClock();
+      const { request } = await start(createMemoryServices(clock));
+      const [png, gif, jpeg] = await uploadEach(request, clock, IMAGE_FIXTURES.slice(0, 3));
+
+      const between = await search(request, `from=${gif!.date}&to=${jpeg!.date}`);
+      expect(ids(between)).toEqual([jpeg!.mediaId, gif!.mediaId]);
+      expect(ids(await search(request, `to=${png!.date}`))).toEqual([png!.mediaId]);
+
+      const paged = await search(request, `from=${png!.date}&limit=1`);
+      expect(ids(paged)).toEqual([jpeg!.mediaId]);
+      const rest = await search(
+        request,
+        `from=${png!.date}&limit=5&cursor=${encodeURIComponent(paged.nextCursor!)}`
+      );
+      expect(ids(rest)).toEqual([gif!.mediaId, png!.mediaId]);
+      expect(rest.nextCursor).toBeNull();
+    });
+
+    it('rejects malformed dates and types', async () => {
+      const { request } = await start();
+
+      expect((await request('/api/my-images?from=yesterday')).status).toBe(400);
+      expect((await request('/api/my-images?type=text/plain')).status).toBe(400);
+    });
+
+    it('pages through uploads that share a timestamp without repeats', async () => {
+      const services = createMemoryServices();
+      const { request } = await start(services);
+      const date = '2025-01-01T00:00:00.000Z';
+      await seed(services, [seeded(1, date), seeded(2, date), seeded(3, date)]);
+
+      const seen: string[] = [];
+      const cursors: (string | null)[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await search(
+          request,
+          `limit=1${cursor ? `&cursor=${encodeURIComponent(cursor)}` : ''}`
+        );
+        seen.push(...ids(page));
+        cursors.push(page.nextCursor);
+        cursor = page.nextCursor;
+      } while (cursor);
+
+      expect(seen.sort()).toEqual(['seed1', 'seed2', 'seed3']);
+      // `<score>:<skip>`: the same score, one further in each time
+      const score = Date.parse(date);
+      expect(cursors).toEqual([`${score}:1`, `${score}:2`, null]);
+    });
+
+    it('returns a short page with a cursor when a rare match is past the scan limit', async () => {
+      const services = createMemoryServices();
+      const { request } = await start(services);
+      const base = Date.parse('2025-01-01T00:00:00Z');
+      const at = (n: number) => new Date(base + n * 1000).toISOString();
+      // Matches at both ends of a history longer than one page may scan
+      await seed(services, [
+        seeded(0, at(0), { caption: 'needle' }),
+        ...Array.from({ length: 600 }, (_, i) => seeded(i + 1, at(i + 1), { caption: 'hay' })),
+        seeded(601, at(601), { caption: 'needle' }),
+      ]);
+
+      const first = await search(request, 'q=needle&limit=5');
+      expect(ids(first)).toEqual(['seed601']);
+      expect(first.nextCursor).not.toBeNull();
+
+      const second = await search(
+        request,
+        `q=needle&limit=5&cursor=${encodeURIComponent(first.nextCursor!)}`
+      );
+      expect(ids(second)).toEqual(['seed0']);
+      expect(second.nextCursor).toBeNull();
+    });
+  });
+});
+
+describe('upload quota', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  const startWithLimits = async (limits: Record<string, number>) => {
+    const clock = createFakeClock();
+    const services = createMemoryServices(clock);
+    services.settings = createMemorySettings(limits);
+    return { clock, ...(await start(services)) };
+  };
+
+  const uploadGif = (request: Requester) =>
+    request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/gif' },
+      body: fixture('valid.gif'),
+    });
+
+  it('rejects uploads over the hourly limit until the window resets', async () => {
+    const { clock, services, request } = await startWithLimits({ uploadsPerHour: 1 });
+    clock.advance(HOUR_MS / 2);
+
+    expect((await uploadPng(request)).status).toBe(200);
+    const res = await uploadGif(request);
+    expect(res.status).toBe(429);
+    expect(res.headers.get('Retry-After')).toBe('1800');
+    expect(await res.json()).toMatchObject({ code: 'RATE_LIMITED', retryAfterSeconds: 1800 });
+    expect(services.media.uploads).toHaveLength(1);
+
+    clock.advance(HOUR_MS / 2);
+    expect((await uploadGif(request)).status).toBe(200);
+  });
+
+  it('charges the size of the file as sent, before metadata is stripped', async () => {
+    const { request } = await startWithLimits({});
+    const body = fixture('metadata.png');
+
+    await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/png' },
+      body,
+    });
+    const quota = (await (await request('/api/quota')).json()) as QuotaResponse;
+    expect(quota.remaining.bytesToday).toBe(quota.limits.bytesPerDay - body.length);
+    expect(quota.remaining.uploadsThisHour).toBe(quota.limits.uploadsPerHour - 1);
+  });
+
+  it('checks the daily size limit against the same measure it records', async () => {
+    const size = fixture('metadata.png').length;
+    const { request } = await startWithLimits({ megabytesPerDay: (size + 10) / (1024 * 1024) });
+
+    await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/png' },
+      body: fixture('metadata.png'),
+    });
+    const res = await uploadPng(request);
+    expect(res.status).toBe(429);
+    expect(((await res.json()) as ErrorResponse).message).toMatch(/Daily upload size limit/);
+  });
+
+  it('lets only the allowed number of parallel uploads through', async () => {
+    const { services, request } = await startWithLimits({ uploadsPerHour: 2 });
+    // A slow media service keeps every request in flight at once, as real network calls do
+    const upload = services.media.upload;
+    services.media.upload = async (opts) => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return upload(opts);
+    };
+
+    const results = await Promise.all(
+      IMAGE_FIXTURES.map(({ name, mimeType }) =>
+        request('/api/upload-image', {
+          method: 'POST',
+          headers: { 'Content-Type': mimeType },
+          body: fixture(name),
+        })
+      )
+    );
+    expect(results.map((r) => r.status).sort()).toEqual([200, 200, 429, 429]);
+    expect(services.media.uploads).toHaveLength(2);
+    const quota = (await (await request('/api/quota')).json()) as QuotaResponse;
+    expect(quota.remaining.uploadsThisHour).toBe(0);
+  });
+
+  it('gives the allowance back when the media service fails', async () => {
+    const { services, request } = await startWithLimits({ uploadsPerHour: 1 });
+    const upload = services.media.upload;
+    services.media.upload = () => Promise.reject(new Error('media service down'));
+
+    expect((await uploadPng(request)).status).toBe(502);
+    const quota = (await (await request('/api/quota')).json()) as QuotaResponse;
+    expect(quota.remaining).toMatchObject({
+      uploadsThisHour: 1,
+      bytesToday: quota.limits.bytesPerDay,
+    });
+
+    services.media.upload = upload;
+    expect((await uploadPng(request)).status).toBe(200);
+  });
+});
+
+describe('chunked upload sessions', () => {
+  // valid.png with a text chunk big enough to need two upload chunks
+  const twoChunkPng = () => {
+    const png = fixture('valid.png');
+    const data = Buffer.concat([
+      Buffer.from('Comment\0', 'latin1'),
+      Buffer.alloc(UPLOAD_CHUNK_BYTES),
+    ]);
+    const head = Buffer.alloc(8);
+    head.writeUInt32BE(data.length, 0);
+    head.write('tEXt', 4, 'latin1');
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+    return Buffer.concat([png.subarray(0, 33), head, data, crc, png.subarray(33)]);
+  };
+
+  const sha256 = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+  const createSession = async (request: Requester, file: Buffer, digest = sha256(file)) => {
+    const res = await request('/api/upload-sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mimeType: 'image/png', bytes: file.length, sha256: digest }),
+    });
+    return (await res.json()) as UploadSessionResponse;
+  };
+
+  const putChunk = (request: Requester, sessionId: string, file: Buffer, index: number) =>
+    request(`/api/upload-sessions/${sessionId}/chunks/${index}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: file.subarray(index * UPLOAD_CHUNK_BYTES, (index + 1) * UPLOAD_CHUNK_BYTES),
+    });
+
+  const complete = (request: Requester, sessionId: string) =>
+    request(`/api/upload-sessions/${sessionId}/complete`, { method: 'POST' });
+
+  it('resumes after a partial upload and refuses to complete until every chunk is in', async () => {
+    const { services, request } = await start();
+    const file = twoChunkPng();
+    const session = await createSession(request, file);
+    expect(session).toMatchObject({ totalChunks: 2, receivedChunks: [] });
+
+    expect((await putChunk(request, session.sessionId, file, 1)).status).toBe(200);
+    const incomplete = await complete(request, session.sessionId);
+    expect(incomplete.status).toBe(409);
+    expect(await incomplete.json()).toMatchObject({
+      code: 'INCOMPLETE_UPLOAD',
+      missingChunks: [0],
+    });
+
+    // A reloaded client asks what's already there and sends only the rest
+    const resumed = (await (
+      await request(`/api/upload-sessions/${session.sessionId}`)
+    ).json()) as UploadSessionResponse;
+    expect(resumed.receivedChunks).toEqual([1]);
+    await putChunk(request, session.sessionId, file, 0);
+
+    const res = await complete(request, session.sessionId);
+    expect(res.status).toBe(200);
+    expect(((await res.json()) as UploadResponse).asset.mediaId).toBe('media1');
+    expect(services.media.uploads).toHaveLength(1);
+    expect((await request(`/api/upload-sessions/${session.sessionId}`)).status).toBe(404);
+  });
+
+  it('rejects chunks of the wrong size', async () => {
+    const { request } = await start();
+    const file = twoChunkPng();
+    const session = await createSession(request, file);
+
+    const res = await request(`/api/upload-sessions/${session.sessionId}/chunks/0`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: file.subarray(0, 10),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('discards the session when the assembled file fails its checksum', async () => {
+    const { services, request } = await start();
+    const file = fixture('valid.png');
+    const session = await createSession(request, file, 'f'.repeat(64));
+    await putChunk(request, session.sessionId, file, 0);
+
+    const res = await complete(request, session.sessionId);
+    expect(res.status).toBe(422);
+    expect(((await res.json()) as ErrorResponse).code).toBe('CHECKSUM_MISMATCH');
+    expect(services.media.uploads).toHaveLength(0);
+    expect((await request(`/api/upload-sessions/${session.sessionId}`)).status).toBe(404);
+  });
+
+  it('hides sessions from other users', async () => {
+    const { services, request } = await start();
+    const file = fixture('valid.png');
+    const session = await createSession(request, file);
+
+    services.context.userId = 't2_someoneelse';
+    expect((await request(`/api/upload-sessions/${session.sessionId}`)).status).toBe(404);
+    expect((await putChunk(request, session.sessionId, file, 0)).status).toBe(404);
+    expect((await complete(request, session.sessionId)).status).toBe(404);
+    await request(`/api/upload-sessions/${session.sessionId}`, { method: 'DELETE' });
+
+    services.context.userId = 't2_tester';
+    const own = (await (
+      await request(`/api/upload-sessions/${session.sessionId}`)
+    ).json()) as UploadSessionResponse;
+    expect(own.sessionId).toBe(session.sessionId);
+  });
+
+  it('expires idle sessions, counting from the last chunk', async () => {
+    const clock = createFakeClock();
+    const { request } = await start(createMemoryServices(clock));
+    const file = twoChunkPng();
+    const session = await createSession(request, file);
+    const HOUR_MS = 60 * 60 * 1000;
+
+    clock.advance(20 * HOUR_MS);
+    const renewed = (await (
+      await putChunk(request, session.sessionId, file, 0)
+    ).json()) as UploadSessionResponse;
+    expect(renewed.expiresAt).toBe(new Date(clock.now() + 24 * HOUR_MS).toISOString());
+
+    clock.advance(20 * HOUR_MS);
+    expect((await request(`/api/upload-sessions/${session.sessionId}`)).status).toBe(200);
+    clock.advance(5 * HOUR_MS);
+    expect((await request(`/api/upload-sessions/${session.sessionId}`)).status).toBe(404);
+  });
+
+  describe('limits', () => {
+    const MB = 1024 * 1024;
+
+    // Declares a session without sending anything; only the size and type matter here
+    const declare = (request: Requester, bytes: number, mimeType = 'image/png') =>
+      sendJson(request, 'POST', '/api/upload-sessions', {
+        mimeType,
+        bytes,
+        sha256: sha256(Buffer.from(`${bytes}:${Math.random()}`)),
+      });
+
+    it('caps the number of open sessions per user', async () => {
+      const { services, request } = await start();
+      const open: UploadSessionResponse[] = [];
+      for (let i = 0; i < MAX_OPEN_UPLOAD_SESSIONS; i++) {
+        open.push((await (await declare(request, 100)).json()) as UploadSessionResponse);
+      }
+
+      const refused = await declare(request, 100);
+      expect(refused.status).toBe(429);
+      expect(((await refused.json()) as ErrorResponse).code).toBe('RATE_LIMITED');
+
+      // Other users have their own allowance
+      services.context.userId = 't2_someoneelse';
+      expect((await declare(request, 100)).status).toBe(200);
+
+      services.context.userId = 't2_tester';
+      await request(`/api/upload-sessions/${open[0]!.sessionId}`, { method: 'DELETE' });
+      expect((await declare(request, 100)).status).toBe(200);
+    });
+
+    it('stops counting sessions once they expire', async () => {
+      const clock = createFakeClock();
+      const { request } = await start(createMemoryServices(clock));
+      for (let i = 0; i < MAX_OPEN_UPLOAD_SESSIONS; i++) await declare(request, 100);
+
+      clock.advance(UPLOAD_SESSION_TTL_SECONDS * 1000);
+      expect((await declare(request, 100)).status).toBe(200);
+    });
+
+    it('caps the bytes declared by open sessions', async () => {
+      const { request } = await start();
+      const half = MAX_STAGED_UPLOAD_BYTES / 2;
+      expect((await declare(request, half, 'video/mp4')).status).toBe(200);
+      expect((await declare(request, half, 'video/mp4')).status).toBe(200);
+
+      const refused = await declare(request, 1);
+      expect(refused.status).toBe(413);
+      expect(((await refused.json()) as ErrorResponse).code).toBe('TOO_LARGE');
+    });
+
+    it('refuses new chunks once the staged bytes reach the limit', async () => {
+      const services = createMemoryServices();
+      const { request } = await start(services);
+      const userId = services.context.userId!;
+      const meta = { mimeType: 'video/mp4' as const, details: {} };
+      const half = MAX_STAGED_UPLOAD_BYTES / 2;
+      const chunk = Buffer.alloc(UPLOAD_CHUNK_BYTES);
+      // A third session that got past the creation check alongside two full ones, as
+      // concurrent requests can
+      const [first, second, third] = await runWithServices(services, async () => {
+        const sessions = [];
+        for (const bytes of [half, half, MB]) {
+          sessions.push(await createUploadSession(userId, meta, bytes, 'f'.repeat(64)));
+        }
+        for (const session of sessions.slice(0, 2)) {
+          for (let i = 0; i < session.totalChunks; i++) await saveChunk(session, i, chunk);
+        }
+        return sessions;
+      });
+
+      const refused = await request(`/api/upload-sessions/${third!.id}/chunks/0`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk,
+      });
+      expect(refused.status).toBe(413);
+      expect(((await refused.json()) as ErrorResponse).code).toBe('TOO_LARGE');
+
+      // Re-sending a stored chunk adds nothing, and canceling a session frees its share
+      const resent = await request(`/api/upload-sessions/${first!.id}/chunks/0`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk,
+      });
+      expect(resent.status).toBe(200);
+      await request(`/api/upload-sessions/${second!.id}`, { method: 'DELETE' });
+      const accepted = await request(`/api/upload-sessions/${third!.id}/chunks/0`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: chunk,
+      });
+      expect(accepted.status).toBe(200);
+    });
+  });
+});
+
+describe('upload policy', () => {
+  // The HTTP status with the error code and message from the body
+  const errorOf = async (res: Response) => {
+    const { code, message } = (await res.json()) as ErrorResponse;
+    return { status: res.status, code, message };
+  };
+
+  // Makes the current user a moderator of the test subreddit and sets the policy as them
+  const setPolicy = async (services: MemoryServices, request: Requester, patch: unknown) => {
+    services.reddit.moderators.push('tester');
+    const res = await sendJson(request, 'PUT', '/api/policy', patch);
+    services.reddit.moderators.pop();
+    expect(res.status).toBe(200);
+  };
+
+  const upload = (request: Requester, name: string, mimeType: string) =>
+    request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': mimeType },
+      body: fixture(name),
+    });
+
+  it('lets only moderators change the policy', async () => {
+    const { services, request } = await start();
+
+    const refused = await sendJson(request, 'PUT', '/api/policy', { maxWidth: 100 });
+    expect(refused.status).toBe(403);
+    expect(((await refused.json()) as ErrorResponse).code).toBe('FORBIDDEN');
+    const before = (await (await request('/api/policy')).json()) as PolicyResponse;
+    expect(before).toMatchObject({ canEdit: false, policy: { maxWidth: null } });
+
+    services.reddit.moderators.push('tester');
+    const saved = await sendJson(request, 'PUT', '/api/policy', { maxWidth: 100 });
+    expect(await saved.json()).toMatchObject({ canEdit: true, policy: { maxWidth: 100 } });
+    const invalid = await sendJson(request, 'PUT', '/api/policy', { maxWidth: -1 });
+    expect(invalid.status).toBe(400);
+    expect(((await invalid.json()) as ErrorResponse).code).toBe('INVALID_REQUEST');
+
+    services.context.userId = undefined;
+    expect((await sendJson(request, 'PUT', '/api/policy', { maxWidth: 1 })).status).toBe(401);
+  });
+
+  it('rejects uploads of a type, size or frame size the policy rules out', async () => {
+    const services = createMemoryServices();
+    const { request } = await start(services);
+    const png = fixture('valid.png');
+    await setPolicy(services, request, {
+      allowedTypes: ['image/png'],
+      maxBytes: png.length - 1,
+      allowVideos: false,
+    });
+
+    expect(await errorOf(await upload(request, 'valid.gif', 'image/gif'))).toMatchObject({
+      status: 415,
+      code: 'UNSUPPORTED_TYPE',
+      message: 'Only PNG images are allowed here',
+    });
+    expect(await errorOf(await upload(request, 'valid.mp4', 'video/mp4'))).toMatchObject({
+      status: 415,
+      code: 'UNSUPPORTED_TYPE',
+      message: 'Videos are not allowed here',
+    });
+    expect(await errorOf(await uploadPng(request))).toMatchObject({
+      status: 413,
+      code: 'TOO_LARGE',
+    });
+
+    // valid.png is 2x2
+    await setPolicy(services, request, { maxBytes: png.length, maxHeight: 1 });
+    expect(await errorOf(await uploadPng(request))).toMatchObject({
+      status: 422,
+      code: 'POLICY_VIOLATION',
+      message: 'Image must be at most 1px tall',
+    });
+    expect(services.media.uploads).toHaveLength(0);
+
+    await setPolicy(services, request, { maxHeight: null });
+    expect((await uploadPng(request)).status).toBe(200);
+  });
+
+  it('applies the policy to upload sessions', async () => {
+    const services = createMemoryServices();
+    const { request } = await start(services);
+    const png = fixture('valid.png');
+    const declare = (mimeType: string, bytes: number) =>
+      sendJson(request, 'POST', '/api/upload-sessions', {
+        mimeType,
+        bytes,
+        sha256: createHash('sha256').update(png).digest('hex'),
+      });
+
+    // The session is opened under the default policy and completed under a stricter one
+    const session = (await (
+      await declare('image/png', png.length)
+    ).json()) as UploadSessionResponse;
+    await setPolicy(services, request, { allowedTypes: ['image/png'], maxBytes: 10, maxWidth: 1 });
+
+    expect(await errorOf(await declare('image/gif', 10))).toMatchObject({
+      status: 415,
+      code: 'UNSUPPORTED_TYPE',
+    });
+    expect(await errorOf(await declare('image/png', 11))).toMatchObject({
+      status: 413,
+      code: 'TOO_LARGE',
+    });
+
+    await request(`/api/upload-sessions/${session.sessionId}/chunks/0`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: png,
+    });
+    await setPolicy(services, request, { maxBytes: png.length });
+    const res = await request(`/api/upload-sessions/${session.sessionId}/complete`, {
+      method: 'POST',
+    });
+    expect(await errorOf(res)).toMatchObject({
+      status: 422,
+      code: 'POLICY_VIOLATION',
+      message: 'Image must be at most 1px wide',
+    });
+    expect(services.media.uploads).toHaveLength(0);
+  });
+});
+
+describe('moderator log and upload bans', () => {
+  // A moderator and a regular uploader alongside the default `tester`
+  const startWithMod = async (clock: FakeClock = createFakeClock()) => {
+    const started = await start(createMemoryServices(clock));
+    started.services.reddit.users.push(
+      { id: 't2_mod', username: 'mod' },
+      { id: 't2_bob', username: 'bob' }
+    );
+    started.services.reddit.moderators.push('mod');
+    return started;
+  };
+
+  const entriesOf = async (request: Requester, query = '') =>
+    ((await (await request(`/api/mod/uploads${query}`)).json()) as ModUploadsResponse).entries;
+
+  it('is open to moderators only', async () => {
+    const { services, request } = await startWithMod();
+
+    for (const res of [
+      await request('/api/mod/uploads'),
+      await request('/api/mod/bans'),
+      await sendJson(request, 'POST', '/api/mod/bans', { username: 'bob' }),
+      await request('/api/mod/bans/t2_bob', { method: 'DELETE' }),
+    ]) {
+      expect(res.status).toBe(403);
+      expect(((await res.json()) as ErrorResponse).code).toBe('FORBIDDEN');
+    }
+
+    services.context.userId = 't2_mod';
+    expect((await request('/api/mod/uploads')).status).toBe(200);
+    expect((await request('/api/mod/bans')).status).toBe(200);
+  });
+
+  it('lists uploads newest first, narrowed by uploader, type and limit', async () => {
+    const clock = createFakeClock();
+    const { services, request } = await startWithMod(clock);
+    const [png, gif] = await uploadEach(request, clock, IMAGE_FIXTURES.slice(0, 2));
+    services.context.userId = 't2_bob';
+    const [jpeg] = await uploadEach(request, clock, [IMAGE_FIXTURES[2]]);
+
+    services.context.userId = 't2_mod';
+    const all = await entriesOf(request);
+    expect(all.map((e) => e.mediaId)).toEqual([jpeg!.mediaId, gif!.mediaId, png!.mediaId]);
+    expect(all[0]).toEqual({
+      userId: 't2_bob',
+      username: 'bob',
+      mediaId: jpeg!.mediaId,
+      mediaUrl: jpeg!.mediaUrl,
+      mimeType: 'image/jpeg',
+      bytes: fixture('valid.jpg').length,
+      date: jpeg!.date,
+    });
+
+    expect((await entriesOf(request, '?limit=2')).map((e) => e.mediaId)).toEqual([
+      jpeg!.mediaId,
+      gif!.mediaId,
+    ]);
+    expect((await entriesOf(request, '?username=u/TESTER')).map((e) => e.mediaId)).toEqual([
+      gif!.mediaId,
+      png!.mediaId,
+    ]);
+    expect((await entriesOf(request, '?mimeType=image/gif')).map((e) => e.mediaId)).toEqual([
+      gif!.mediaId,
+    ]);
+  });
+
+  it('keeps only the most recent entries', async () => {
+    const { services, request } = await startWithMod();
+    const base = Date.parse('2025-01-01T00:00:00Z');
+    await runWithServices(services, async () => {
+      for (let i = 0; i <= MAX_LOG_ENTRIES; i++) {
+        await logUpload(services.context.subredditId, {
+          userId: 't2_tester',
+          username: 'tester',
+          mediaId: `seed${i}`,
+          mediaUrl: `https://i.redd.it/seed${i}.png`,
+          mimeType: 'image/png',
+          bytes: 1,
+          date: new Date(base + i * 1000).toISOString(),
+        });
+      }
+    });
+
+    services.context.userId = 't2_mod';
+    expect((await entriesOf(request, '?limit=1'))[0]!.mediaId).toBe(`seed${MAX_LOG_ENTRIES}`);
+    const kept = await runWithServices(services, () =>
+      listModLog(services.context.subredditId, { limit: MAX_LOG_ENTRIES + 1 })
+    );
+    expect(kept).toHaveLength(MAX_LOG_ENTRIES);
+    expect(kept.at(-1)!.mediaId).toBe('seed1');
+  });
+
+  it('stops banned users from uploading until they are unbanned', async () => {
+    const clock = createFakeClock();
+    const { services, request } = await startWithMod(clock);
+
+    services.context.userId = 't2_mod';
+    expect((await sendJson(request, 'POST', '/api/mod/bans', { username: '' })).status).toBe(400);
+    expect((await sendJson(request, 'POST', '/api/mod/bans', { username: 'nobody' })).status).toBe(
+      404
+    );
+    const banned = await sendJson(request, 'POST', '/api/mod/bans', {
+      username: 'u/bob',
+      reason: ' spam ',
+    });
+    expect(((await banned.json()) as UploadBansResponse).bans).toEqual([
+      {
+        userId: 't2_bob',
+        username: 'bob',
+        bannedBy: 'mod',
+        reason: 'spam',
+        date: new Date(clock.now()).toISOString(),
+      },
+    ]);
+
+    services.context.userId = 't2_bob';
+    for (const res of [
+      await uploadPng(request),
+      await sendJson(request, 'POST', '/api/upload-sessions', {
+        mimeType: 'image/png',
+        bytes: 100,
+        sha256: 'f'.repeat(64),
+      }),
+    ]) {
+      expect(res.status).toBe(403);
+      expect(((await res.json()) as ErrorResponse).code).toBe('BANNED');
+    }
+    expect(services.media.uploads).toHaveLength(0);
+
+    services.context.userId = 't2_mod';
+    const unbanned = await request('/api/mod/bans/t2_bob', { method: 'DELETE' });
+    expect(((await unbanned.json()) as UploadBansResponse).bans).toEqual([]);
+    expect((await request('/api/mod/bans/t2_bob', { method: 'DELETE' })).status).toBe(404);
+
+    services.context.userId = 't2_bob';
+    expect((await uploadPng(request)).status).toBe(200);
+  });
+});
+
+describe('PATCH and DELETE /api/my-images/:mediaId', () => {
+  const patchCaption = (request: Requester, mediaId: string, caption: string) =>
+    request(`/api/my-images/${mediaId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ caption }),
+    });
+
+  it('finds uploads by media id, and forgets them once deleted', async () => {
+    const { request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    const { mediaId } = upload.asset;
+
+    const res = await patchCaption(request, mediaId, 'Sunset');
+    expect(((await res.json()) as UpdateAssetResponse).asset.caption).toBe('Sunset');
+
+    expect((await request(`/api/my-images/${mediaId}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await patchCaption(request, mediaId, 'Again')).status).toBe(404);
+  });
+
+  it('indexes histories saved before the media id lookup existed', async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    await services.redis.del(`${services.context.userId}:ids`);
+
+    const res = await patchCaption(request, upload.asset.mediaId, 'Sunset');
+    expect(res.status).toBe(200);
+  });
+
+  it("doesn't find another user's uploads", async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    services.context.userId = 't2_someoneelse';
+    expect((await patchCaption(request, upload.asset.mediaId, 'Mine')).status).toBe(404);
+  });
+});
+
+describe('DELETE /api/my-images', () => {
+  it("deletes the current user's uploads and reports the ids it didn't find", async () => {
+    const clock = createFakeClock();
+    const { services, request } = await start(createMemoryServices(clock));
+    const [png, gif] = await uploadEach(request, clock, IMAGE_FIXTURES.slice(0, 2));
+    services.context.userId = 't2_someoneelse';
+    const [jpeg] = await uploadEach(request, clock, [IMAGE_FIXTURES[2]]);
+
+    services.context.userId = 't2_tester';
+    const res = await sendJson(request, 'DELETE', '/api/my-images', {
+      mediaIds: [png!.mediaId, jpeg!.mediaId, gif!.mediaId, 'missing'],
+    });
+    expect(await res.json()).toEqual({
+      type: 'deleteUploads',
+      deleted: [png!.mediaId, gif!.mediaId],
+      notFound: [jpeg!.mediaId, 'missing'],
+    });
+    const mine = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(mine.assets).toEqual([]);
+
+    // The other user's upload is untouched
+    services.context.userId = 't2_someoneelse';
+    const theirs = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(theirs.assets.map((a) => a.mediaId)).toEqual([jpeg!.mediaId]);
+  });
+
+  it('rejects empty and oversized id lists', async () => {
+    const { request } = await start();
+
+    expect((await sendJson(request, 'DELETE', '/api/my-images', { mediaIds: [] })).status).toBe(
+      400
+    );
+    const tooMany = await sendJson(request, 'DELETE', '/api/my-images', {
+      mediaIds: Array.from({ length: 101 }, (_, i) => `media${i}`),
+    });
+    expect(tooMany.status).toBe(400);
+  });
+});
+
+describe('albums', () => {
+  const createAlbum = async (request: Requester, name: string) => {
+    const res = await sendJson(request, 'POST', '/api/albums', { name });
+    expect(res.status).toBe(201);
+    return ((await res.json()) as AlbumResponse).album;
+  };
+
+  const listAlbum = async (request: Requester, albumId: string, query = '') =>
+    (await (
+      await request(`/api/my-images?album=${albumId}${query}`)
+    ).json()) as ListUploadsResponse;
+
+  it('creates, lists, renames and deletes albums', async () => {
+    const { request } = await start();
+
+    const trips = await createAlbum(request, '  Trips ');
+    expect(trips).toMatchObject({ name: 'Trips', count: 0 });
+    await createAlbum(request, 'Cats');
+
+    const res = await sendJson(request, 'POST', '/api/albums', { name: ' ' });
+    expect(res.status).toBe(400);
+    expect(((await res.json()) as ErrorResponse).code).toBe('INVALID_REQUEST');
+
+    const list = (await (await request('/api/albums')).json()) as AlbumsResponse;
+    expect(list.albums.map((a) => a.name)).toEqual(['Cats', 'Trips']);
+
+    const renamed = await sendJson(request, 'PATCH', `/api/albums/${trips.id}`, { name: 'Travel' });
+    expect(((await renamed.json()) as AlbumResponse).album).toMatchObject({
+      id: trips.id,
+      name: 'Travel',
+    });
+    expect((await sendJson(request, 'PATCH', '/api/albums/nope', { name: 'X' })).status).toBe(404);
+
+    const deleted = await request(`/api/albums/${trips.id}`, { method: 'DELETE' });
+    expect(((await deleted.json()) as AlbumsResponse).albums.map((a) => a.name)).toEqual(['Cats']);
+    expect((await request(`/api/albums/${trips.id}`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it("keeps each user's albums to themselves", async () => {
+    const { services, request } = await start();
+    const album = await createAlbum(request, 'Private');
+
+    services.context.userId = 't2_someoneelse';
+    expect(((await (await request('/api/albums')).json()) as AlbumsResponse).albums).toEqual([]);
+    expect(
+      (await sendJson(request, 'PATCH', `/api/albums/${album.id}`, { name: 'Mine' })).status
+    ).toBe(404);
+    expect((await request(`/api/my-images?album=${album.id}`)).status).toBe(404);
+  });
+
+  it('adds and removes uploads and pages through an album newest first', async () => {
+    const clock = createFakeClock();
+    const { request } = await start(createMemoryServices(clock));
+    const album = await createAlbum(request, 'Best');
+    const [png, gif, jpeg, webp] = await uploadEach(request, clock, IMAGE_FIXTURES);
+
+    const added = await sendJson(request, 'POST', `/api/albums/${album.id}/assets`, {
+      mediaIds: [png!.mediaId, jpeg!.mediaId, webp!.mediaId, 'missing'],
+    });
+    expect(((await added.json()) as AlbumResponse).album.count).toBe(3);
+
+    const first = await listAlbum(request, album.id, '&limit=2');
+    expect(first.assets.map((a) => a.mediaId)).toEqual([webp!.mediaId, jpeg!.mediaId]);
+    const second = await listAlbum(
+      request,
+      album.id,
+      `&limit=2&cursor=${encodeURIComponent(first.nextCursor!)}`
+    );
+    expect(second.assets.map((a) => a.mediaId)).toEqual([png!.mediaId]);
+    expect(second.nextCursor).toBeNull();
+
+    const removed = await sendJson(request, 'DELETE', `/api/albums/${album.id}/assets`, {
+      mediaIds: [jpeg!.mediaId],
+    });
+    expect(((await removed.json()) as AlbumResponse).album.count).toBe(2);
+
+    // Deleting an upload takes it out of its albums too
+    await request(`/api/my-images/${webp!.mediaId}`, { method: 'DELETE' });
+    const left = await listAlbum(request, album.id);
+    expect(left.assets.map((a) => a.mediaId)).toEqual([png!.mediaId]);
+    // Uploads never added stay out of the album
+    expect(left.assets.some((a) => a.mediaId === gif!.mediaId)).toBe(false);
+  });
+
+  it('files uploads under the album given with the upload', async () => {
+    const clock = createFakeClock();
+    const { request } = await start(createMemoryServices(clock));
+    const album = await createAlbum(request, 'Inbox');
+
+    const [asset] = await uploadEach(request, clock, [
+      { ...IMAGE_FIXTURES[0], headers: { 'X-Album-Id': album.id } },
+    ]);
+    expect((await listAlbum(request, album.id)).assets.map((a) => a.mediaId)).toEqual([
+      asset!.mediaId,
+    ]);
+
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/gif', 'X-Album-Id': 'missing' },
+      body: fixture('valid.gif'),
+    });
+    expect(res.status).toBe(404);
+  });
+
+  it('validates album asset requests', async () => {
+    const { request } = await start();
+    const album = await createAlbum(request, 'Best');
+
+    const empty = await sendJson(request, 'POST', `/api/albums/${album.id}/assets`, {
+      mediaIds: [],
+    });
+    expect(empty.status).toBe(400);
+    const tooMany = await sendJson(request, 'POST', `/api/albums/${album.id}/assets`, {
+      mediaIds: Array.from({ length: 101 }, (_, i) => `media${i}`),
+    });
+    expect(tooMany.status).toBe(400);
+    const unknown = await sendJson(request, 'POST', '/api/albums/missing/assets', {
+      mediaIds: ['media1'],
+    });
+    expect(unknown.status).toBe(404);
+  });
+
+  it('keeps uploads in the history when their album is deleted', async () => {
+    const { request } = await start();
+    const album = await createAlbum(request, 'Temp');
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    await sendJson(request, 'POST', `/api/albums/${album.id}/assets`, {
+      mediaIds: [upload.asset.mediaId],
+    });
+
+    await request(`/api/albums/${album.id}`, { method: 'DELETE' });
+    const history = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(history.assets.map((a) => a.mediaId)).toEqual([upload.asset.mediaId]);
+  });
+});
+
+describe('POST /api/my-images/import', () => {
+  const importAssets = async (request: Requester, assets: unknown) =>
+    sendJson(request, 'POST', '/api/my-images/import', { assets });
+
+  const listAll = async (request: Requester) =>
+    ((await (await request('/api/my-images')).json()) as ListUploadsResponse).assets;
+
+  const record = (n: number, extra: Record<string, unknown> = {}) => ({
+    mediaType: 'image',
+    mediaUrl: `https://i.redd.it/imported${n}.png`,
+    mediaId: `imported${n}`,
+    date: `2024-06-0${n}T12:00:00.000Z`,
+    ...extra,
+  });
+
+  it('restores an exported history', async () => {
+    const clock = createFakeClock();
+    const { request } = await start(createMemoryServices(clock));
+    await uploadEach(request, clock, [
+      { ...IMAGE_FIXTURES[0], headers: { 'X-Caption': 'Sunset', 'X-Tags': 'travel' } },
+      IMAGE_FIXTURES[1],
+    ]);
+    const exported = (await (await request('/api/my-images/export')).json()) as UploadedAsset[];
+    await sendJson(request, 'DELETE', '/api/my-images', {
+      mediaIds: exported.map((a) => a.mediaId),
+    });
+    expect(await listAll(request)).toEqual([]);
+
+    const res = await importAssets(request, exported);
+    expect(await res.json()).toEqual({ type: 'importUploads', imported: 2, skipped: [] });
+    // Everything but the content digest, which imports never carry over
+    expect(await listAll(request)).toEqual(exported.map(({ sha256: _, ...asset }) => asset));
+  });
+
+  it('merges into the existing history without overwriting it', async () => {
+    const { request } = await start();
+    const upload = ((await (await uploadPng(request)).json()) as UploadResponse).asset;
+
+    const res = await importAssets(request, [
+      { ...upload, caption: 'From the backup' },
+      record(1),
+      record(1, { caption: 'Listed twice' }),
+    ]);
+    expect(await res.json()).toEqual({
+      type: 'importUploads',
+      imported: 1,
+      skipped: [
+        { index: 0, reason: 'already in history' },
+        { index: 2, reason: 'already in history' },
+      ],
+    });
+
+    const assets = await listAll(request);
+    expect(assets.map((a) => a.mediaId)).toEqual([upload.mediaId, 'imported1']);
+    expect(assets[0]!.caption).toBeUndefined();
+    expect(assets[1]!.caption).toBeUndefined();
+  });
+
+  it('skips malformed records and drops unknown fields', async () => {
+    const { request } = await start();
+
+    const res = await importAssets(request, [
+      'not a record',
+      record(1, { mediaType: 'document' }),
+      record(2, { mediaUrl: 'http://i.redd.it/plain.png' }),
+      record(3, { date: 'last week' }),
+      record(4, { caption: 'x'.repeat(301) }),
+      record(5, { isAdmin: true, sha256: 'not-a-hash', tags: ['#Cats'] }),
+    ]);
+    expect(await res.json()).toEqual({
+      type: 'importUploads',
+      imported: 1,
+      skipped: [
+        { index: 0, reason: 'not an object' },
+        { index: 1, reason: 'mediaType must be image, gif or video' },
+        { index: 2, reason: 'mediaUrl must be an https URL on i.redd.it or v.redd.it' },
+        { index: 3, reason: 'date must be an ISO timestamp' },
+        { index: 4, reason: 'Caption must be at most 300 characters' },
+      ],
+    });
+    expect(await listAll(request)).toEqual([
+      {
+        mediaType: 'image',
+        mediaUrl: 'https://i.redd.it/imported5.png',
+        mediaId: 'imported5',
+        date: '2024-06-05T12:00:00.000Z',
+        tags: ['cats'],
+      },
+    ]);
+  });
+
+  it('only accepts media hosted by Reddit', async () => {
+    const { request } = await start();
+
+    const res = await importAssets(request, [
+      record(1, { mediaUrl: 'https://evil.example/i.redd.it/scam.png' }),
+      record(2, { mediaUrl: 'https://i.redd.it.evil.example/scam.png' }),
+      record(3, { thumbnailUrl: 'https://evil.example/thumb.png' }),
+    ]);
+    expect(await res.json()).toMatchObject({
+      imported: 1,
+      skipped: [{ index: 0 }, { index: 1 }],
+    });
+    const [asset] = await listAll(request);
+    expect(asset!.mediaId).toBe('imported3');
+    expect(asset!.thumbnailUrl).toBeUndefined();
+  });
+
+  it("doesn't let an imported digest capture later uploads of the same file", async () => {
+    const { services, request } = await start();
+    const sha256 = createHash('sha256').update(fixture('valid.png')).digest('hex');
+    await importAssets(request, [record(1, { sha256 })]);
+
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    expect(upload.duplicate).toBe(false);
+    expect(upload.asset.mediaId).toBe('media1');
+    expect(services.media.uploads).toHaveLength(1);
+  });
+
+  it('rejects requests without records or with too many', async () => {
+    const { request } = await start();
+
+    expect((await importAssets(request, [])).status).toBe(400);
+    expect((await importAssets(request, { 0: record(1) })).status).toBe(400);
+    const tooMany = await importAssets(
+      request,
+      Array.from({ length: 1001 }, (_, i) => i)
+    );
+    expect(tooMany.status).toBe(413);
+    expect(await listAll(request)).toEqual([]);
+  });
+});
+
+describe('post creation', () => {
+  it('creates the app post on install', async () => {
+    const { services, request } = await start();
+
+    const res = await request('/internal/on-app-install', { method: 'POST' });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({
+      status: 'success',
+      message: 'Post created in subreddit testsub with id t3_post1',
+    });
+    expect(services.reddit.posts).toEqual([
+      { id: 't3_post1', subredditName: 'testsub', title: 'Upload images to Reddit' },
+    ]);
+  });
+
+  it('navigates to the new post from the subreddit menu', async () => {
+    const { request } = await start();
+
+    const res = await request('/internal/menu/post-create', { method: 'POST' });
+    expect(await res.json()).toEqual({
+      navigateTo: 'https://reddit.com/r/testsub/comments/t3_post1',
+    });
+  });
+
+  it('reports Reddit failures', async () => {
+    const services = createMemoryServices();
+    services.reddit.submitCustomPost = () => Promise.reject(new Error('reddit is down'));
+    const { request } = await start(services);
+
+    const res = await request('/internal/on-app-install', { method: 'POST' });
+    expect(res.status).toBe(500);
+    expect(((await res.json()) as ErrorResponse).code).toBe('INTERNAL_ERROR');
+  });
+});
+
+describe('POST /api/publish', () => {
+  const publish = (request: Requester, body: Partial<PublishRequest>) =>
+    sendJson(request, 'POST', '/api/publish', body);
+
+  it('posts images as image posts and records the publication', async () => {
+    const clock = createFakeClock();
+    const { services, request } = await start(createMemoryServices(clock));
+    const [asset] = await uploadEach(request, clock, [IMAGE_FIXTURES[0]]);
+
+    clock.advance(60_000);
+    const res = await publish(request, { mediaId: asset!.mediaId, target: 'post', title: ' Cat ' });
+    expect(res.status).toBe(200);
+    const publication = {
+      target: 'post',
+      permalink: 'https://www.reddit.com/r/testsub/comments/post1/',
+      date: new Date(clock.now()).toISOString(),
+    };
+    expect(((await res.json()) as PublishResponse).asset.publications).toEqual([publication]);
+    // An image post carries the media itself rather than a link to it
+    expect(services.reddit.posts).toEqual([
+      { id: 't3_post1', subredditName: 'testsub', title: 'Cat' },
+    ]);
+
+    const history = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(history.assets[0]!.publications).toEqual([publication]);
+  });
+
+  it('posts videos as link posts', async () => {
+    const { services, request } = await start();
+    const uploaded = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'video/mp4' },
+      body: fixture('valid.mp4'),
+    });
+    const { asset } = (await uploaded.json()) as UploadResponse;
+
+    await publish(request, { mediaId: asset.mediaId, target: 'post', title: 'Clip' });
+    expect(services.reddit.posts).toEqual([
+      { id: 't3_post1', subredditName: 'testsub', title: 'Clip', url: asset.mediaUrl },
+    ]);
+  });
+
+  it('comments on the current post with a link to the media', async () => {
+    const { services, request } = await start();
+    const { asset } = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    const res = await publish(request, { mediaId: asset.mediaId, target: 'comment', body: 'Hi' });
+    expect(res.status).toBe(200);
+    expect(services.reddit.comments).toEqual([
+      { id: 't1_comment1', parentId: 't3_app', text: `Hi\n\n[image](${asset.mediaUrl})` },
+    ]);
+  });
+
+  it('only publishes the current user uploads', async () => {
+    const { services, request } = await start();
+    const { asset } = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    const unknown = await publish(request, { mediaId: 'media404', target: 'post', title: 'Hi' });
+    expect(unknown.status).toBe(404);
+    expect(((await unknown.json()) as ErrorResponse).code).toBe('NOT_FOUND');
+
+    services.context.userId = 't2_someoneelse';
+    const other = await publish(request, { mediaId: asset.mediaId, target: 'post', title: 'Hi' });
+    expect(other.status).toBe(404);
+    expect(services.reddit.posts).toEqual([]);
+  });
+
+  it('rejects posts without a title or a subreddit to post in', async () => {
+    const { services, request } = await start();
+    const { asset } = (await (await uploadPng(request)).json()) as UploadResponse;
+    const refusal = async (body: Partial<PublishRequest>) => {
+      const res = await publish(request, { mediaId: asset.mediaId, ...body });
+      expect(res.status).toBe(400);
+      return ((await res.json()) as ErrorResponse).message;
+    };
+
+    expect(await refusal({ target: 'post', title: '  ' })).toBe('A post needs a title');
+    expect(await refusal({ target: 'post', title: 'x'.repeat(MAX_TITLE_LENGTH + 1) })).toBe(
+      `Title must be at most ${MAX_TITLE_LENGTH} characters`
+    );
+    services.context.subredditName = '';
+    expect(await refusal({ target: 'post', title: 'Cat' })).toBe(
+      'Posts can only be published from inside a subreddit'
+    );
+    services.context.postId = undefined;
+    expect(await refusal({ target: 'comment' })).toBe(
+      'Comments can only be published from inside a post'
+    );
+    expect(services.reddit.posts).toEqual([]);
+    expect(services.reddit.comments).toEqual([]);
+  });
+});
+
+describe('community gallery', () => {
+  // A gallery post created by `t2_tester`, with `t2_visitor` as a second user
+  const startGallery = async (clock?: FakeClock) => {
+    const started = await start(createMemoryServices(clock));
+    const { services, request } = started;
+    services.reddit.users.push({ id: 't2_visitor', username: 'visitor' });
+    await request('/internal/menu/gallery-create', { method: 'POST' });
+    services.context.postId = 't3_post1';
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    return { ...started, mediaId: upload.asset.mediaId };
+  };
+
+  const share = (request: Requester, id: string) =>
+    request('/api/gallery', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mediaId: id }),
+    });
+
+  it('is off for posts that were not created as galleries', async () => {
+    const { services, request } = await start();
+
+    await request('/internal/menu/post-create', { method: 'POST' });
+    services.context.postId = 't3_post1';
+    const settings = (await (
+      await request('/api/gallery/settings')
+    ).json()) as GallerySettingsResponse;
+    expect(settings.settings.enabled).toBe(false);
+    expect((await request('/api/gallery')).status).toBe(404);
+  });
+
+  it('lets every visitor browse shared uploads with uploader names', async () => {
+    const { services, request, mediaId } = await startGallery();
+
+    const shared = (await (await share(request, mediaId)).json()) as GalleryEntryResponse;
+    expect(shared.entry).toMatchObject({ mediaId, username: 'tester', votes: 0, sharedByMe: true });
+
+    services.context.userId = 't2_visitor';
+    const page = (await (await request('/api/gallery')).json()) as GalleryResponse;
+    expect(page.entries).toHaveLength(1);
+    expect(page.entries[0]).toMatchObject({ mediaId, username: 'tester', sharedByMe: false });
+  });
+
+  it('only shares the current user uploads', async () => {
+    const { services, request, mediaId } = await startGallery();
+
+    services.context.userId = 't2_visitor';
+    const res = await share(request, mediaId);
+    expect(res.status).toBe(404);
+  });
+
+  it('counts one upvote per user and orders top entries by votes', async () => {
+    const { services, request, mediaId } = await startGallery();
+    await share(request, mediaId);
+    const gif = (await (
+      await request('/api/upload-image', {
+        method: 'POST',
+        headers: { 'Content-Type': 'image/gif' },
+        body: fixture('valid.gif'),
+      })
+    ).json()) as UploadResponse;
+    await share(request, gif.asset.mediaId);
+
+    services.context.userId = 't2_visitor';
+    await request(`/api/gallery/${mediaId}/vote`, { method: 'PUT' });
+    const again = (await (
+      await request(`/api/gallery/${mediaId}/vote`, { method: 'PUT' })
+    ).json()) as GalleryEntryResponse;
+    expect(again.entry).toMatchObject({ votes: 1, votedByMe: true });
+
+    const top = (await (await request('/api/gallery?sort=top')).json()) as GalleryResponse;
+    expect(top.entries.map((e) => e.mediaId)).toEqual([mediaId, gif.asset.mediaId]);
+    const newest = (await (await request('/api/gallery?sort=new')).json()) as GalleryResponse;
+    expect(newest.entries.map((e) => e.mediaId)).toEqual([gif.asset.mediaId, mediaId]);
+
+    const withdrawn = (await (
+      await request(`/api/gallery/${mediaId}/vote`, { method: 'DELETE' })
+    ).json()) as GalleryEntryResponse;
+    expect(withdrawn.entry).toMatchObject({ votes: 0, votedByMe: false });
+  });
+
+  it('lets the post author and moderators remove entries, but not other visitors', async () => {
+    const { services, request, mediaId } = await startGallery();
+    await share(request, mediaId);
+    services.reddit.users.push({ id: 't2_mod', username: 'mod' });
+
+    services.context.userId = 't2_visitor';
+    expect((await request(`/api/gallery/${mediaId}`, { method: 'DELETE' })).status).toBe(403);
+
+    services.reddit.moderators.push('mod');
+    services.context.userId = 't2_mod';
+    expect((await request(`/api/gallery/${mediaId}`, { method: 'DELETE' })).status).toBe(200);
+    const page = (await (await request('/api/gallery')).json()) as GalleryResponse;
+    expect(page.entries).toEqual([]);
+  });
+
+  it('takes deleted and expired uploads out of every gallery they were shared to', async () => {
+    const clock = createFakeClock();
+    const { services, request, mediaId } = await startGallery(clock);
+    const entryIds = async (postId: `t3_${string}`) => {
+      services.context.postId = postId;
+      const page = (await (await request('/api/gallery')).json()) as GalleryResponse;
+      return page.entries.map((e) => e.mediaId);
+    };
+    const shared = (await (await share(request, mediaId)).json()) as GalleryEntryResponse;
+    expect(shared.entry.date).toBe(new Date(clock.now()).toISOString());
+    await request('/internal/menu/gallery-create', { method: 'POST' });
+    services.context.postId = 't3_post2';
+    await share(request, mediaId);
+    const [gif, jpeg] = await uploadEach(request, clock, IMAGE_FIXTURES.slice(1, 3));
+    await share(request, gif!.mediaId);
+    const expiring = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/webp', 'X-Expires-In': '1d' },
+      body: fixture('valid-lossy.webp'),
+    });
+    const webp = ((await expiring.json()) as UploadResponse).asset;
+    await share(request, webp.mediaId);
+    expect(await entryIds('t3_post2')).toEqual([webp.mediaId, gif!.mediaId, mediaId]);
+
+    await request(`/api/my-images/${mediaId}`, { method: 'DELETE' });
+    expect(await entryIds('t3_post1')).toEqual([]);
+    expect(await entryIds('t3_post2')).toEqual([webp.mediaId, gif!.mediaId]);
+
+    await sendJson(request, 'DELETE', '/api/my-images', {
+      mediaIds: [gif!.mediaId, jpeg!.mediaId],
+    });
+    expect(await entryIds('t3_post2')).toEqual([webp.mediaId]);
+
+    clock.advance(24 * 60 * 60 * 1000);
+    await request('/internal/scheduler/sweep-expired-uploads', { method: 'POST' });
+    expect(await entryIds('t3_post2')).toEqual([]);
+  });
+
+  it('lets only the post author and moderators turn the gallery off', async () => {
+    const { services, request } = await startGallery();
+    const toggle = (enabled: boolean) =>
+      request('/api/gallery/settings', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled }),
+      });
+
+    services.context.userId = 't2_visitor';
+    expect((await toggle(false)).status).toBe(403);
+
+    services.context.userId = 't2_tester';
+    const res = (await (await toggle(false)).json()) as GallerySettingsResponse;
+    expect(res).toEqual({ type: 'gallerySettings', settings: { enabled: false }, canManage: true });
+    expect((await request('/api/gallery')).status).toBe(404);
+  });
+});
+
+describe('expiring uploads', () => {
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const startWithClock = async () => {
+    const clock = createFakeClock();
+    return { clock, ...(await start(createMemoryServices(clock))) };
+  };
+
+  const uploadFixture = async (request: Requester, name: string, expiresIn?: string) => {
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: {
+        'Content-Type': name.endsWith('.gif')
+          ? 'image/gif'
+          : name.endsWith('.webp')
+            ? 'image/webp'
+            : 'image/png',
+        ...(expiresIn ? { 'X-Expires-In': expiresIn } : {}),
+      },
+      body: fixture(name),
+    });
+    return (await res.json()) as UploadResponse;
+  };
+
+  const listIds = async (request: Requester) =>
+    ((await (await request('/api/my-images')).json()) as ListUploadsResponse).assets.map(
+      (a) => a.mediaId
+    );
+
+  const sweep = async (request: Requester) =>
+    (await (
+      await request('/internal/scheduler/sweep-expired-uploads', { method: 'POST' })
+    ).json()) as { status: string; message: string };
+
+  it('stores the expiry and hides the upload once it passes', async () => {
+    const { clock, request } = await startWithClock();
+
+    const upload = await uploadFixture(request, 'valid.png', '1d');
+    expect(upload.asset.expiresAt).toBe(new Date(clock.now() + DAY_MS).toISOString());
+    expect(await listIds(request)).toEqual([upload.asset.mediaId]);
+
+    clock.advance(DAY_MS);
+    expect(await listIds(request)).toEqual([]);
+  });
+
+  it('sweeps expired uploads and leaves the rest', async () => {
+    const { clock, request } = await startWithClock();
+
+    const shortLived = await uploadFixture(request, 'valid.png', '1d');
+    const weekLong = await uploadFixture(request, 'valid.gif', '7d');
+    const kept = await uploadFixture(request, 'valid-lossless.webp');
+
+    expect((await sweep(request)).message).toBe('Removed 0 expired uploads');
+    clock.advance(2 * DAY_MS);
+    expect((await sweep(request)).message).toBe('Removed 1 expired upload');
+    expect(await listIds(request)).toEqual([kept.asset.mediaId, weekLong.asset.mediaId]);
+
+    // The swept file can be uploaded again as a new entry
+    const again = await uploadFixture(request, 'valid.png');
+    expect(again.duplicate).toBe(false);
+    expect(again.asset.mediaId).not.toBe(shortLived.asset.mediaId);
+  });
+
+  it('keeps a re-upload of an expired file when the old entry is swept', async () => {
+    const { clock, request } = await startWithClock();
+
+    await uploadFixture(request, 'valid.png', '1d');
+    clock.advance(DAY_MS);
+    const again = await uploadFixture(request, 'valid.png');
+    expect(again.duplicate).toBe(false);
+
+    await sweep(request);
+    const third = await uploadFixture(request, 'valid.png');
+    expect(third.duplicate).toBe(true);
+    expect(await listIds(request)).toEqual([again.asset.mediaId]);
+  });
+
+  it('sweeps in bounded batches', async () => {
+    const { clock, services, request } = await startWithClock();
+
+    for (const name of ['valid.png', 'valid.gif']) await uploadFixture(request, name, '1d');
+    clock.advance(DAY_MS);
+
+    const first = await runWithServices(services, () =>
+      sweepExpiredUploads(clock.now(), { batchSize: 1, maxBatches: 1 })
+    );
+    expect(first).toEqual({ removed: 1, more: true });
+    const second = await runWithServices(services, () =>
+      sweepExpiredUploads(clock.now(), { batchSize: 1, maxBatches: 5 })
+    );
+    expect(second).toEqual({ removed: 1, more: false });
+  });
+
+  it('rejects unknown expiry choices', async () => {
+    const { request } = await startWithClock();
+
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/png', 'X-Expires-In': '3d' },
+      body: fixture('valid.png'),
+    });
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects inherited property names as expiry choices without storing anything', async () => {
+    const { services, request } = await startWithClock();
+
+    const res = await request('/api/upload-image', {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/png', 'X-Expires-In': 'constructor' },
+      body: fixture('valid.png'),
+    });
+    expect(res.status).toBe(400);
+
+    const session = await request('/api/upload-sessions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        mimeType: 'image/png',
+        bytes: 10,
+        sha256: '0'.repeat(64),
+        expiresIn: 'toString',
+      }),
+    });
+    expect(session.status).toBe(400);
+    expect(services.media.uploads).toHaveLength(0);
+  });
+});
+
+describe('PUT /api/my-images/:mediaId/thumbnail', () => {
+  const putThumbnail = (request: Requester, mediaId: string, type: string, name: string) =>
+    request(`/api/my-images/${mediaId}/thumbnail`, {
+      method: 'PUT',
+      headers: { 'Content-Type': type },
+      body: fixture(name),
+    });
+
+  it('stores the thumbnail URL on the upload', async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    const res = await putThumbnail(request, upload.asset.mediaId, 'image/webp', 'valid-lossy.webp');
+    expect(res.status).toBe(200);
+    const { asset } = (await res.json()) as UpdateAssetResponse;
+    expect(services.media.uploads).toHaveLength(2);
+    expect(asset.thumbnailUrl).toBe('https://i.redd.it/media2.png');
+
+    const list = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(list.assets[0]!.thumbnailUrl).toBe(asset.thumbnailUrl);
+  });
+
+  it('stores only one thumbnail per upload', async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    await putThumbnail(request, upload.asset.mediaId, 'image/webp', 'valid-lossy.webp');
+    const res = await putThumbnail(request, upload.asset.mediaId, 'image/jpeg', 'valid.jpg');
+    expect(res.status).toBe(409);
+    expect(services.media.uploads).toHaveLength(2);
+  });
+
+  it('stores one thumbnail when requests for the same upload overlap', async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    const store = services.media.upload;
+    services.media.upload = async (opts) => {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      return store(opts);
+    };
+
+    const results = await Promise.all([
+      putThumbnail(request, upload.asset.mediaId, 'image/webp', 'valid-lossy.webp'),
+      putThumbnail(request, upload.asset.mediaId, 'image/jpeg', 'valid.jpg'),
+    ]);
+    expect(results.map((r) => r.status).sort()).toEqual([200, 409]);
+    expect(services.media.uploads).toHaveLength(2);
+  });
+
+  it('lets the thumbnail be sent again after the media service fails', async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    const store = services.media.upload;
+    services.media.upload = () => Promise.reject(new Error('media service down'));
+
+    const failed = await putThumbnail(request, upload.asset.mediaId, 'image/jpeg', 'valid.jpg');
+    expect(failed.status).toBe(502);
+    services.media.upload = store;
+    const res = await putThumbnail(request, upload.asset.mediaId, 'image/jpeg', 'valid.jpg');
+    expect(res.status).toBe(200);
+  });
+
+  it('only accepts WebP and JPEG', async () => {
+    const { request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    const res = await putThumbnail(request, upload.asset.mediaId, 'image/png', 'valid.png');
+    expect(res.status).toBe(415);
+    expect(((await res.json()) as ErrorResponse).code).toBe('UNSUPPORTED_TYPE');
+  });
+
+  it('rejects malformed thumbnails', async () => {
+    const { request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    const res = await putThumbnail(request, upload.asset.mediaId, 'image/jpeg', 'truncated.jpg');
+    expect(((await res.json()) as ErrorResponse).code).toBe('INVALID_IMAGE');
+  });
+
+  it("can't attach thumbnails to another user's uploads", async () => {
+    const { services, request } = await start();
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+
+    services.context.userId = 't2_someoneelse';
+    const res = await putThumbnail(request, upload.asset.mediaId, 'image/jpeg', 'valid.jpg');
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('live history sync', () => {
+  const getChannel = async (request: Requester) =>
+    ((await (await request('/api/my-images/channel')).json()) as HistoryChannelResponse).channel;
+
+  it('gives each user their own unguessable channel', async () => {
+    const { services, request } = await start();
+
+    const channel = await getChannel(request);
+    expect(channel).toMatch(/^history_[0-9a-f]{32}$/);
+    expect(await getChannel(request)).toBe(channel);
+
+    services.context.userId = 't2_someoneelse';
+    expect(await getChannel(request)).not.toBe(channel);
+  });
+
+  it('publishes uploads, edits and deletes to the uploader channel', async () => {
+    const { services, request } = await start();
+    const events: HistoryEvent[] = [];
+    services.realtime.subscribe(await getChannel(request), (msg) =>
+      events.push(msg as HistoryEvent)
+    );
+
+    const upload = (await (await uploadPng(request)).json()) as UploadResponse;
+    const { mediaId } = upload.asset;
+    await request(`/api/my-images/${mediaId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ caption: 'Sunset' }),
+    });
+    await request(`/api/my-images/${mediaId}`, { method: 'DELETE' });
+
+    expect(events).toEqual([
+      { type: 'saved', asset: upload.asset },
+      { type: 'saved', asset: expect.objectContaining({ mediaId, caption: 'Sunset' }) },
+      { type: 'removed', mediaIds: [mediaId] },
+    ]);
+  });
+
+  it('skips publishing until a client has asked for the channel', async () => {
+    const { services, request } = await start();
+
+    await uploadPng(request);
+    expect(services.realtime.sent).toEqual([]);
+  });
+
+  it('still stores the upload when realtime is unavailable', async () => {
+    const services = createMemoryServices();
+    services.realtime.send = async () => {
+      throw new Error('realtime down');
+    };
+    const { request } = await start(services);
+    await getChannel(request);
+
+    const res = await uploadPng(request);
+    expect(res.status).toBe(200);
+    const list = (await (await request('/api/my-images')).json()) as ListUploadsResponse;
+    expect(list.assets).toHaveLength(1);
+  });
+});
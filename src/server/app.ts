@@ -0,0 +1,1304 @@
+import express from 'express';
+import {
+  UploadResponse,
+  ListUploadsResponse,
+  DeleteUploadsRequest,
+  DeleteUploadsResponse,
+  QuotaResponse,
+  PolicyResponse,
+  UpdatePolicyRequest,
+  ModUploadsResponse,
+  UploadBansResponse,
+  BanUploaderRequest,
+  AlbumsResponse,
+  AlbumResponse,
+  AlbumRequest,
+  AlbumAssetsRequest,
+  UpdateAssetRequest,
+  UpdateAssetResponse,
+  UploadSearch,
+  AssetDetails,
+  PublishRequest,
+  ImportUploadsRequest,
+  ImportUploadsResponse,
+  PublishResponse,
+  UploadSessionRequest,
+  UploadSessionResponse,
+  GalleryResponse,
+  GalleryEntryResponse,
+  GallerySettings,
+  GallerySettingsResponse,
+  GallerySort,
+  ShareToGalleryRequest,
+  HistoryChannelResponse,
+  ErrorResponse,
+} from '../shared/types/api';
+import { MAX_VIDEO_BYTES, isMediaMimeType, isUploadExpiry } from '../shared/policy';
+import { exportAssets, isExportFormat } from '../shared/formats';
+import type { UiResponse } from '@devvit/web/shared';
+import { clock, context, reddit, runWithServices, type ServerDeps } from './services';
+import { sendError } from './errors';
+import { canManagePost, createPost, getPostConfig, setGalleryEnabled } from './core/post';
+import {
+  getGalleryEntry,
+  listGallery,
+  removeFromGallery,
+  removeSharedUploads,
+  setVote,
+  shareToGallery,
+} from './core/gallery';
+import {
+  addPublication,
+  findUploads,
+  listAllUploads,
+  listUploads,
+  removeUploads,
+  updateUpload,
+} from './core/uploads';
+import { parseAssetDetails } from './core/details';
+import { publishAsset, validatePublish } from './core/publish';
+import { MAX_IMPORT_RECORDS, importUploads } from './core/importUploads';
+import {
+  checkUploadQuota,
+  ingestUpload,
+  precheckUpload,
+  type UploadFailure,
+  type UploadMeta,
+} from './core/ingest';
+import {
+  UPLOAD_CHUNK_BYTES,
+  assembleUpload,
+  checkUploadSessionLimits,
+  createUploadSession,
+  deleteUploadSession,
+  getUploadSession,
+  receivedChunks,
+  saveChunk,
+  sessionResponse,
+} from './core/uploadSessions';
+import { sweepExpiredUploads } from './core/expiry';
+import { saveThumbnail } from './core/thumbnails';
+import { getHistoryChannel } from './core/historyEvents';
+import { getQuota } from './core/quota';
+import {
+  getPolicy,
+  policyForm,
+  policyUpdateFromForm,
+  updatePolicy,
+  type PolicyFormValues,
+} from './core/policy';
+import { isModerator } from './core/moderators';
+import { banUploader, getBan, listBans, listModLog, unbanUploader } from './core/modlog';
+import {
+  addToAlbum,
+  createAlbum,
+  deleteAlbum,
+  getAlbum,
+  listAlbums,
+  removeFromAlbum,
+  renameAlbum,
+  validateAlbumName,
+} from './core/albums';
+
+// Routes are shared by every app instance; the services they use come from `createApp`
+const router = express.Router();
+
+// Removed counter routes (/api/init, /api/increment, /api/decrement)
+
+router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
+  try {
+    const post = await createPost();
+
+    res.json({
+      status: 'success',
+      message: `Post created in subreddit ${context.subredditName} with id ${post.id}`,
+    });
+  } catch (error) {
+    console.error(`Error creating post: ${error}`);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create post');
+  }
+});
+
+router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
+  try {
+    const post = await createPost();
+
+    res.json({
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+    });
+  } catch (error) {
+    console.error(`Error creating post: ${error}`);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create post');
+  }
+});
+
+router.post('/internal/menu/gallery-create', async (_req, res): Promise<void> => {
+  try {
+    const post = await createPost({ gallery: true });
+
+    res.json({
+      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`,
+    });
+  } catch (error) {
+    console.error(`Error creating gallery post: ${error}`);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create post');
+  }
+});
+
+// Scheduled (see devvit.json): clears expired uploads out of everyone's history
+router.post('/internal/scheduler/sweep-expired-uploads', async (_req, res): Promise<void> => {
+  try {
+    const { removed, more } = await sweepExpiredUploads(clock.now());
+    res.json({
+      status: 'success',
+      message: `Removed ${removed} expired upload${removed === 1 ? '' : 's'}${more ? '; more remain' : ''}`,
+    });
+  } catch (error) {
+    console.error(`Error sweeping expired uploads: ${error}`);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to sweep expired uploads');
+  }
+});
+
+router.get<
+  Record<string, never>,
+  ListUploadsResponse | ErrorResponse,
+  unknown,
+  { cursor?: string; limit?: string; album?: string } & UploadSearch
+>('/api/my-images', async (req, res): Promise<void> => {
+  try {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+    const { cursor, limit, album, q, tag, type, from, to } = req.query;
+    const parsedLimit = limit === undefined ? undefined : Number(limit);
+    if (parsedLimit !== undefined && !Number.isInteger(parsedLimit)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'limit must be an integer');
+      return;
+    }
+    if (type !== undefined && !isMediaMimeType(type)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'type must be an image or video MIME type');
+      return;
+    }
+    if ([from, to].some((d) => d !== undefined && Number.isNaN(Date.parse(d)))) {
+      sendError(res, 400, 'INVALID_REQUEST', 'from and to must be ISO dates');
+      return;
+    }
+    const search: UploadSearch = {
+      ...(typeof q === 'string' && q.trim() ? { q: q.trim() } : {}),
+      ...(typeof tag === 'string' && tag.trim() ? { tag: tag.trim().replace(/^#+/, '') } : {}),
+      ...(type ? { type } : {}),
+      ...(from ? { from } : {}),
+      ...(to ? { to } : {}),
+    };
+    const albumId = typeof album === 'string' && album ? album : undefined;
+    if (albumId && !(await getAlbum(context.userId, albumId))) {
+      sendError(res, 404, 'NOT_FOUND', 'Album not found');
+      return;
+    }
+    const page = await listUploads(context.userId, {
+      cursor: typeof cursor === 'string' ? cursor : undefined,
+      limit: parsedLimit,
+      albumId,
+      search,
+    });
+    res.json({ type: 'listUploads', ...page });
+  } catch (error) {
+    console.error('List uploads error:', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch uploads');
+  }
+});
+
+// Upper bound on ids accepted by the bulk delete and album routes
+const MAX_BULK_DELETE = 100;
+
+const isMediaIdList = (value: unknown): value is string[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.length <= MAX_BULK_DELETE &&
+  value.every((id) => typeof id === 'string' && id.length > 0);
+
+const EXPORT_CONTENT_TYPES = {
+  json: 'application/json',
+  csv: 'text/csv',
+  markdown: 'text/markdown',
+} as const;
+
+const EXPORT_EXTENSIONS = { json: 'json', csv: 'csv', markdown: 'md' } as const;
+
+router.get<
+  Record<string, never>,
+  string | ErrorResponse,
+  unknown,
+  {
+    format?: string;
+  }
+>('/api/my-images/export', async (req, res): Promise<void> => {
+  try {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+    const format = req.query.format ?? 'json';
+    if (!isExportFormat(format)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'format must be json, csv or markdown');
+      return;
+    }
+    const assets = await listAllUploads(context.userId);
+    res.setHeader('Content-Type', `${EXPORT_CONTENT_TYPES[format]}; charset=utf-8`);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="image-drop-history.${EXPORT_EXTENSIONS[format]}"`
+    );
+    res.send(exportAssets(assets, format));
+  } catch (error) {
+    console.error('Export uploads error:', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to export uploads');
+  }
+});
+
+// The realtime channel on which History hears about uploads made in the user's other sessions
+router.get<Record<string, never>, HistoryChannelResponse | ErrorResponse>(
+  '/api/my-images/channel',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      res.json({ type: 'historyChannel', channel: await getHistoryChannel(context.userId) });
+    } catch (error) {
+      console.error('History channel error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to get history channel');
+    }
+  }
+);
+
+router.post<Record<string, never>, ImportUploadsResponse | ErrorResponse, ImportUploadsRequest>(
+  '/api/my-images/import',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const records = req.body?.assets;
+      if (!Array.isArray(records) || records.length === 0) {
+        sendError(res, 400, 'INVALID_REQUEST', 'assets must be a non-empty array');
+        return;
+      }
+      if (records.length > MAX_IMPORT_RECORDS) {
+        sendError(
+          res,
+          413,
+          'TOO_LARGE',
+          `At most ${MAX_IMPORT_RECORDS} records can be imported at once`
+        );
+        return;
+      }
+      const result = await importUploads(context.userId, records);
+      res.json({ type: 'importUploads', ...result });
+    } catch (error) {
+      console.error('Import uploads error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to import uploads');
+    }
+  }
+);
+
+router.patch<{ mediaId: string }, UpdateAssetResponse | ErrorResponse, UpdateAssetRequest>(
+  '/api/my-images/:mediaId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const parsed = parseAssetDetails(req.body ?? {});
+      if ('error' in parsed) {
+        sendError(res, 400, 'INVALID_REQUEST', parsed.error);
+        return;
+      }
+      const asset = await updateUpload(context.userId, req.params.mediaId, parsed.details);
+      if (!asset) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload not found');
+        return;
+      }
+      res.json({ type: 'asset', asset });
+    } catch (error) {
+      console.error('Update upload error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update upload');
+    }
+  }
+);
+
+// Raw image body, sent by the client once the original has uploaded
+router.put<{ mediaId: string }, UpdateAssetResponse | ErrorResponse>(
+  '/api/my-images/:mediaId/thumbnail',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const body = req.body as Buffer | undefined;
+      if (!body || !Buffer.isBuffer(body) || body.length === 0) {
+        sendError(res, 400, 'INVALID_REQUEST', 'Empty or invalid request body');
+        return;
+      }
+      const result = await saveThumbnail(
+        context.userId,
+        req.params.mediaId,
+        body,
+        req.headers['content-type']
+      );
+      if ('failure' in result) {
+        sendUploadFailure(res, result.failure);
+        return;
+      }
+      res.json({ type: 'asset', asset: result.asset });
+    } catch (error) {
+      console.error('Thumbnail error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to save thumbnail');
+    }
+  }
+);
+
+router.delete<{ mediaId: string }, DeleteUploadsResponse | ErrorResponse>(
+  '/api/my-images/:mediaId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const result = await removeUploads(context.userId, [req.params.mediaId]);
+      if (result.deleted.length === 0) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload not found');
+        return;
+      }
+      await removeSharedUploads(context.userId, result.deleted);
+      res.json({ type: 'deleteUploads', ...result });
+    } catch (error) {
+      console.error('Delete upload error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to delete upload');
+    }
+  }
+);
+
+router.delete<Record<string, never>, DeleteUploadsResponse | ErrorResponse, DeleteUploadsRequest>(
+  '/api/my-images',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const mediaIds = req.body?.mediaIds;
+      if (!isMediaIdList(mediaIds)) {
+        sendError(
+          res,
+          400,
+          'INVALID_REQUEST',
+          `mediaIds must be 1-${MAX_BULK_DELETE} non-empty strings`
+        );
+        return;
+      }
+      const result = await removeUploads(context.userId, mediaIds);
+      await removeSharedUploads(context.userId, result.deleted);
+      res.json({ type: 'deleteUploads', ...result });
+    } catch (error) {
+      console.error('Bulk delete error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to delete uploads');
+    }
+  }
+);
+
+router.get<Record<string, never>, AlbumsResponse | ErrorResponse>(
+  '/api/albums',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      res.json({ type: 'albums', albums: await listAlbums(context.userId) });
+    } catch (error) {
+      console.error('List albums error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch albums');
+    }
+  }
+);
+
+router.post<Record<string, never>, AlbumResponse | ErrorResponse, AlbumRequest>(
+  '/api/albums',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const name = validateAlbumName(req.body?.name);
+      if ('error' in name) {
+        sendError(res, 400, 'INVALID_REQUEST', name.error);
+        return;
+      }
+      const result = await createAlbum(context.userId, name.name);
+      if ('error' in result) {
+        sendError(res, 400, 'INVALID_REQUEST', result.error);
+        return;
+      }
+      res.status(201).json({ type: 'album', album: result.album });
+    } catch (error) {
+      console.error('Create album error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to create album');
+    }
+  }
+);
+
+router.patch<{ albumId: string }, AlbumResponse | ErrorResponse, AlbumRequest>(
+  '/api/albums/:albumId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const name = validateAlbumName(req.body?.name);
+      if ('error' in name) {
+        sendError(res, 400, 'INVALID_REQUEST', name.error);
+        return;
+      }
+      const album = await renameAlbum(context.userId, req.params.albumId, name.name);
+      if (!album) {
+        sendError(res, 404, 'NOT_FOUND', 'Album not found');
+        return;
+      }
+      res.json({ type: 'album', album });
+    } catch (error) {
+      console.error('Rename album error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to rename album');
+    }
+  }
+);
+
+router.delete<{ albumId: string }, AlbumsResponse | ErrorResponse>(
+  '/api/albums/:albumId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      if (!(await deleteAlbum(context.userId, req.params.albumId))) {
+        sendError(res, 404, 'NOT_FOUND', 'Album not found');
+        return;
+      }
+      res.json({ type: 'albums', albums: await listAlbums(context.userId) });
+    } catch (error) {
+      console.error('Delete album error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to delete album');
+    }
+  }
+);
+
+router.post<{ albumId: string }, AlbumResponse | ErrorResponse, AlbumAssetsRequest>(
+  '/api/albums/:albumId/assets',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const mediaIds = req.body?.mediaIds;
+      if (!isMediaIdList(mediaIds)) {
+        sendError(
+          res,
+          400,
+          'INVALID_REQUEST',
+          `mediaIds must be 1-${MAX_BULK_DELETE} non-empty strings`
+        );
+        return;
+      }
+      const { albumId } = req.params;
+      if (!(await getAlbum(context.userId, albumId))) {
+        sendError(res, 404, 'NOT_FOUND', 'Album not found');
+        return;
+      }
+      await addToAlbum(context.userId, albumId, mediaIds);
+      res.json({ type: 'album', album: (await getAlbum(context.userId, albumId))! });
+    } catch (error) {
+      console.error('Add to album error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to add to album');
+    }
+  }
+);
+
+router.delete<{ albumId: string }, AlbumResponse | ErrorResponse, AlbumAssetsRequest>(
+  '/api/albums/:albumId/assets',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const mediaIds = req.body?.mediaIds;
+      if (!isMediaIdList(mediaIds)) {
+        sendError(
+          res,
+          400,
+          'INVALID_REQUEST',
+          `mediaIds must be 1-${MAX_BULK_DELETE} non-empty strings`
+        );
+        return;
+      }
+      const { albumId } = req.params;
+      if (!(await getAlbum(context.userId, albumId))) {
+        sendError(res, 404, 'NOT_FOUND', 'Album not found');
+        return;
+      }
+      await removeFromAlbum(context.userId, albumId, mediaIds);
+      res.json({ type: 'album', album: (await getAlbum(context.userId, albumId))! });
+    } catch (error) {
+      console.error('Remove from album error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to remove from album');
+    }
+  }
+);
+
+router.post<Record<string, never>, PublishResponse | ErrorResponse, PublishRequest>(
+  '/api/publish',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      const request = req.body ?? {};
+      const invalid = validatePublish(request);
+      if (invalid) {
+        sendError(res, 400, 'INVALID_REQUEST', invalid);
+        return;
+      }
+      if (await getBan(context.subredditId, context.userId)) {
+        sendError(res, 403, 'BANNED', 'You are banned from uploading images in this community');
+        return;
+      }
+      const asset = (await findUploads(context.userId, [request.mediaId])).get(request.mediaId);
+      if (!asset) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload not found');
+        return;
+      }
+      const publication = await publishAsset(asset, request);
+      const updated = await addPublication(context.userId, asset, publication);
+      res.json({ type: 'publish', asset: updated, publication });
+    } catch (error) {
+      console.error('Publish error:', error);
+      sendError(res, 502, 'UPSTREAM_REDDIT_ERROR', 'Failed to publish to Reddit');
+    }
+  }
+);
+
+// Community gallery: opt-in per post, keyed by the post the app is running in
+router.get<Record<string, never>, GallerySettingsResponse | ErrorResponse>(
+  '/api/gallery/settings',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!context.postId) {
+        sendError(res, 400, 'INVALID_REQUEST', 'Not running in a post');
+        return;
+      }
+      const [config, canManage] = await Promise.all([
+        getPostConfig(context.postId),
+        context.userId ? canManagePost(context.postId) : false,
+      ]);
+      res.json({ type: 'gallerySettings', settings: { enabled: config.enabled }, canManage });
+    } catch (error) {
+      console.error('Gallery settings error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch gallery settings');
+    }
+  }
+);
+
+router.put<Record<string, never>, GallerySettingsResponse | ErrorResponse, GallerySettings>(
+  '/api/gallery/settings',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      if (!context.postId) {
+        sendError(res, 400, 'INVALID_REQUEST', 'Not running in a post');
+        return;
+      }
+      if (typeof req.body?.enabled !== 'boolean') {
+        sendError(res, 400, 'INVALID_REQUEST', 'enabled must be a boolean');
+        return;
+      }
+      if (!(await canManagePost(context.postId))) {
+        sendError(res, 403, 'FORBIDDEN', 'Only the post author and moderators can do that');
+        return;
+      }
+      const config = await setGalleryEnabled(context.postId, req.body.enabled);
+      res.json({ type: 'gallerySettings', settings: { enabled: config.enabled }, canManage: true });
+    } catch (error) {
+      console.error('Update gallery settings error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update gallery settings');
+    }
+  }
+);
+
+router.get<
+  Record<string, never>,
+  GalleryResponse | ErrorResponse,
+  unknown,
+  { sort?: string; cursor?: string; limit?: string }
+>('/api/gallery', async (req, res): Promise<void> => {
+  try {
+    if (!context.postId) {
+      sendError(res, 400, 'INVALID_REQUEST', 'Not running in a post');
+      return;
+    }
+    const { sort, cursor, limit } = req.query;
+    if (sort !== undefined && sort !== 'new' && sort !== 'top') {
+      sendError(res, 400, 'INVALID_REQUEST', 'sort must be new or top');
+      return;
+    }
+    const parsedLimit = limit === undefined ? undefined : Number(limit);
+    if (parsedLimit !== undefined && !Number.isInteger(parsedLimit)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'limit must be an integer');
+      return;
+    }
+    if (!(await getPostConfig(context.postId)).enabled) {
+      sendError(res, 404, 'NOT_FOUND', 'This post has no gallery');
+      return;
+    }
+    const page = await listGallery(context.postId, context.userId, {
+      sort: (sort ?? 'new') as GallerySort,
+      cursor: typeof cursor === 'string' ? cursor : undefined,
+      limit: parsedLimit,
+    });
+    res.json({ type: 'gallery', ...page });
+  } catch (error) {
+    console.error('Gallery error:', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch gallery');
+  }
+});
+
+router.post<Record<string, never>, GalleryEntryResponse | ErrorResponse, ShareToGalleryRequest>(
+  '/api/gallery',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      if (!context.postId || !(await getPostConfig(context.postId)).enabled) {
+        sendError(res, 404, 'NOT_FOUND', 'This post has no gallery');
+        return;
+      }
+      const mediaId = req.body?.mediaId;
+      if (typeof mediaId !== 'string' || !mediaId) {
+        sendError(res, 400, 'INVALID_REQUEST', 'mediaId is required');
+        return;
+      }
+      if (await getBan(context.subredditId, context.userId)) {
+        sendError(res, 403, 'BANNED', 'You are banned from uploading images in this community');
+        return;
+      }
+      const asset = (await findUploads(context.userId, [mediaId])).get(mediaId);
+      if (!asset) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload not found');
+        return;
+      }
+      const entry = await shareToGallery(context.postId, asset, {
+        userId: context.userId,
+        username: (await reddit.getCurrentUsername()) ?? 'unknown',
+      });
+      res.json({ type: 'galleryEntry', entry });
+    } catch (error) {
+      console.error('Share to gallery error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to share to the gallery');
+    }
+  }
+);
+
+// Uploaders can take down their own entries; the post author and moderators can remove any
+router.delete<{ mediaId: string }, { status: 'success'; message: string } | ErrorResponse>(
+  '/api/gallery/:mediaId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      if (!context.postId) {
+        sendError(res, 400, 'INVALID_REQUEST', 'Not running in a post');
+        return;
+      }
+      const { mediaId } = req.params;
+      const entry = await getGalleryEntry(context.postId, mediaId, context.userId);
+      if (!entry) {
+        sendError(res, 404, 'NOT_FOUND', 'Gallery entry not found');
+        return;
+      }
+      if (!entry.sharedByMe && !(await canManagePost(context.postId))) {
+        sendError(res, 403, 'FORBIDDEN', 'Only the post author and moderators can do that');
+        return;
+      }
+      await removeFromGallery(context.postId, mediaId);
+      res.json({ status: 'success', message: 'Removed from the gallery' });
+    } catch (error) {
+      console.error('Remove from gallery error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to remove from the gallery');
+    }
+  }
+);
+
+// PUT adds the current user's upvote and DELETE withdraws it
+const voteHandler =
+  (
+    upvoted: boolean
+  ): express.RequestHandler<{ mediaId: string }, GalleryEntryResponse | ErrorResponse> =>
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      if (!context.postId || !(await getPostConfig(context.postId)).enabled) {
+        sendError(res, 404, 'NOT_FOUND', 'This post has no gallery');
+        return;
+      }
+      const entry = await setVote(context.postId, req.params.mediaId, context.userId, upvoted);
+      if (!entry) {
+        sendError(res, 404, 'NOT_FOUND', 'Gallery entry not found');
+        return;
+      }
+      res.json({ type: 'galleryEntry', entry });
+    } catch (error) {
+      console.error('Gallery vote error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to record vote');
+    }
+  };
+
+router.put('/api/gallery/:mediaId/vote', voteHandler(true));
+router.delete('/api/gallery/:mediaId/vote', voteHandler(false));
+
+router.get<Record<string, never>, QuotaResponse | ErrorResponse>(
+  '/api/quota',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      res.json(await getQuota(context.userId));
+    } catch (error) {
+      console.error('Quota error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch quota');
+    }
+  }
+);
+
+router.post<Record<string, never>, UiResponse>(
+  '/internal/menu/upload-policy',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!(await isModerator())) {
+        res.json({ showToast: 'Only moderators can change the upload policy' });
+        return;
+      }
+      const { form, data } = policyForm(await getPolicy(context.subredditId));
+      res.json({ showForm: { name: 'uploadPolicy', form, data } });
+    } catch (error) {
+      console.error(`Error opening policy form: ${error}`);
+      res.json({ showToast: 'Failed to load the upload policy' });
+    }
+  }
+);
+
+router.post<Record<string, never>, UiResponse, PolicyFormValues>(
+  '/internal/form/upload-policy',
+  async (req, res): Promise<void> => {
+    try {
+      if (!(await isModerator())) {
+        res.json({ showToast: 'Only moderators can change the upload policy' });
+        return;
+      }
+      const result = await updatePolicy(context.subredditId, policyUpdateFromForm(req.body ?? {}));
+      if ('error' in result) {
+        res.json({ showToast: `Policy not saved: ${result.error}` });
+        return;
+      }
+      res.json({ showToast: { text: 'Upload policy saved', appearance: 'success' } });
+    } catch (error) {
+      console.error(`Error saving policy: ${error}`);
+      res.json({ showToast: 'Failed to save the upload policy' });
+    }
+  }
+);
+
+router.get<Record<string, never>, PolicyResponse | ErrorResponse>(
+  '/api/policy',
+  async (_req, res): Promise<void> => {
+    try {
+      const [policy, canEdit] = await Promise.all([getPolicy(context.subredditId), isModerator()]);
+      res.json({ type: 'policy', policy, canEdit });
+    } catch (error) {
+      console.error('Policy error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch upload policy');
+    }
+  }
+);
+
+router.put<Record<string, never>, PolicyResponse | ErrorResponse, UpdatePolicyRequest>(
+  '/api/policy',
+  async (req, res): Promise<void> => {
+    try {
+      if (!context.userId) {
+        sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+        return;
+      }
+      if (!(await isModerator())) {
+        sendError(res, 403, 'FORBIDDEN', 'Only moderators can change the policy');
+        return;
+      }
+      const result = await updatePolicy(context.subredditId, req.body ?? {});
+      if ('error' in result) {
+        sendError(res, 400, 'INVALID_REQUEST', result.error);
+        return;
+      }
+      res.json({ type: 'policy', policy: result.policy, canEdit: true });
+    } catch (error) {
+      console.error('Update policy error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to update upload policy');
+    }
+  }
+);
+
+router.get<
+  Record<string, never>,
+  ModUploadsResponse | ErrorResponse,
+  unknown,
+  { username?: string; mimeType?: string; limit?: string }
+>('/api/mod/uploads', async (req, res): Promise<void> => {
+  try {
+    if (!(await isModerator())) {
+      sendError(res, 403, 'FORBIDDEN', 'Moderators only');
+      return;
+    }
+    const { username, mimeType, limit } = req.query;
+    const parsedLimit = Number(limit ?? 100);
+    const entries = await listModLog(context.subredditId, {
+      username: typeof username === 'string' && username ? username.replace(/^u\//, '') : undefined,
+      mimeType: typeof mimeType === 'string' && mimeType ? mimeType : undefined,
+      limit: Number.isInteger(parsedLimit) && parsedLimit > 0 ? Math.min(parsedLimit, 500) : 100,
+    });
+    res.json({ type: 'modUploads', entries });
+  } catch (error) {
+    console.error('Mod log error:', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch upload log');
+  }
+});
+
+router.get<Record<string, never>, UploadBansResponse | ErrorResponse>(
+  '/api/mod/bans',
+  async (_req, res): Promise<void> => {
+    try {
+      if (!(await isModerator())) {
+        sendError(res, 403, 'FORBIDDEN', 'Moderators only');
+        return;
+      }
+      res.json({ type: 'uploadBans', bans: await listBans(context.subredditId) });
+    } catch (error) {
+      console.error('List bans error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to fetch upload bans');
+    }
+  }
+);
+
+router.post<Record<string, never>, UploadBansResponse | ErrorResponse, BanUploaderRequest>(
+  '/api/mod/bans',
+  async (req, res): Promise<void> => {
+    try {
+      if (!(await isModerator())) {
+        sendError(res, 403, 'FORBIDDEN', 'Moderators only');
+        return;
+      }
+      const username = typeof req.body?.username === 'string' ? req.body.username.trim() : '';
+      if (!username) {
+        sendError(res, 400, 'INVALID_REQUEST', 'username is required');
+        return;
+      }
+      const user = await reddit.getUserByUsername(username.replace(/^u\//, ''));
+      if (!user) {
+        sendError(res, 404, 'NOT_FOUND', 'User not found');
+        return;
+      }
+      const reason = typeof req.body.reason === 'string' ? req.body.reason.trim() : '';
+      await banUploader(context.subredditId, {
+        userId: user.id,
+        username: user.username,
+        bannedBy: (await reddit.getCurrentUsername()) ?? 'unknown',
+        ...(reason ? { reason } : {}),
+        date: new Date(clock.now()).toISOString(),
+      });
+      res.json({ type: 'uploadBans', bans: await listBans(context.subredditId) });
+    } catch (error) {
+      console.error('Ban error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to ban user');
+    }
+  }
+);
+
+router.delete<{ userId: string }, UploadBansResponse | ErrorResponse>(
+  '/api/mod/bans/:userId',
+  async (req, res): Promise<void> => {
+    try {
+      if (!(await isModerator())) {
+        sendError(res, 403, 'FORBIDDEN', 'Moderators only');
+        return;
+      }
+      if (!(await unbanUploader(context.subredditId, req.params.userId))) {
+        sendError(res, 404, 'NOT_FOUND', 'User is not banned');
+        return;
+      }
+      res.json({ type: 'uploadBans', bans: await listBans(context.subredditId) });
+    } catch (error) {
+      console.error('Unban error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to unban user');
+    }
+  }
+);
+
+const sendUploadFailure = (res: express.Response, failure: UploadFailure) =>
+  sendError(
+    res,
+    failure.status,
+    failure.code,
+    failure.message,
+    failure.retryAfterSeconds === undefined ? {} : { retryAfterSeconds: failure.retryAfterSeconds }
+  );
+
+router.post<Record<string, never>, UploadResponse | ErrorResponse>(
+  '/api/upload-image',
+  async (req, res): Promise<void> => {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+
+    try {
+      const contentType = req.headers['content-type'];
+      if (!isMediaMimeType(contentType)) {
+        sendError(res, 415, 'UNSUPPORTED_TYPE', 'Unsupported Content-Type');
+        return;
+      }
+
+      const body = req.body as Buffer | undefined;
+      if (!body || !Buffer.isBuffer(body) || body.length === 0) {
+        sendError(res, 400, 'INVALID_REQUEST', 'Empty or invalid request body');
+        return;
+      }
+
+      const fileNameHeader = req.headers['x-file-name'];
+      const fileName = Array.isArray(fileNameHeader) ? fileNameHeader[0] : fileNameHeader;
+
+      // Caption, alt text and tags arrive URI-encoded since headers are ASCII-only
+      const detailHeader = (name: string) => {
+        const value = req.headers[name];
+        const raw = Array.isArray(value) ? value[0] : value;
+        return raw === undefined ? undefined : decodeURIComponent(raw);
+      };
+      let details: AssetDetails;
+      try {
+        const tags = detailHeader('x-tags');
+        const parsed = parseAssetDetails({
+          caption: detailHeader('x-caption'),
+          altText: detailHeader('x-alt-text'),
+          tags: tags === undefined ? undefined : tags.split(','),
+        });
+        if ('error' in parsed) {
+          sendError(res, 400, 'INVALID_REQUEST', parsed.error);
+          return;
+        }
+        details = parsed.details;
+      } catch {
+        sendError(res, 400, 'INVALID_REQUEST', 'Malformed caption, alt text or tags');
+        return;
+      }
+
+      // Optional album to file the upload under
+      const albumHeader = req.headers['x-album-id'];
+      const albumId = Array.isArray(albumHeader) ? albumHeader[0] : albumHeader;
+
+      const expiresIn = detailHeader('x-expires-in');
+      if (expiresIn !== undefined && !isUploadExpiry(expiresIn)) {
+        sendError(res, 400, 'INVALID_REQUEST', 'X-Expires-In must be 1d, 7d or never');
+        return;
+      }
+
+      const result = await ingestUpload(context.userId, context.subredditId, body, {
+        mimeType: contentType,
+        fileName,
+        details,
+        albumId,
+        expiresIn,
+      });
+      if ('failure' in result) {
+        sendUploadFailure(res, result.failure);
+        return;
+      }
+      res.json(result.response);
+    } catch (error) {
+      console.error('Upload error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to process upload');
+    }
+  }
+);
+
+// Chunked uploads: create a session, PUT its chunks in any order (re-sending is harmless),
+// then complete it. GET reports which chunks have arrived so a dropped upload can resume.
+router.post<
+  Record<string, never>,
+  UploadSessionResponse | ErrorResponse,
+  Partial<UploadSessionRequest>
+>('/api/upload-sessions', async (req, res): Promise<void> => {
+  if (!context.userId) {
+    sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+    return;
+  }
+
+  try {
+    const { mimeType, bytes, sha256, fileName, albumId, expiresIn, caption, altText, tags } =
+      req.body ?? {};
+    if (!isMediaMimeType(mimeType)) {
+      sendError(res, 415, 'UNSUPPORTED_TYPE', 'Unsupported mimeType');
+      return;
+    }
+    if (typeof bytes !== 'number' || !Number.isInteger(bytes) || bytes <= 0) {
+      sendError(res, 400, 'INVALID_REQUEST', 'bytes must be a positive integer');
+      return;
+    }
+    if (typeof sha256 !== 'string' || !/^[0-9a-f]{64}$/.test(sha256)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'sha256 must be a hex SHA-256 digest');
+      return;
+    }
+    if (expiresIn !== undefined && !isUploadExpiry(expiresIn)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'expiresIn must be 1d, 7d or never');
+      return;
+    }
+    const parsed = parseAssetDetails({ caption, altText, tags });
+    if ('error' in parsed) {
+      sendError(res, 400, 'INVALID_REQUEST', parsed.error);
+      return;
+    }
+    const meta: UploadMeta = {
+      mimeType,
+      fileName: typeof fileName === 'string' && fileName ? fileName : undefined,
+      details: parsed.details,
+      albumId: typeof albumId === 'string' && albumId ? albumId : undefined,
+      expiresIn,
+    };
+
+    // Reject up front rather than after the whole file has been sent
+    const failure =
+      (await precheckUpload(context.userId, context.subredditId, meta, bytes)) ??
+      (await checkUploadQuota(context.userId, bytes)) ??
+      (await checkUploadSessionLimits(context.userId, bytes));
+    if (failure) {
+      sendUploadFailure(res, failure);
+      return;
+    }
+
+    const session = await createUploadSession(context.userId, meta, bytes, sha256);
+    res.json(sessionResponse(session, []));
+  } catch (error) {
+    console.error('Upload session error:', error);
+    sendError(res, 500, 'INTERNAL_ERROR', 'Failed to start upload');
+  }
+});
+
+router.get<{ sessionId: string }, UploadSessionResponse | ErrorResponse>(
+  '/api/upload-sessions/:sessionId',
+  async (req, res): Promise<void> => {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+
+    try {
+      const session = await getUploadSession(context.userId, req.params.sessionId);
+      if (!session) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload session not found or expired');
+        return;
+      }
+      res.json(sessionResponse(session, await receivedChunks(session)));
+    } catch (error) {
+      console.error('Upload session error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to load upload session');
+    }
+  }
+);
+
+router.put<{ sessionId: string; index: string }, UploadSessionResponse | ErrorResponse>(
+  '/api/upload-sessions/:sessionId/chunks/:index',
+  async (req, res): Promise<void> => {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+
+    try {
+      const session = await getUploadSession(context.userId, req.params.sessionId);
+      if (!session) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload session not found or expired');
+        return;
+      }
+      const body = req.body as Buffer | undefined;
+      if (!body || !Buffer.isBuffer(body)) {
+        sendError(res, 415, 'UNSUPPORTED_TYPE', 'Chunks must be application/octet-stream');
+        return;
+      }
+      const result = await saveChunk(session, Number(req.params.index), body);
+      if ('failure' in result) {
+        sendUploadFailure(res, result.failure);
+        return;
+      }
+      res.json(sessionResponse(result.session, await receivedChunks(result.session)));
+    } catch (error) {
+      console.error('Upload chunk error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to store chunk');
+    }
+  }
+);
+
+router.post<{ sessionId: string }, UploadResponse | ErrorResponse>(
+  '/api/upload-sessions/:sessionId/complete',
+  async (req, res): Promise<void> => {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+
+    try {
+      const session = await getUploadSession(context.userId, req.params.sessionId);
+      if (!session) {
+        sendError(res, 404, 'NOT_FOUND', 'Upload session not found or expired');
+        return;
+      }
+      const assembled = await assembleUpload(session);
+      if ('missing' in assembled) {
+        sendError(
+          res,
+          409,
+          'INCOMPLETE_UPLOAD',
+          `Missing chunks: ${assembled.missing.join(', ')}`,
+          { missingChunks: assembled.missing }
+        );
+        return;
+      }
+      if ('error' in assembled) {
+        // The stored bytes are bad; the client has to start a new session
+        await deleteUploadSession(session);
+        sendError(res, 422, 'CHECKSUM_MISMATCH', assembled.error);
+        return;
+      }
+
+      const result = await ingestUpload(
+        context.userId,
+        context.subredditId,
+        assembled.data,
+        session.meta
+      );
+      if ('failure' in result) {
+        // Keep the chunks when waiting out the quota is all it takes to finish
+        if (result.failure.status !== 429) await deleteUploadSession(session);
+        sendUploadFailure(res, result.failure);
+        return;
+      }
+      await deleteUploadSession(session);
+      res.json(result.response);
+    } catch (error) {
+      console.error('Upload error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to process upload');
+    }
+  }
+);
+
+router.delete<{ sessionId: string }, { status: 'success'; message: string } | ErrorResponse>(
+  '/api/upload-sessions/:sessionId',
+  async (req, res): Promise<void> => {
+    if (!context.userId) {
+      sendError(res, 401, 'UNAUTHORIZED', 'Unauthorized');
+      return;
+    }
+
+    try {
+      const session = await getUploadSession(context.userId, req.params.sessionId);
+      if (session) await deleteUploadSession(session);
+      res.json({ status: 'success', message: 'Upload canceled' });
+    } catch (error) {
+      console.error('Upload session error:', error);
+      sendError(res, 500, 'INTERNAL_ERROR', 'Failed to cancel upload');
+    }
+  }
+);
+
+/**
+ * Builds the Express app around the given services. The Devvit entry point passes the real
+ * platform clients; tests pass in-memory stand-ins.
+ */
+export const createApp = (deps: ServerDeps): express.Express => {
+  const app = express();
+
+  // Middleware for JSON body parsing; history imports can carry up to 1000 records
+  app.use(express.json({ limit: '1mb' }));
+  // Middleware for URL-encoded body parsing
+  app.use(express.urlencoded({ extended: true }));
+  // Middleware for plain text body parsing
+  app.use(express.text());
+  // Middleware for raw binary parsing for image and video uploads
+  app.use(
+    // Only parse raw bodies when an image or video content-type is provided
+    express.raw({
+      type: (req) => isMediaMimeType(req.headers['content-type']),
+      // Hard ceiling (videos are the largest); per-type limits are checked in the route
+      limit: MAX_VIDEO_BYTES,
+    })
+  );
+  // Middleware for raw binary parsing for upload session chunks
+  app.use(express.raw({ type: 'application/octet-stream', limit: UPLOAD_CHUNK_BYTES }));
+
+  // Installed after the body parsers, whose callbacks run outside the request's async context
+  app.use((_req, _res, next) => runWithServices(deps, next));
+
+  // Use router middleware
+  app.use(router);
+
+  // Body parser failures (oversized or malformed bodies) get the same error envelope as routes
+  app.use(
+    (
+      err: { type?: string; status?: number },
+      _req: express.Request,
+      res: express.Response,
+      next: express.NextFunction
+    ): void => {
+      if (res.headersSent) {
+        next(err);
+        return;
+      }
+      if (err.type === 'entity.too.large') {
+        sendError(res, 413, 'TOO_LARGE', 'Request body is too large');
+      } else if (err.type === 'entity.parse.failed') {
+        sendError(res, 400, 'INVALID_REQUEST', 'Malformed request body');
+      } else {
+        console.error('Unhandled error:', err);
+        sendError(res, 500, 'INTERNAL_ERROR', 'Unexpected server error');
+      }
+    }
+  );
+
+  return app;
+};
@@ -0,0 +1,104 @@
+import { randomUUID } from 'node:crypto';
+import { redis } from '../services';
+import type { Album } from '../../shared/types/api';
+import { albumIndexKey, albumsKey, findUploads, scoreOf } from './uploads';
+
+export const MAX_ALBUMS = 100;
+export const MAX_ALBUM_NAME_LENGTH = 60;
+
+type StoredAlbum = Omit<Album, 'count'>;
+
+const parseAlbum = (raw: string | undefined): StoredAlbum | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredAlbum;
+  } catch {
+    return null;
+  }
+};
+
+const withCount = async (userId: string, album: StoredAlbum): Promise<Album> => ({
+  ...album,
+  count: await redis.zCard(albumIndexKey(userId, album.id)),
+});
+
+// Trims the name and returns an error message when it's unusable
+export const validateAlbumName = (name: unknown): { name: string } | { error: string } => {
+  if (typeof name !== 'string' || !name.trim()) return { error: 'Album name is required' };
+  const trimmed = name.trim();
+  if (trimmed.length > MAX_ALBUM_NAME_LENGTH) {
+    return { error: `Album name must be at most ${MAX_ALBUM_NAME_LENGTH} characters` };
+  }
+  return { name: trimmed };
+};
+
+export const listAlbums = async (userId: string): Promise<Album[]> => {
+  const all = await redis.hGetAll(albumsKey(userId));
+  const albums = Object.values(all || {})
+    .map(parseAlbum)
+    .filter((a): a is StoredAlbum => Boolean(a))
+    .sort((a, b) => a.name.localeCompare(b.name));
+  return Promise.all(albums.map((a) => withCount(userId, a)));
+};
+
+export const getAlbum = async (userId: string, albumId: string): Promise<Album | null> => {
+  const album = parseAlbum(await redis.hGet(albumsKey(userId), albumId));
+  return album ? withCount(userId, album) : null;
+};
+
+export const createAlbum = async (
+  userId: string,
+  name: string
+): Promise<{ album: Album } | { error: string }> => {
+  if ((await redis.hLen(albumsKey(userId))) >= MAX_ALBUMS) {
+    return { error: `You can have at most ${MAX_ALBUMS} albums` };
+  }
+  const album: StoredAlbum = { id: randomUUID(), name, createdAt: new Date().toISOString() };
+  await redis.hSet(albumsKey(userId), { [album.id]: JSON.stringify(album) });
+  return { album: { ...album, count: 0 } };
+};
+
+export const renameAlbum = async (
+  userId: string,
+  albumId: string,
+  name: string
+): Promise<Album | null> => {
+  const album = parseAlbum(await redis.hGet(albumsKey(userId), albumId));
+  if (!album) return null;
+  const renamed = { ...album, name };
+  await redis.hSet(albumsKey(userId), { [albumId]: JSON.stringify(renamed) });
+  return withCount(userId, renamed);
+};
+
+// Deletes the album only; its uploads stay in the user's history
+export const deleteAlbum = async (userId: string, albumId: string): Promise<boolean> => {
+  const removed = await redis.hDel(albumsKey(userId), [albumId]);
+  await redis.del(albumIndexKey(userId, albumId));
+  return removed > 0;
+};
+
+/** Adds the user's own uploads to an album; ids not in their history are reported back. */
+export const addToAlbum = async (
+  userId: string,
+  albumId: string,
+  mediaIds: readonly string[]
+): Promise<{ notFound: string[] }> => {
+  const found = await findUploads(userId, mediaIds);
+  const members = [...found.values()].map((a) => ({ member: a.mediaUrl, score: scoreOf(a) }));
+  if (members.length > 0) {
+    await redis.zAdd(albumIndexKey(userId, albumId), ...members);
+  }
+  return { notFound: mediaIds.filter((id) => !found.has(id)) };
+};
+
+export const removeFromAlbum = async (
+  userId: string,
+  albumId: string,
+  mediaIds: readonly string[]
+): Promise<void> => {
+  const found = await findUploads(userId, mediaIds);
+  const fields = [...found.values()].map((a) => a.mediaUrl);
+  if (fields.length > 0) {
+    await redis.zRem(albumIndexKey(userId, albumId), fields);
+  }
+};
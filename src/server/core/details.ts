@@ -0,0 +1,59 @@
+import type { AssetDetails } from '../../shared/types/api';
+
+export const MAX_CAPTION_LENGTH = 300;
+export const MAX_ALT_TEXT_LENGTH = 500;
+export const MAX_TAGS = 10;
+export const MAX_TAG_LENGTH = 30;
+
+// Tags are compared case-insensitively, so store them lowercased without a leading '#'
+const normalizeTag = (tag: string) => tag.trim().replace(/^#+/, '').toLowerCase();
+
+/**
+ * Validates caption/alt text/tags from a request. Missing fields are left out of the result;
+ * empty strings and empty tag lists are kept so a PATCH can clear a field.
+ */
+export const parseAssetDetails = (
+  input: Record<string, unknown>
+): { details: AssetDetails } | { error: string } => {
+  const details: AssetDetails = {};
+  const { caption, altText, tags } = input;
+
+  if (caption !== undefined) {
+    if (typeof caption !== 'string') return { error: 'caption must be a string' };
+    if (caption.trim().length > MAX_CAPTION_LENGTH) {
+      return { error: `Caption must be at most ${MAX_CAPTION_LENGTH} characters` };
+    }
+    details.caption = caption.trim();
+  }
+
+  if (altText !== undefined) {
+    if (typeof altText !== 'string') return { error: 'altText must be a string' };
+    if (altText.trim().length > MAX_ALT_TEXT_LENGTH) {
+      return { error: `Alt text must be at most ${MAX_ALT_TEXT_LENGTH} characters` };
+    }
+    details.altText = altText.trim();
+  }
+
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || !tags.every((t) => typeof t === 'string')) {
+      return { error: 'tags must be an array of strings' };
+    }
+    const normalized = [...new Set((tags as string[]).map(normalizeTag).filter(Boolean))];
+    if (normalized.length > MAX_TAGS) return { error: `At most ${MAX_TAGS} tags are allowed` };
+    if (normalized.some((t) => t.length > MAX_TAG_LENGTH)) {
+      return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+    }
+    details.tags = normalized;
+  }
+
+  return { details };
+};
+
+// Applies a validated patch; cleared fields are dropped rather than stored empty
+export const applyAssetDetails = <T extends AssetDetails>(asset: T, patch: AssetDetails): T => {
+  const next = { ...asset, ...patch };
+  if (!next.caption) delete next.caption;
+  if (!next.altText) delete next.altText;
+  if (!next.tags || next.tags.length === 0) delete next.tags;
+  return next;
+};
@@ -0,0 +1,60 @@
+import { redis } from '../services';
+import { removeSharedUploads } from './gallery';
+import { expiringKey, removeUploads } from './uploads';
+
+export const SWEEP_BATCH_SIZE = 100;
+// Bounds one run; whatever is left is picked up by the next scheduled run
+export const MAX_SWEEP_BATCHES = 10;
+
+export type SweepResult = {
+  removed: number;
+  // True when the run stopped at MAX_SWEEP_BATCHES with expired uploads still waiting
+  more: boolean;
+};
+
+// Members are `<userId>:<mediaId>`; user ids never contain a colon
+const parseMember = (member: string): { userId: string; mediaId: string } | null => {
+  const at = member.indexOf(':');
+  return at > 0 ? { userId: member.slice(0, at), mediaId: member.slice(at + 1) } : null;
+};
+
+/**
+ * Removes uploads whose expiry is at or before `now` from their owners' histories and from
+ * any galleries they were shared to, oldest first, in batches of `batchSize`. Index entries for uploads that were already deleted are
+ * dropped along the way.
+ */
+export const sweepExpiredUploads = async (
+  now: number,
+  { batchSize = SWEEP_BATCH_SIZE, maxBatches = MAX_SWEEP_BATCHES } = {}
+): Promise<SweepResult> => {
+  let removed = 0;
+  for (let batch = 0; batch < maxBatches; batch++) {
+    const due = await redis.zRange(expiringKey, '-inf', now, {
+      by: 'score',
+      limit: { offset: 0, count: batchSize },
+    });
+    if (due.length === 0) return { removed, more: false };
+
+    const byUser = new Map<string, string[]>();
+    for (const { member } of due) {
+      const parsed = parseMember(member);
+      if (parsed) byUser.set(parsed.userId, [...(byUser.get(parsed.userId) ?? []), parsed.mediaId]);
+    }
+    for (const [userId, mediaIds] of byUser) {
+      const { deleted } = await removeUploads(userId, mediaIds);
+      await removeSharedUploads(userId, deleted);
+      removed += deleted.length;
+    }
+    // removeUploads only clears members it found; drop the rest so they aren't seen again
+    await redis.zRem(
+      expiringKey,
+      due.map((m) => m.member)
+    );
+    if (due.length < batchSize) return { removed, more: false };
+  }
+  const left = await redis.zRange(expiringKey, '-inf', now, {
+    by: 'score',
+    limit: { offset: 0, count: 1 },
+  });
+  return { removed, more: left.length > 0 };
+};
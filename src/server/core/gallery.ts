@@ -0,0 +1,177 @@
+import { clock, redis } from '../services';
+import type { GalleryEntry, GallerySort, UploadedAsset } from '../../shared/types/api';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from './uploads';
+
+// A post's gallery is a hash of mediaId -> JSON StoredEntry plus two sorted sets of mediaIds,
+// one scored by when each entry was shared and one by its vote count. Each entry's voters are
+// a hash of userId -> vote time, so a user can vote once per entry.
+// Each uploader also has a hash of mediaId -> JSON array of the posts it was shared to, so
+// deleting an upload can take it out of every gallery.
+const entriesKey = (postId: string) => `gallery:${postId}:entries`;
+const newestKey = (postId: string) => `gallery:${postId}`;
+const topKey = (postId: string) => `gallery:${postId}:top`;
+const votersKey = (postId: string, mediaId: string) => `gallery:${postId}:votes:${mediaId}`;
+const sharesKey = (userId: string) => `${userId}:galleryPosts`;
+
+type StoredEntry = Omit<GalleryEntry, 'votes' | 'votedByMe' | 'sharedByMe'>;
+
+const parseEntry = (raw: string | null | undefined): StoredEntry | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as StoredEntry;
+  } catch {
+    return null;
+  }
+};
+
+const parsePostIds = (raw: string | null | undefined): string[] => {
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw) as string[];
+  } catch {
+    return [];
+  }
+};
+
+const setSharedTo = async (userId: string, mediaId: string, postIds: string[]) => {
+  if (postIds.length > 0) {
+    await redis.hSet(sharesKey(userId), { [mediaId]: JSON.stringify(postIds) });
+  } else {
+    await redis.hDel(sharesKey(userId), [mediaId]);
+  }
+};
+
+// Adds the vote count and the viewer's relationship to the entry
+const present = async (
+  postId: string,
+  entry: StoredEntry,
+  viewerId: string | undefined
+): Promise<GalleryEntry> => {
+  const [votes, myVote] = await Promise.all([
+    redis.hLen(votersKey(postId, entry.mediaId)),
+    viewerId ? redis.hGet(votersKey(postId, entry.mediaId), viewerId) : undefined,
+  ]);
+  return { ...entry, votes, votedByMe: Boolean(myVote), sharedByMe: entry.userId === viewerId };
+};
+
+/**
+ * Pages through a post's gallery, newest or most upvoted first. The cursor is an offset, so
+ * entries shared or voted on while paging can shift by a place; callers de-duplicate by id.
+ */
+export const listGallery = async (
+  postId: string,
+  viewerId: string | undefined,
+  opts: { sort?: GallerySort; cursor?: string | undefined; limit?: number | undefined } = {}
+): Promise<{ entries: GalleryEntry[]; nextCursor: string | null }> => {
+  const limit = Math.min(Math.max(1, opts.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const offset = Math.max(0, Number.parseInt(opts.cursor ?? '0', 10) || 0);
+  const key = opts.sort === 'top' ? topKey(postId) : newestKey(postId);
+  // One extra to learn whether another page exists
+  const page = await redis.zRange(key, offset, offset + limit, { by: 'rank', reverse: true });
+  const ids = page.slice(0, limit).map((m) => m.member);
+  if (ids.length === 0) return { entries: [], nextCursor: null };
+
+  const values = await redis.hMGet(entriesKey(postId), ids);
+  const stored = values.map(parseEntry).filter((e): e is StoredEntry => Boolean(e));
+  return {
+    entries: await Promise.all(stored.map((e) => present(postId, e, viewerId))),
+    nextCursor: page.length > limit ? String(offset + limit) : null,
+  };
+};
+
+export const getGalleryEntry = async (
+  postId: string,
+  mediaId: string,
+  viewerId: string | undefined
+): Promise<GalleryEntry | null> => {
+  const entry = parseEntry(await redis.hGet(entriesKey(postId), mediaId));
+  return entry ? present(postId, entry, viewerId) : null;
+};
+
+/** Shares one of the user's uploads to the gallery; sharing it again returns the existing entry. */
+export const shareToGallery = async (
+  postId: string,
+  asset: UploadedAsset,
+  uploader: { userId: string; username: string }
+): Promise<GalleryEntry> => {
+  const existing = await getGalleryEntry(postId, asset.mediaId, uploader.userId);
+  if (existing) return existing;
+
+  const entry: StoredEntry = {
+    mediaId: asset.mediaId,
+    mediaUrl: asset.mediaUrl,
+    mediaType: asset.mediaType,
+    ...(asset.mimeType ? { mimeType: asset.mimeType } : {}),
+    ...(asset.width !== undefined && asset.height !== undefined
+      ? { width: asset.width, height: asset.height }
+      : {}),
+    ...(asset.caption ? { caption: asset.caption } : {}),
+    ...(asset.altText ? { altText: asset.altText } : {}),
+    userId: uploader.userId,
+    username: uploader.username,
+    date: new Date(clock.now()).toISOString(),
+  };
+  await redis.hSet(entriesKey(postId), { [entry.mediaId]: JSON.stringify(entry) });
+  await redis.zAdd(newestKey(postId), { member: entry.mediaId, score: Date.parse(entry.date) });
+  await redis.zAdd(topKey(postId), { member: entry.mediaId, score: 0 });
+  const postIds = parsePostIds(await redis.hGet(sharesKey(uploader.userId), entry.mediaId));
+  await setSharedTo(uploader.userId, entry.mediaId, [...new Set([...postIds, postId])]);
+  return { ...entry, votes: 0, votedByMe: false, sharedByMe: true };
+};
+
+const dropEntry = async (postId: string, mediaId: string): Promise<boolean> => {
+  const removed = await redis.hDel(entriesKey(postId), [mediaId]);
+  await redis.zRem(newestKey(postId), [mediaId]);
+  await redis.zRem(topKey(postId), [mediaId]);
+  await redis.del(votersKey(postId, mediaId));
+  return removed > 0;
+};
+
+// Returns false when the entry wasn't in the gallery
+export const removeFromGallery = async (postId: string, mediaId: string): Promise<boolean> => {
+  const entry = parseEntry(await redis.hGet(entriesKey(postId), mediaId));
+  const removed = await dropEntry(postId, mediaId);
+  if (entry) {
+    const postIds = parsePostIds(await redis.hGet(sharesKey(entry.userId), mediaId));
+    await setSharedTo(
+      entry.userId,
+      mediaId,
+      postIds.filter((id) => id !== postId)
+    );
+  }
+  return removed;
+};
+
+// Takes deleted uploads out of every gallery their owner shared them to
+export const removeSharedUploads = async (
+  userId: string,
+  mediaIds: readonly string[]
+): Promise<void> => {
+  if (mediaIds.length === 0) return;
+  const shares = await redis.hMGet(sharesKey(userId), [...mediaIds]);
+  for (const [i, mediaId] of mediaIds.entries()) {
+    for (const postId of parsePostIds(shares[i])) await dropEntry(postId, mediaId);
+  }
+  await redis.hDel(sharesKey(userId), [...mediaIds]);
+};
+
+/** Adds or withdraws the user's upvote; both are idempotent. Null when the entry is gone. */
+export const setVote = async (
+  postId: string,
+  mediaId: string,
+  userId: string,
+  upvoted: boolean
+): Promise<GalleryEntry | null> => {
+  const entry = parseEntry(await redis.hGet(entriesKey(postId), mediaId));
+  if (!entry) return null;
+  if (upvoted) {
+    await redis.hSet(votersKey(postId, mediaId), {
+      [userId]: new Date(clock.now()).toISOString(),
+    });
+  } else {
+    await redis.hDel(votersKey(postId, mediaId), [userId]);
+  }
+  const presented = await present(postId, entry, userId);
+  await redis.zAdd(topKey(postId), { member: mediaId, score: presented.votes });
+  return presented;
+};
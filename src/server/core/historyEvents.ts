@@ -0,0 +1,32 @@
+import { randomUUID } from 'node:crypto';
+import { realtime, redis } from '../services';
+import type { HistoryEvent } from '../../shared/types/api';
+
+// Each user gets a random channel name the first time a client asks for it. Channels are
+// shared by everyone on the installation, so a name derived from the user id would let
+// anyone listen in on someone else's uploads.
+const channelKey = (userId: string) => `${userId}:historyChannel`;
+
+export const getHistoryChannel = async (userId: string): Promise<string> => {
+  const existing = await redis.get(channelKey(userId));
+  if (existing) return existing;
+  // Channel names are limited to letters, digits and underscores
+  const channel = `history_${randomUUID().replace(/-/g, '')}`;
+  await redis.set(channelKey(userId), channel);
+  return channel;
+};
+
+/**
+ * Tells the user's open sessions that their history changed. Best effort: the change is
+ * already stored, and clients that miss the message catch up when they poll or reload.
+ */
+export const publishHistoryEvent = async (userId: string, event: HistoryEvent): Promise<void> => {
+  // No channel yet means no client has ever subscribed
+  const channel = await redis.get(channelKey(userId));
+  if (!channel) return;
+  try {
+    await realtime.send(channel, event);
+  } catch (error) {
+    console.error('History realtime error:', error);
+  }
+};
@@ -0,0 +1,171 @@
+import type { ImageDimensions, ImageMimeType } from '../../shared/types/api';
+
+const ascii = (buf: Buffer, start: number, length: number) =>
+  buf.toString('latin1', start, start + length);
+
+// PNG: IHDR is always the first chunk; an acTL chunk before IDAT marks an animated PNG
+const readPng = (buf: Buffer): ImageDimensions | null => {
+  if (buf.length < 24 || ascii(buf, 12, 4) !== 'IHDR') return null;
+  const info: ImageDimensions = {
+    width: buf.readUInt32BE(16),
+    height: buf.readUInt32BE(20),
+    animated: false,
+    frameCount: 1,
+  };
+  let offset = 8;
+  while (offset + 8 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = ascii(buf, offset + 4, 4);
+    if (type === 'acTL' && offset + 12 <= buf.length) {
+      info.frameCount = buf.readUInt32BE(offset + 8);
+      info.animated = info.frameCount > 1;
+    }
+    if (type === 'IDAT' || type === 'IEND') break;
+    offset += 12 + length;
+  }
+  return info;
+};
+
+// JPEG: walk marker segments until a start-of-frame marker carrying the dimensions
+const readJpeg = (buf: Buffer): ImageDimensions | null => {
+  let offset = 2;
+  while (offset + 4 <= buf.length) {
+    if (buf[offset] !== 0xff) return null;
+    const marker = buf[offset + 1]!;
+    // Fill bytes and standalone markers carry no length
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd7)) {
+      offset += 2;
+      continue;
+    }
+    const length = buf.readUInt16BE(offset + 2);
+    const isSof =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isSof) {
+      if (offset + 9 > buf.length) return null;
+      return {
+        height: buf.readUInt16BE(offset + 5),
+        width: buf.readUInt16BE(offset + 7),
+        animated: false,
+        frameCount: 1,
+      };
+    }
+    if (marker === 0xda || marker === 0xd9) return null;
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Skips a run of GIF data sub-blocks, returning the offset after the block terminator
+const skipSubBlocks = (buf: Buffer, offset: number): number => {
+  while (offset < buf.length) {
+    const size = buf[offset]!;
+    offset += 1;
+    if (size === 0) return offset;
+    offset += size;
+  }
+  return offset;
+};
+
+// GIF: logical screen descriptor gives the size; count image descriptors for frames
+const readGif = (buf: Buffer): ImageDimensions | null => {
+  if (buf.length < 13) return null;
+  const width = buf.readUInt16LE(6);
+  const height = buf.readUInt16LE(8);
+  const flags = buf[10]!;
+  let offset = 13;
+  if (flags & 0x80) offset += 3 * (1 << ((flags & 0x07) + 1));
+
+  let frameCount = 0;
+  while (offset < buf.length) {
+    const block = buf[offset]!;
+    if (block === 0x3b) break; // trailer
+    if (block === 0x2c) {
+      // image descriptor: 10 bytes, optional local color table, LZW code size, image data
+      if (offset + 10 > buf.length) break;
+      frameCount += 1;
+      const localFlags = buf[offset + 9]!;
+      offset += 10;
+      if (localFlags & 0x80) offset += 3 * (1 << ((localFlags & 0x07) + 1));
+      offset = skipSubBlocks(buf, offset + 1);
+    } else if (block === 0x21) {
+      // extension: label byte then sub-blocks
+      offset = skipSubBlocks(buf, offset + 2);
+    } else {
+      break;
+    }
+  }
+  return { width, height, animated: frameCount > 1, frameCount: Math.max(frameCount, 1) };
+};
+
+// WebP: dimensions live in the first VP8/VP8L/VP8X chunk; animated files carry ANMF frames
+const readWebp = (buf: Buffer): ImageDimensions | null => {
+  if (buf.length < 30) return null;
+  const chunk = ascii(buf, 12, 4);
+  if (chunk === 'VP8 ') {
+    // keyframe start code 9d 01 2a precedes 14-bit width and height
+    if (buf[23] !== 0x9d || buf[24] !== 0x01 || buf[25] !== 0x2a) return null;
+    return {
+      width: buf.readUInt16LE(26) & 0x3fff,
+      height: buf.readUInt16LE(28) & 0x3fff,
+      animated: false,
+      frameCount: 1,
+    };
+  }
+  if (chunk === 'VP8L') {
+    if (buf[20] !== 0x2f) return null;
+    const bits = buf.readUInt32LE(21);
+    return {
+      width: (bits & 0x3fff) + 1,
+      height: ((bits >> 14) & 0x3fff) + 1,
+      animated: false,
+      frameCount: 1,
+    };
+  }
+  if (chunk === 'VP8X') {
+    const animated = (buf[20]! & 0x02) !== 0;
+    const info: ImageDimensions = {
+      width: buf.readUIntLE(24, 3) + 1,
+      height: buf.readUIntLE(27, 3) + 1,
+      animated,
+      frameCount: 1,
+    };
+    if (animated) {
+      let frames = 0;
+      let offset = 12;
+      while (offset + 8 <= buf.length) {
+        if (ascii(buf, offset, 4) === 'ANMF') frames += 1;
+        const size = buf.readUInt32LE(offset + 4);
+        offset += 8 + size + (size % 2);
+      }
+      info.frameCount = Math.max(frames, 1);
+    }
+    return info;
+  }
+  return null;
+};
+
+/**
+ * Reads dimensions and animation details from the image headers. Returns null when the
+ * headers can't be parsed; callers treat that as "unknown" rather than as invalid.
+ */
+export const readImageInfo = (buf: Buffer, mimeType: ImageMimeType): ImageDimensions | null => {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        return readPng(buf);
+      case 'image/jpeg':
+        return readJpeg(buf);
+      case 'image/gif':
+        return readGif(buf);
+      case 'image/webp':
+        return readWebp(buf);
+    }
+  } catch {
+    // Out-of-range reads on truncated headers
+    return null;
+  }
+};
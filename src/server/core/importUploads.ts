@@ -0,0 +1,108 @@
+import type { ImportUploadsResponse, UploadedAsset } from '../../shared/types/api';
+import { isMediaMimeType } from '../../shared/policy';
+import { applyAssetDetails, parseAssetDetails } from './details';
+import { findUploads, saveUpload } from './uploads';
+
+export const MAX_IMPORT_RECORDS = 1000;
+
+const MEDIA_TYPES = ['image', 'gif', 'video'] as const;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Hosts `media.upload` serves from. Imports skip validation and moderation, so anything else
+// could put an arbitrary page in front of gallery visitors once the asset is shared or published.
+const REDDIT_MEDIA_HOSTS = new Set(['i.redd.it', 'v.redd.it']);
+
+const isRedditMediaUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' && REDDIT_MEDIA_HOSTS.has(url.hostname);
+  } catch {
+    return false;
+  }
+};
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Checks one exported record and rebuilds it field by field, so unknown keys and
+ * malformed optional fields never reach storage. The content digest is dropped: nothing
+ * proves it matches the URL, and a forged one would de-duplicate later real uploads into it.
+ */
+export const parseImportedAsset = (raw: unknown): { asset: UploadedAsset } | { error: string } => {
+  if (!isRecord(raw)) return { error: 'not an object' };
+  const { mediaType, mediaUrl, mediaId, date } = raw;
+  if (!MEDIA_TYPES.includes(mediaType as (typeof MEDIA_TYPES)[number])) {
+    return { error: 'mediaType must be image, gif or video' };
+  }
+  if (typeof mediaId !== 'string' || !mediaId) return { error: 'mediaId is required' };
+  if (!isRedditMediaUrl(mediaUrl)) {
+    return { error: 'mediaUrl must be an https URL on i.redd.it or v.redd.it' };
+  }
+  if (typeof date !== 'string' || Number.isNaN(Date.parse(date))) {
+    return { error: 'date must be an ISO timestamp' };
+  }
+
+  let asset: UploadedAsset = {
+    mediaType: mediaType as UploadedAsset['mediaType'],
+    mediaUrl,
+    mediaId,
+    date: new Date(date).toISOString(),
+  };
+  if (isMediaMimeType(raw.mimeType)) asset.mimeType = raw.mimeType;
+  if (isRedditMediaUrl(raw.thumbnailUrl)) asset.thumbnailUrl = raw.thumbnailUrl;
+  if (typeof raw.fileName === 'string' && raw.fileName) asset.fileName = raw.fileName;
+  if (isPositiveInteger(raw.width) && isPositiveInteger(raw.height)) {
+    asset.width = raw.width;
+    asset.height = raw.height;
+    asset.animated = raw.animated === true;
+    asset.frameCount = isPositiveInteger(raw.frameCount) ? raw.frameCount : 1;
+  }
+  if (typeof raw.durationSeconds === 'number' && raw.durationSeconds > 0) {
+    asset.durationSeconds = raw.durationSeconds;
+  }
+  if (typeof raw.expiresAt === 'string' && !Number.isNaN(Date.parse(raw.expiresAt))) {
+    asset.expiresAt = new Date(raw.expiresAt).toISOString();
+  }
+
+  const details = parseAssetDetails({
+    caption: raw.caption,
+    altText: raw.altText,
+    tags: raw.tags,
+  });
+  if ('error' in details) return { error: details.error };
+  asset = applyAssetDetails(asset, details.details);
+  return { asset };
+};
+
+// Restores records into the user's history; ones already present (by media id) are skipped
+export const importUploads = async (
+  userId: string,
+  records: readonly unknown[]
+): Promise<Omit<ImportUploadsResponse, 'type'>> => {
+  const parsed = records.map(parseImportedAsset);
+  const valid = parsed.flatMap((p) => ('asset' in p ? [p.asset] : []));
+  const existing = await findUploads(
+    userId,
+    valid.map((a) => a.mediaId)
+  );
+
+  const seen = new Set<string>();
+  const skipped: ImportUploadsResponse['skipped'] = [];
+  let imported = 0;
+  for (const [index, result] of parsed.entries()) {
+    if ('error' in result) {
+      skipped.push({ index, reason: result.error });
+    } else if (existing.has(result.asset.mediaId) || seen.has(result.asset.mediaId)) {
+      skipped.push({ index, reason: 'already in history' });
+    } else {
+      seen.add(result.asset.mediaId);
+      await saveUpload(userId, result.asset);
+      imported++;
+    }
+  }
+  return { imported, skipped };
+};
@@ -0,0 +1,229 @@
+import { createHash } from 'node:crypto';
+import { clock, media, reddit } from '../services';
+import type {
+  AssetDetails,
+  ErrorCode,
+  MediaMimeType,
+  UploadExpiry,
+  UploadResponse,
+  UploadedAsset,
+} from '../../shared/types/api';
+import { expiresAtFor, isVideoMimeType } from '../../shared/policy';
+import { applyAssetDetails } from './details';
+import { readImageInfo } from './imageInfo';
+import { validateImage } from './validate';
+import { readVideoInfo, validateVideo } from './video';
+import { stripMetadata } from './sanitize';
+import { checkQuota, releaseQuota, reserveQuota } from './quota';
+import { checkPolicy, getPolicy } from './policy';
+import { getBan, logUpload } from './modlog';
+import { addToAlbum, getAlbum } from './albums';
+import { findUploadByHash, saveUpload } from './uploads';
+
+// Everything about an upload besides its bytes
+export type UploadMeta = {
+  mimeType: MediaMimeType;
+  fileName?: string | undefined;
+  details: AssetDetails;
+  albumId?: string | undefined;
+  expiresIn?: UploadExpiry | undefined;
+};
+
+export type UploadFailure = {
+  status: 400 | 403 | 404 | 409 | 413 | 415 | 422 | 429 | 502;
+  code: ErrorCode;
+  message: string;
+  // Set for quota failures; sent back as Retry-After
+  retryAfterSeconds?: number;
+};
+
+// "5 minutes", "2 hours"
+const formatWait = (seconds: number): string => {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.ceil(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'}`;
+};
+
+// Checks that only need the declared type and size: upload bans, policy limits and the album
+export const precheckUpload = async (
+  userId: string,
+  subredditId: string,
+  meta: UploadMeta,
+  bytes: number
+): Promise<UploadFailure | null> => {
+  if (await getBan(subredditId, userId)) {
+    return {
+      status: 403,
+      code: 'BANNED',
+      message: 'You are banned from uploading in this community',
+    };
+  }
+
+  const policy = await getPolicy(subredditId);
+  const violation = checkPolicy(policy, meta.mimeType, bytes, null);
+  if (violation) return violation;
+
+  if (meta.albumId && !(await getAlbum(userId, meta.albumId))) {
+    return { status: 404, code: 'NOT_FOUND', message: 'Album not found' };
+  }
+  return null;
+};
+
+const quotaFailure = (quota: { reason: string; retryAfterSeconds: number }): UploadFailure => ({
+  status: 429,
+  code: 'RATE_LIMITED',
+  message: `${quota.reason}. Try again in ${formatWait(quota.retryAfterSeconds)}.`,
+  retryAfterSeconds: quota.retryAfterSeconds,
+});
+
+export const checkUploadQuota = async (
+  userId: string,
+  bytes: number
+): Promise<UploadFailure | null> => {
+  const quota = await checkQuota(userId, bytes);
+  return quota.allowed ? null : quotaFailure(quota);
+};
+
+/**
+ * Validates, de-duplicates and sanitizes a complete upload, charges it to the user's quota and
+ * stores it, then records it in the user's history and the moderator log. Shared by
+ * single-request uploads and finished upload sessions.
+ */
+export const ingestUpload = async (
+  userId: string,
+  subredditId: string,
+  body: Buffer,
+  meta: UploadMeta
+): Promise<{ response: UploadResponse } | { failure: UploadFailure }> => {
+  const { mimeType, fileName, details, albumId, expiresIn } = meta;
+  const isVideo = isVideoMimeType(mimeType);
+
+  const precheck = await precheckUpload(userId, subredditId, meta, body.length);
+  if (precheck) return { failure: precheck };
+
+  const validation = isVideo ? validateVideo(body, mimeType) : validateImage(body, mimeType);
+  if (!validation.ok) {
+    return {
+      failure: {
+        status: 415,
+        code: isVideo ? 'INVALID_VIDEO' : 'INVALID_IMAGE',
+        message: `Invalid ${isVideo ? 'video' : 'image'} format: ${validation.reason}`,
+      },
+    };
+  }
+
+  // Same bytes uploaded before: hand back the existing asset instead of storing a copy
+  const sha256 = createHash('sha256').update(body).digest('hex');
+  const existing = await findUploadByHash(userId, sha256);
+  if (existing) {
+    if (albumId) await addToAlbum(userId, albumId, [existing.mediaId]);
+    return {
+      response: {
+        type: 'upload',
+        mimeType,
+        bytes: body.length,
+        ...(fileName ? { fileName } : {}),
+        strippedMetadata: [],
+        asset: existing,
+        duplicate: true,
+      },
+    };
+  }
+
+  // Never forward camera/GPS metadata to the media store. Video containers are passed
+  // through as-is; only image formats are rewritten.
+  let sanitized: ReturnType<typeof stripMetadata> = { data: body, stripped: [] };
+  if (!isVideo) {
+    try {
+      sanitized = stripMetadata(body, mimeType);
+    } catch (error) {
+      console.error('Metadata sanitize error:', error);
+      return {
+        failure: { status: 415, code: 'INVALID_IMAGE', message: 'Could not read image metadata' },
+      };
+    }
+  }
+  const image = sanitized.data;
+
+  const imageInfo = isVideo ? null : readImageInfo(image, mimeType);
+  const videoInfo = isVideo ? readVideoInfo(image, mimeType) : null;
+  const policy = await getPolicy(subredditId);
+  const violation = checkPolicy(policy, mimeType, body.length, imageInfo ?? videoInfo);
+  if (violation) return { failure: violation };
+
+  const mediaType: 'image' | 'gif' | 'video' = isVideo
+    ? 'video'
+    : mimeType === 'image/gif'
+      ? 'gif'
+      : 'image';
+  // Everything that could throw is worked out before the file is stored, so a failure can't
+  // leave an upload on Reddit that isn't in the history or counted against the quota
+  const now = clock.now();
+  const expiresAt = expiresAtFor(expiresIn ?? 'never', now);
+  const dataUrl = `data:${mimeType};base64,${image.toString('base64')}`;
+
+  // Measured as sent, like the up-front check, so a file that passed it can't count for more
+  const quota = await reserveQuota(userId, body.length, now);
+  if (!quota.allowed) return { failure: quotaFailure(quota) };
+  let asset: Awaited<ReturnType<typeof media.upload>>;
+  try {
+    asset = await media.upload({
+      type: mediaType,
+      url: dataUrl,
+    });
+  } catch (error) {
+    console.error('Media upload error:', error);
+    await releaseQuota(quota.reservation);
+    return {
+      failure: {
+        status: 502,
+        code: 'UPSTREAM_MEDIA_ERROR',
+        message: 'Reddit could not store the file',
+      },
+    };
+  }
+
+  const uploaded: UploadedAsset = {
+    mediaType: mediaType,
+    mediaUrl: asset.mediaUrl,
+    mediaId: asset.mediaId,
+    date: new Date(now).toISOString(),
+    sha256,
+    mimeType,
+    ...(fileName ? { fileName } : {}),
+    ...(expiresAt ? { expiresAt } : {}),
+    ...imageInfo,
+    ...videoInfo,
+  };
+  const assetData = applyAssetDetails(uploaded, details);
+
+  await saveUpload(userId, assetData);
+  if (albumId) await addToAlbum(userId, albumId, [assetData.mediaId]);
+  await logUpload(subredditId, {
+    userId,
+    username: (await reddit.getCurrentUsername()) ?? userId,
+    mediaId: asset.mediaId,
+    mediaUrl: asset.mediaUrl,
+    mimeType,
+    bytes: image.length,
+    date: assetData.date,
+  });
+
+  return {
+    response: {
+      type: 'upload',
+      mimeType,
+      bytes: image.length,
+      ...(fileName ? { fileName } : {}),
+      strippedMetadata: sanitized.stripped,
+      asset: assetData,
+      duplicate: false,
+      ...imageInfo,
+      ...(videoInfo?.width !== undefined && videoInfo.height !== undefined
+        ? { width: videoInfo.width, height: videoInfo.height }
+        : {}),
+    },
+  };
+};
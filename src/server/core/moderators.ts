@@ -0,0 +1,11 @@
+import { context, reddit } from '../services';
+
+// Whether the current user moderates the subreddit the app is running in
+export const isModerator = async (): Promise<boolean> => {
+  const { subredditName, userId } = context;
+  if (!subredditName || !userId) return false;
+  const username = await reddit.getCurrentUsername();
+  if (!username) return false;
+  const mods = await reddit.getModerators({ subredditName, username }).all();
+  return mods.some((m) => m.username.toLowerCase() === username.toLowerCase());
+};
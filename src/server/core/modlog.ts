@@ -0,0 +1,81 @@
+import { redis } from '../services';
+import type { ModUploadEntry, UploadBan } from '../../shared/types/api';
+
+// Subreddit-wide record of uploads for moderators: a sorted set of mediaIds scored by time
+// plus a hash of mediaId -> JSON ModUploadEntry. Only the most recent entries are kept.
+const logKey = (subredditId: string) => `modlog:${subredditId}`;
+const entriesKey = (subredditId: string) => `modlog:${subredditId}:entries`;
+const bansKey = (subredditId: string) => `bans:${subredditId}`;
+
+export const MAX_LOG_ENTRIES = 1000;
+
+const parse = <T>(raw: string | null | undefined): T | null => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+};
+
+export const logUpload = async (subredditId: string, entry: ModUploadEntry): Promise<void> => {
+  await redis.hSet(entriesKey(subredditId), { [entry.mediaId]: JSON.stringify(entry) });
+  await redis.zAdd(logKey(subredditId), { member: entry.mediaId, score: Date.parse(entry.date) });
+
+  const size = await redis.zCard(logKey(subredditId));
+  if (size > MAX_LOG_ENTRIES) {
+    // Oldest entries have the lowest rank
+    const old = await redis.zRange(logKey(subredditId), 0, size - MAX_LOG_ENTRIES - 1);
+    const ids = old.map((m) => m.member);
+    await redis.zRem(logKey(subredditId), ids);
+    await redis.hDel(entriesKey(subredditId), ids);
+  }
+};
+
+export type ModLogFilters = {
+  username?: string | undefined;
+  mimeType?: string | undefined;
+  limit: number;
+};
+
+// Most recent uploads first, optionally narrowed to one uploader and/or one format
+export const listModLog = async (
+  subredditId: string,
+  filters: ModLogFilters
+): Promise<ModUploadEntry[]> => {
+  const ids = await redis.zRange(logKey(subredditId), 0, MAX_LOG_ENTRIES - 1, {
+    reverse: true,
+    by: 'rank',
+  });
+  if (ids.length === 0) return [];
+  const values = await redis.hMGet(
+    entriesKey(subredditId),
+    ids.map((m) => m.member)
+  );
+  const username = filters.username?.toLowerCase();
+  return values
+    .map((raw) => parse<ModUploadEntry>(raw))
+    .filter((e): e is ModUploadEntry => Boolean(e))
+    .filter((e) => !username || e.username.toLowerCase() === username)
+    .filter((e) => !filters.mimeType || e.mimeType === filters.mimeType)
+    .slice(0, filters.limit);
+};
+
+export const getBan = async (subredditId: string, userId: string): Promise<UploadBan | null> =>
+  parse<UploadBan>(await redis.hGet(bansKey(subredditId), userId));
+
+export const listBans = async (subredditId: string): Promise<UploadBan[]> => {
+  const all = await redis.hGetAll(bansKey(subredditId));
+  return Object.values(all || {})
+    .map((raw) => parse<UploadBan>(raw))
+    .filter((b): b is UploadBan => Boolean(b))
+    .sort((a, b) => (a.date < b.date ? 1 : -1));
+};
+
+export const banUploader = async (subredditId: string, ban: UploadBan): Promise<void> => {
+  await redis.hSet(bansKey(subredditId), { [ban.userId]: JSON.stringify(ban) });
+};
+
+// Returns false when the user wasn't banned
+export const unbanUploader = async (subredditId: string, userId: string): Promise<boolean> =>
+  (await redis.hDel(bansKey(subredditId), [userId])) > 0;
@@ -0,0 +1,226 @@
+import { redis } from '../services';
+import type { Form } from '@devvit/web/shared';
+import type { ErrorCode, MediaMimeType, UploadPolicy } from '../../shared/types/api';
+import {
+  DEFAULT_UPLOAD_POLICY,
+  IMAGE_MIME_TYPES,
+  MAX_UPLOAD_BYTES,
+  MAX_VIDEO_BYTES,
+  formatMegabytes,
+  formatMimeTypes,
+  isImageMimeType,
+  isVideoMimeType,
+} from '../../shared/policy';
+
+const policyKey = (subredditId: string) => `policy:${subredditId}`;
+
+export const getPolicy = async (subredditId: string): Promise<UploadPolicy> => {
+  const raw = await redis.get(policyKey(subredditId));
+  if (!raw) return DEFAULT_UPLOAD_POLICY;
+  try {
+    return { ...DEFAULT_UPLOAD_POLICY, ...(JSON.parse(raw) as Partial<UploadPolicy>) };
+  } catch {
+    return DEFAULT_UPLOAD_POLICY;
+  }
+};
+
+const isDimension = (value: unknown): value is number | null =>
+  value === null || (typeof value === 'number' && Number.isInteger(value) && value > 0);
+
+/**
+ * Merges a partial update into the current policy. Returns an error message instead of
+ * saving when any field is out of range.
+ */
+export const updatePolicy = async (
+  subredditId: string,
+  patch: Record<string, unknown>
+): Promise<{ policy: UploadPolicy } | { error: string }> => {
+  const next: UploadPolicy = { ...(await getPolicy(subredditId)) };
+
+  if (patch.allowedTypes !== undefined) {
+    const types = patch.allowedTypes;
+    if (!Array.isArray(types) || types.length === 0 || !types.every(isImageMimeType)) {
+      return { error: 'allowedTypes must list at least one supported image type' };
+    }
+    next.allowedTypes = [...new Set(types)];
+  }
+  if (patch.maxBytes !== undefined) {
+    const bytes = patch.maxBytes;
+    if (typeof bytes !== 'number' || !Number.isInteger(bytes) || bytes <= 0) {
+      return { error: 'maxBytes must be a positive integer' };
+    }
+    if (bytes > MAX_UPLOAD_BYTES) {
+      return { error: `maxBytes cannot exceed ${formatMegabytes(MAX_UPLOAD_BYTES)}` };
+    }
+    next.maxBytes = bytes;
+  }
+  if (patch.maxWidth !== undefined) {
+    if (!isDimension(patch.maxWidth)) return { error: 'maxWidth must be a positive integer' };
+    next.maxWidth = patch.maxWidth;
+  }
+  if (patch.maxHeight !== undefined) {
+    if (!isDimension(patch.maxHeight)) return { error: 'maxHeight must be a positive integer' };
+    next.maxHeight = patch.maxHeight;
+  }
+  if (patch.allowAnimatedGifs !== undefined) {
+    if (typeof patch.allowAnimatedGifs !== 'boolean') {
+      return { error: 'allowAnimatedGifs must be true or false' };
+    }
+    next.allowAnimatedGifs = patch.allowAnimatedGifs;
+  }
+  if (patch.allowVideos !== undefined) {
+    if (typeof patch.allowVideos !== 'boolean') {
+      return { error: 'allowVideos must be true or false' };
+    }
+    next.allowVideos = patch.allowVideos;
+  }
+  if (patch.maxVideoBytes !== undefined) {
+    const bytes = patch.maxVideoBytes;
+    if (typeof bytes !== 'number' || !Number.isInteger(bytes) || bytes <= 0) {
+      return { error: 'maxVideoBytes must be a positive integer' };
+    }
+    if (bytes > MAX_VIDEO_BYTES) {
+      return { error: `maxVideoBytes cannot exceed ${formatMegabytes(MAX_VIDEO_BYTES)}` };
+    }
+    next.maxVideoBytes = bytes;
+  }
+
+  await redis.set(policyKey(subredditId), JSON.stringify(next));
+  return { policy: next };
+};
+
+export type PolicyViolation = {
+  status: 413 | 415 | 422;
+  code: Extract<ErrorCode, 'TOO_LARGE' | 'UNSUPPORTED_TYPE' | 'POLICY_VIOLATION'>;
+  message: string;
+};
+
+// Checks an upload against the subreddit's policy before anything is stored
+export const checkPolicy = (
+  policy: UploadPolicy,
+  mimeType: MediaMimeType,
+  bytes: number,
+  info: { width?: number | undefined; height?: number | undefined; animated?: boolean } | null
+): PolicyViolation | null => {
+  if (isVideoMimeType(mimeType)) {
+    if (!policy.allowVideos) {
+      return { status: 415, code: 'UNSUPPORTED_TYPE', message: 'Videos are not allowed here' };
+    }
+    if (bytes > policy.maxVideoBytes) {
+      return {
+        status: 413,
+        code: 'TOO_LARGE',
+        message: `Video must be under ${formatMegabytes(policy.maxVideoBytes)}`,
+      };
+    }
+  } else if (!policy.allowedTypes.includes(mimeType)) {
+    return {
+      status: 415,
+      code: 'UNSUPPORTED_TYPE',
+      message: `Only ${formatMimeTypes(policy.allowedTypes)} images are allowed here`,
+    };
+  } else if (bytes > policy.maxBytes) {
+    return {
+      status: 413,
+      code: 'TOO_LARGE',
+      message: `Image must be under ${formatMegabytes(policy.maxBytes)}`,
+    };
+  }
+  if (info) {
+    const noun = isVideoMimeType(mimeType) ? 'Video' : 'Image';
+    if (policy.maxWidth !== null && info.width !== undefined && info.width > policy.maxWidth) {
+      return {
+        status: 422,
+        code: 'POLICY_VIOLATION',
+        message: `${noun} must be at most ${policy.maxWidth}px wide`,
+      };
+    }
+    if (policy.maxHeight !== null && info.height !== undefined && info.height > policy.maxHeight) {
+      return {
+        status: 422,
+        code: 'POLICY_VIOLATION',
+        message: `${noun} must be at most ${policy.maxHeight}px tall`,
+      };
+    }
+    if (!policy.allowAnimatedGifs && mimeType === 'image/gif' && info.animated) {
+      return {
+        status: 422,
+        code: 'POLICY_VIOLATION',
+        message: 'Animated GIFs are not allowed here',
+      };
+    }
+  }
+  return null;
+};
+
+// Field names used by the moderator menu form (devvit.json "forms.uploadPolicy")
+export type PolicyFormValues = {
+  allowedTypes?: string[];
+  maxMegabytes?: number;
+  maxWidth?: number;
+  maxHeight?: number;
+  allowAnimatedGifs?: boolean;
+  allowVideos?: boolean;
+  maxVideoMegabytes?: number;
+};
+
+export const policyForm = (policy: UploadPolicy): { form: Form; data: PolicyFormValues } => ({
+  form: {
+    title: 'Image Drop upload policy',
+    description: 'Applies to everyone uploading through Image Drop in this subreddit.',
+    acceptLabel: 'Save',
+    fields: [
+      {
+        type: 'select',
+        name: 'allowedTypes',
+        label: 'Allowed formats',
+        multiSelect: true,
+        required: true,
+        options: IMAGE_MIME_TYPES.map((t) => ({ label: formatMimeTypes([t]), value: t })),
+      },
+      {
+        type: 'number',
+        name: 'maxMegabytes',
+        label: `Max file size in MB (up to ${formatMegabytes(MAX_UPLOAD_BYTES)})`,
+        required: true,
+      },
+      { type: 'number', name: 'maxWidth', label: 'Max width in pixels (0 = no limit)' },
+      { type: 'number', name: 'maxHeight', label: 'Max height in pixels (0 = no limit)' },
+      { type: 'boolean', name: 'allowAnimatedGifs', label: 'Allow animated GIFs' },
+      { type: 'boolean', name: 'allowVideos', label: 'Allow MP4 and WebM videos' },
+      {
+        type: 'number',
+        name: 'maxVideoMegabytes',
+        label: `Max video size in MB (up to ${formatMegabytes(MAX_VIDEO_BYTES)})`,
+      },
+    ],
+  },
+  data: {
+    allowedTypes: policy.allowedTypes,
+    maxMegabytes: policy.maxBytes / (1024 * 1024),
+    maxWidth: policy.maxWidth ?? 0,
+    maxHeight: policy.maxHeight ?? 0,
+    allowAnimatedGifs: policy.allowAnimatedGifs,
+    allowVideos: policy.allowVideos,
+    maxVideoMegabytes: policy.maxVideoBytes / (1024 * 1024),
+  },
+});
+
+// Translates submitted form values into an update for `updatePolicy`
+export const policyUpdateFromForm = (values: PolicyFormValues): Record<string, unknown> => {
+  const update: Record<string, unknown> = {};
+  if (values.allowedTypes !== undefined) update.allowedTypes = values.allowedTypes;
+  if (values.maxMegabytes !== undefined) {
+    update.maxBytes = Math.round(values.maxMegabytes * 1024 * 1024);
+  }
+  if (values.maxWidth !== undefined) update.maxWidth = values.maxWidth > 0 ? values.maxWidth : null;
+  if (values.maxHeight !== undefined) {
+    update.maxHeight = values.maxHeight > 0 ? values.maxHeight : null;
+  }
+  if (values.allowAnimatedGifs !== undefined) update.allowAnimatedGifs = values.allowAnimatedGifs;
+  if (values.allowVideos !== undefined) update.allowVideos = values.allowVideos;
+  if (values.maxVideoMegabytes !== undefined) {
+    update.maxVideoBytes = Math.round(values.maxVideoMegabytes * 1024 * 1024);
+  }
+  return update;
+};
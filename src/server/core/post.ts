@@ -1,16 +1,52 @@
-import { context, reddit } from '@devvit/web/server';
+import { context, reddit, redis } from '../services';
+import type { GallerySettings } from '../../shared/types/api';
+import { isModerator } from './moderators';
 
-export const createPost = async () => {
-  const { subredditName } = context;
+// Per-post configuration, written when the app creates the post
+type PostConfig = {
+  authorId?: string; // the user who created the post from the menu; absent for install posts
+} & GallerySettings;
+
+const postKey = (postId: string) => `post:${postId}`;
+
+// Posts created before configs existed are plain private uploaders
+export const getPostConfig = async (postId: string): Promise<PostConfig> => {
+  const raw = await redis.get(postKey(postId));
+  if (!raw) return { enabled: false };
+  try {
+    return JSON.parse(raw) as PostConfig;
+  } catch {
+    return { enabled: false };
+  }
+};
+
+export const setGalleryEnabled = async (postId: string, enabled: boolean): Promise<PostConfig> => {
+  const config = { ...(await getPostConfig(postId)), enabled };
+  await redis.set(postKey(postId), JSON.stringify(config));
+  return config;
+};
+
+export const createPost = async ({ gallery = false }: { gallery?: boolean } = {}) => {
+  const { subredditName, userId } = context;
   if (!subredditName) {
     throw new Error('subredditName is required');
   }
 
-  return await reddit.submitCustomPost({
+  const post = await reddit.submitCustomPost({
     splash: {
       appDisplayName: 'Image Drop',
     },
     subredditName: subredditName,
-    title: 'Upload images to Reddit',
+    title: gallery ? 'Community image gallery' : 'Upload images to Reddit',
   });
+  const config: PostConfig = { enabled: gallery, ...(userId ? { authorId: userId } : {}) };
+  await redis.set(postKey(post.id), JSON.stringify(config));
+  return post;
+};
+
+// The post's author and the subreddit's moderators may manage its gallery
+export const canManagePost = async (postId: string): Promise<boolean> => {
+  const { authorId } = await getPostConfig(postId);
+  if (authorId && authorId === context.userId) return true;
+  return isModerator();
 };
@@ -0,0 +1,65 @@
+import { clock, context, reddit } from '../services';
+import type { Publication, PublishRequest, UploadedAsset } from '../../shared/types/api';
+
+export const MAX_TITLE_LENGTH = 300;
+export const MAX_COMMENT_LENGTH = 10000;
+
+const absolute = (permalink: string) =>
+  permalink.startsWith('http') ? permalink : `https://www.reddit.com${permalink}`;
+
+// Returns an error message when the request can't be published from the current context
+export const validatePublish = (req: Partial<PublishRequest>): string | null => {
+  if (typeof req.mediaId !== 'string' || !req.mediaId) return 'mediaId is required';
+  if (req.target !== 'post' && req.target !== 'comment') {
+    return 'target must be "post" or "comment"';
+  }
+  if (req.body !== undefined && typeof req.body !== 'string') return 'body must be a string';
+  if ((req.body?.length ?? 0) > MAX_COMMENT_LENGTH) {
+    return `Comment must be at most ${MAX_COMMENT_LENGTH} characters`;
+  }
+  if (req.target === 'post') {
+    if (!context.subredditName) return 'Posts can only be published from inside a subreddit';
+    if (typeof req.title !== 'string' || !req.title.trim()) return 'A post needs a title';
+    if (req.title.trim().length > MAX_TITLE_LENGTH) {
+      return `Title must be at most ${MAX_TITLE_LENGTH} characters`;
+    }
+  }
+  if (req.target === 'comment' && !context.postId) {
+    return 'Comments can only be published from inside a post';
+  }
+  return null;
+};
+
+/**
+ * Submits the upload as the current user: a new image post (or a link post for videos) in the
+ * current subreddit, or a comment on the current post linking to the media.
+ */
+export const publishAsset = async (
+  asset: UploadedAsset,
+  req: PublishRequest
+): Promise<Publication> => {
+  const date = new Date(clock.now()).toISOString();
+  if (req.target === 'post') {
+    const { subredditName } = context;
+    if (!subredditName) throw new Error('subredditName is required');
+    const title = req.title!.trim();
+    const post = await reddit.submitPost(
+      asset.mediaType === 'video'
+        ? { subredditName, title, url: asset.mediaUrl, runAs: 'USER' }
+        : { subredditName, title, kind: 'image', imageUrls: [asset.mediaUrl], runAs: 'USER' }
+    );
+    return { target: 'post', permalink: absolute(post.permalink), date };
+  }
+
+  const { postId } = context;
+  if (!postId) throw new Error('postId is required');
+  const label = asset.altText || asset.caption || asset.mediaType;
+  const link = `[${label.replace(/[[\]]/g, '')}](${asset.mediaUrl})`;
+  const body = req.body?.trim();
+  const comment = await reddit.submitComment({
+    id: postId,
+    text: body ? `${body}\n\n${link}` : link,
+    runAs: 'USER',
+  });
+  return { target: 'comment', permalink: absolute(comment.permalink), date };
+};
@@ -0,0 +1,150 @@
+import { clock, redis, settings } from '../services';
+import type { QuotaLimits, QuotaResponse } from '../../shared/types/api';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Used when the subreddit hasn't set its own values in the app settings
+export const DEFAULT_QUOTA_LIMITS: QuotaLimits = {
+  uploadsPerHour: 30,
+  uploadsPerDay: 100,
+  bytesPerDay: 100 * 1024 * 1024,
+};
+
+// Fixed windows: counters are keyed by the hour/day bucket they fall in and expire with it
+const hourKey = (userId: string, now: number) => `quota:${userId}:h:${Math.floor(now / HOUR_MS)}`;
+const dayKey = (userId: string, now: number) => `quota:${userId}:d:${Math.floor(now / DAY_MS)}`;
+const dayBytesKey = (userId: string, now: number) =>
+  `quota:${userId}:b:${Math.floor(now / DAY_MS)}`;
+
+const windowEnd = (now: number, size: number) => (Math.floor(now / size) + 1) * size;
+
+const positive = (value: number | undefined, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? value : fallback;
+
+export const getQuotaLimits = async (): Promise<QuotaLimits> => {
+  const [perHour, perDay, mbPerDay] = await Promise.all([
+    settings.get<number>('uploadsPerHour'),
+    settings.get<number>('uploadsPerDay'),
+    settings.get<number>('megabytesPerDay'),
+  ]);
+  return {
+    uploadsPerHour: positive(perHour, DEFAULT_QUOTA_LIMITS.uploadsPerHour),
+    uploadsPerDay: positive(perDay, DEFAULT_QUOTA_LIMITS.uploadsPerDay),
+    bytesPerDay:
+      mbPerDay === undefined
+        ? DEFAULT_QUOTA_LIMITS.bytesPerDay
+        : positive(mbPerDay * 1024 * 1024, DEFAULT_QUOTA_LIMITS.bytesPerDay),
+  };
+};
+
+const readCount = async (key: string) => Number((await redis.get(key)) ?? 0) || 0;
+
+export const getQuota = async (userId: string, now = clock.now()): Promise<QuotaResponse> => {
+  const limits = await getQuotaLimits();
+  const [hourCount, dayCount, dayBytes] = await Promise.all([
+    readCount(hourKey(userId, now)),
+    readCount(dayKey(userId, now)),
+    readCount(dayBytesKey(userId, now)),
+  ]);
+  return {
+    type: 'quota',
+    limits,
+    remaining: {
+      uploadsThisHour: Math.max(0, limits.uploadsPerHour - hourCount),
+      uploadsToday: Math.max(0, limits.uploadsPerDay - dayCount),
+      bytesToday: Math.max(0, limits.bytesPerDay - dayBytes),
+    },
+    hourResetsAt: new Date(windowEnd(now, HOUR_MS)).toISOString(),
+    dayResetsAt: new Date(windowEnd(now, DAY_MS)).toISOString(),
+  };
+};
+
+type QuotaRefusal = { allowed: false; retryAfterSeconds: number; reason: string };
+
+type QuotaUsage = { hour: number; day: number; dayBytes: number };
+
+// The first window, longest first, that `usage` (including the upload in question) overruns
+const refusal = (limits: QuotaLimits, usage: QuotaUsage, now: number): QuotaRefusal | null => {
+  const secondsUntil = (end: number) => Math.max(1, Math.ceil((end - now) / 1000));
+  if (usage.day > limits.uploadsPerDay) {
+    return {
+      allowed: false,
+      retryAfterSeconds: secondsUntil(windowEnd(now, DAY_MS)),
+      reason: 'Daily upload limit reached',
+    };
+  }
+  if (usage.dayBytes > limits.bytesPerDay) {
+    return {
+      allowed: false,
+      retryAfterSeconds: secondsUntil(windowEnd(now, DAY_MS)),
+      reason: 'Daily upload size limit reached',
+    };
+  }
+  if (usage.hour > limits.uploadsPerHour) {
+    return {
+      allowed: false,
+      retryAfterSeconds: secondsUntil(windowEnd(now, HOUR_MS)),
+      reason: 'Hourly upload limit reached',
+    };
+  }
+  return null;
+};
+
+// Read-only: whether `bytes` (the file as sent) would fit, for refusing an upload up front
+export const checkQuota = async (
+  userId: string,
+  bytes: number,
+  now = clock.now()
+): Promise<{ allowed: true } | QuotaRefusal> => {
+  const usage = {
+    hour: (await readCount(hourKey(userId, now))) + 1,
+    day: (await readCount(dayKey(userId, now))) + 1,
+    dayBytes: (await readCount(dayBytesKey(userId, now))) + bytes,
+  };
+  return refusal(await getQuotaLimits(), usage, now) ?? { allowed: true };
+};
+
+// What a reservation added, so releaseQuota can take it back out of the same windows
+export type QuotaReservation = { userId: string; bytes: number; now: number };
+
+const addUsage = async (
+  { userId, bytes, now }: QuotaReservation,
+  sign: 1 | -1
+): Promise<QuotaUsage> => {
+  const hour = hourKey(userId, now);
+  const day = dayKey(userId, now);
+  const dayBytes = dayBytesKey(userId, now);
+  const usage = {
+    hour: await redis.incrBy(hour, sign),
+    day: await redis.incrBy(day, sign),
+    dayBytes: await redis.incrBy(dayBytes, sign * bytes),
+  };
+  const hourTtl = Math.ceil((windowEnd(now, HOUR_MS) - now) / 1000);
+  const dayTtl = Math.ceil((windowEnd(now, DAY_MS) - now) / 1000);
+  await redis.expire(hour, hourTtl);
+  await redis.expire(day, dayTtl);
+  await redis.expire(dayBytes, dayTtl);
+  return usage;
+};
+
+// Counts the upload first and checks the totals after, so parallel uploads can't all slip in
+export const reserveQuota = async (
+  userId: string,
+  bytes: number,
+  now = clock.now()
+): Promise<{ allowed: true; reservation: QuotaReservation } | QuotaRefusal> => {
+  const reservation = { userId, bytes, now };
+  const usage = await addUsage(reservation, 1);
+  const refused = refusal(await getQuotaLimits(), usage, now);
+  if (refused) {
+    await releaseQuota(reservation);
+    return refused;
+  }
+  return { allowed: true, reservation };
+};
+
+// Gives back a reservation for an upload that wasn't stored after all
+export const releaseQuota = async (reservation: QuotaReservation): Promise<void> => {
+  await addUsage(reservation, -1);
+};
@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { stripMetadata } from './sanitize';
+import { validateImage } from './validate';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+// The EXIF block the sanitizer writes back: a little-endian TIFF with only the Orientation tag
+const orientationExif = (orientation: number) => {
+  const tiff = Buffer.alloc(26);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4);
+  tiff.writeUInt16LE(1, 8);
+  tiff.writeUInt16LE(0x0112, 10);
+  tiff.writeUInt16LE(3, 12);
+  tiff.writeUInt32LE(1, 14);
+  tiff.writeUInt16LE(orientation, 18);
+  return tiff;
+};
+
+const contains = (buf: Buffer, text: string) => buf.includes(Buffer.from(text, 'latin1'));
+
+describe('stripMetadata', () => {
+  describe('JPEG', () => {
+    it('strips EXIF, XMP and IPTC but keeps the ICC profile and orientation', () => {
+      const { data, stripped } = stripMetadata(fixture('metadata.jpg'), 'image/jpeg');
+
+      expect(stripped).toEqual(['exif', 'xmp', 'iptc']);
+      expect(contains(data, 'xmpmeta')).toBe(false);
+      expect(contains(data, 'Photoshop 3.0')).toBe(false);
+      expect(contains(data, 'ICC_PROFILE')).toBe(true);
+      expect(data.includes(orientationExif(6))).toBe(true);
+      expect(validateImage(data, 'image/jpeg')).toEqual({ ok: true });
+    });
+
+    it('skips fill bytes before markers', () => {
+      const { data, stripped } = stripMetadata(fixture('fill-bytes.jpg'), 'image/jpeg');
+
+      expect(stripped).toEqual(['exif']);
+      expect(data.includes(orientationExif(6))).toBe(true);
+      expect(validateImage(data, 'image/jpeg')).toEqual({ ok: true });
+    });
+
+    it('throws on a segment that runs past the end of the file', () => {
+      expect(() => stripMetadata(fixture('bad-segment-length.jpg'), 'image/jpeg')).toThrow(
+        /Truncated JPEG segment/
+      );
+    });
+
+    it('returns files without metadata unchanged', () => {
+      const jpeg = fixture('valid.jpg');
+      expect(stripMetadata(jpeg, 'image/jpeg')).toEqual({ data: jpeg, stripped: [] });
+    });
+  });
+
+  it('strips PNG text and eXIf chunks but keeps iCCP and the orientation', () => {
+    const { data, stripped } = stripMetadata(fixture('metadata.png'), 'image/png');
+
+    expect(stripped).toEqual(['text', 'exif']);
+    expect(contains(data, 'tEXt')).toBe(false);
+    expect(contains(data, 'iCCP')).toBe(true);
+    expect(data.includes(orientationExif(6))).toBe(true);
+    expect(validateImage(data, 'image/png')).toEqual({ ok: true });
+  });
+
+  it('strips WebP EXIF and XMP chunks and updates the VP8X flags and RIFF size', () => {
+    const { data, stripped } = stripMetadata(fixture('metadata.webp'), 'image/webp');
+
+    expect(stripped).toEqual(['exif', 'xmp']);
+    expect(contains(data, 'XMP ')).toBe(false);
+    expect(data.includes(orientationExif(6))).toBe(true);
+    // VP8X flags: EXIF (0x08) still set for the orientation, XMP (0x04) cleared
+    expect(data[20]! & 0x0c).toBe(0x08);
+    expect(data.readUInt32LE(4)).toBe(data.length - 8);
+    expect(validateImage(data, 'image/webp')).toEqual({ ok: true });
+  });
+
+  it('leaves GIFs untouched', () => {
+    const gif = fixture('valid.gif');
+    expect(stripMetadata(gif, 'image/gif')).toEqual({ data: gif, stripped: [] });
+  });
+});
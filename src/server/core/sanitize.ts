@@ -0,0 +1,219 @@
+import type { ImageMimeType, MetadataKind } from '../../shared/types/api';
+import { crc32 } from './crc32';
+
+export type SanitizeResult = {
+  data: Buffer;
+  stripped: MetadataKind[];
+};
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/', 'latin1');
+const ORIENTATION_TAG = 0x0112;
+
+const ascii = (buf: Buffer, start: number, length: number) =>
+  buf.toString('latin1', start, start + length);
+
+// Reads the Orientation tag (1-8) from IFD0 of a TIFF-structured EXIF payload
+const readOrientation = (tiff: Buffer): number | null => {
+  try {
+    const le = ascii(tiff, 0, 2) === 'II';
+    const u16 = (o: number) => (le ? tiff.readUInt16LE(o) : tiff.readUInt16BE(o));
+    const u32 = (o: number) => (le ? tiff.readUInt32LE(o) : tiff.readUInt32BE(o));
+    const ifd = u32(4);
+    const count = u16(ifd);
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12;
+      if (u16(entry) === ORIENTATION_TAG) {
+        const value = u16(entry + 8);
+        return value >= 1 && value <= 8 ? value : null;
+      }
+    }
+  } catch {
+    // Malformed EXIF; treat as no orientation
+  }
+  return null;
+};
+
+// Smallest valid TIFF block carrying only the Orientation tag, so rotated photos still display upright
+const orientationTiff = (orientation: number): Buffer => {
+  const tiff = Buffer.alloc(26);
+  tiff.write('II', 0, 'latin1');
+  tiff.writeUInt16LE(42, 2);
+  tiff.writeUInt32LE(8, 4); // IFD0 offset
+  tiff.writeUInt16LE(1, 8); // one entry
+  tiff.writeUInt16LE(ORIENTATION_TAG, 10);
+  tiff.writeUInt16LE(3, 12); // SHORT
+  tiff.writeUInt32LE(1, 14);
+  tiff.writeUInt16LE(orientation, 18);
+  tiff.writeUInt32LE(0, 22); // no next IFD
+  return tiff;
+};
+
+const addKind = (kinds: MetadataKind[], kind: MetadataKind) => {
+  if (!kinds.includes(kind)) kinds.push(kind);
+};
+
+// JPEG: drop APP1 (EXIF/XMP) and APP13 (Photoshop/IPTC) segments; APP2 ICC profiles are kept
+const sanitizeJpeg = (buf: Buffer): SanitizeResult => {
+  const out: Buffer[] = [buf.subarray(0, 2)];
+  const stripped: MetadataKind[] = [];
+  let orientation: number | null = null;
+  let insertAt: number | null = null;
+  let offset = 2;
+
+  while (offset + 4 <= buf.length && buf[offset] === 0xff) {
+    const marker = buf[offset + 1]!;
+    // Any number of 0xFF fill bytes may precede a marker; they carry nothing, so drop them
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    // Start of scan: everything after is entropy-coded data, copy it as is
+    if (marker === 0xda) break;
+    const length = buf.readUInt16BE(offset + 2);
+    const end = offset + 2 + length;
+    if (length < 2 || end > buf.length) {
+      throw new Error(`Truncated JPEG segment 0x${marker.toString(16)} at byte ${offset}`);
+    }
+    const payload = buf.subarray(offset + 4, end);
+
+    if (marker === 0xe1) {
+      if (payload.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER)) {
+        orientation ??= readOrientation(payload.subarray(EXIF_HEADER.length));
+        addKind(stripped, 'exif');
+      } else if (payload.subarray(0, XMP_HEADER.length).equals(XMP_HEADER)) {
+        addKind(stripped, 'xmp');
+      } else {
+        addKind(stripped, 'other');
+      }
+      insertAt ??= out.length;
+    } else if (marker === 0xed) {
+      addKind(stripped, 'iptc');
+    } else {
+      out.push(buf.subarray(offset, end));
+    }
+    offset = end;
+  }
+  out.push(buf.subarray(offset));
+
+  if (orientation !== null && orientation !== 1 && insertAt !== null) {
+    const tiff = Buffer.concat([EXIF_HEADER, orientationTiff(orientation)]);
+    const header = Buffer.alloc(4);
+    header.writeUInt16BE(0xffe1, 0);
+    header.writeUInt16BE(tiff.length + 2, 2);
+    out.splice(insertAt, 0, header, tiff);
+  }
+  return { data: stripped.length > 0 ? Buffer.concat(out) : buf, stripped };
+};
+
+const pngChunk = (type: string, data: Buffer): Buffer => {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, 'latin1');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+};
+
+// PNG: drop text and eXIf chunks; iCCP and everything else is copied verbatim
+const sanitizePng = (buf: Buffer): SanitizeResult => {
+  const out: Buffer[] = [buf.subarray(0, 8)];
+  const stripped: MetadataKind[] = [];
+  let orientation: number | null = null;
+  let insertAt: number | null = null;
+  let offset = 8;
+
+  while (offset + 12 <= buf.length) {
+    const length = buf.readUInt32BE(offset);
+    const type = ascii(buf, offset + 4, 4);
+    const end = offset + 12 + length;
+    if (type === 'tEXt' || type === 'iTXt' || type === 'zTXt') {
+      addKind(stripped, 'text');
+    } else if (type === 'eXIf') {
+      orientation ??= readOrientation(buf.subarray(offset + 8, offset + 8 + length));
+      addKind(stripped, 'exif');
+      // eXIf must precede IDAT, so re-insert where the first one was
+      insertAt ??= out.length;
+    } else {
+      out.push(buf.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') break;
+  }
+  out.push(buf.subarray(offset));
+
+  if (orientation !== null && orientation !== 1 && insertAt !== null) {
+    out.splice(insertAt, 0, pngChunk('eXIf', orientationTiff(orientation)));
+  }
+  return { data: stripped.length > 0 ? Buffer.concat(out) : buf, stripped };
+};
+
+// WebP: drop EXIF and XMP chunks from the RIFF container and fix up the VP8X flags and size
+const sanitizeWebp = (buf: Buffer): SanitizeResult => {
+  const out: Buffer[] = [];
+  const stripped: MetadataKind[] = [];
+  let orientation: number | null = null;
+  let vp8x: Buffer | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buf.length) {
+    const type = ascii(buf, offset, 4);
+    const size = buf.readUInt32LE(offset + 4);
+    const end = Math.min(offset + 8 + size + (size % 2), buf.length);
+    if (type === 'EXIF') {
+      const payload = buf.subarray(offset + 8, offset + 8 + size);
+      const tiff = payload.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER)
+        ? payload.subarray(EXIF_HEADER.length)
+        : payload;
+      orientation ??= readOrientation(tiff);
+      addKind(stripped, 'exif');
+    } else if (type === 'XMP ') {
+      addKind(stripped, 'xmp');
+    } else {
+      const chunk = Buffer.from(buf.subarray(offset, end));
+      if (type === 'VP8X') vp8x = chunk;
+      out.push(chunk);
+    }
+    offset = end;
+  }
+  if (stripped.length === 0) return { data: buf, stripped };
+
+  const keepOrientation = orientation !== null && orientation !== 1 && vp8x !== null;
+  if (vp8x) {
+    // flags byte: 0x08 = EXIF present, 0x04 = XMP present
+    vp8x[8] = (vp8x[8]! & ~0x0c) | (keepOrientation ? 0x08 : 0);
+  }
+  if (keepOrientation) {
+    // EXIF chunks belong after the image data
+    const tiff = orientationTiff(orientation!);
+    const head = Buffer.alloc(8);
+    head.write('EXIF', 0, 'latin1');
+    head.writeUInt32LE(tiff.length, 4);
+    out.push(head, tiff);
+  }
+  const body = Buffer.concat(out);
+  const header = Buffer.alloc(12);
+  header.write('RIFF', 0, 'latin1');
+  header.writeUInt32LE(body.length + 4, 4);
+  header.write('WEBP', 8, 'latin1');
+  return { data: Buffer.concat([header, body]), stripped };
+};
+
+/**
+ * Removes privacy-sensitive metadata (EXIF incl. GPS, XMP, IPTC, text chunks) before the
+ * image leaves the server. Color profiles are kept, and a non-default EXIF orientation is
+ * re-written as a minimal EXIF block so the image still displays the right way up.
+ * GIFs are returned unchanged. Throws on malformed input rather than pass bytes through.
+ */
+export const stripMetadata = (buf: Buffer, mimeType: ImageMimeType): SanitizeResult => {
+  switch (mimeType) {
+    case 'image/jpeg':
+      return sanitizeJpeg(buf);
+    case 'image/png':
+      return sanitizePng(buf);
+    case 'image/webp':
+      return sanitizeWebp(buf);
+    case 'image/gif':
+      return { data: buf, stripped: [] };
+  }
+};
@@ -0,0 +1,102 @@
+import { clock, media, redis } from '../services';
+import type { UploadedAsset } from '../../shared/types/api';
+import { MAX_THUMBNAIL_BYTES, THUMBNAIL_EDGE, THUMBNAIL_MIME_TYPES } from '../../shared/policy';
+import { readImageInfo } from './imageInfo';
+import type { UploadFailure } from './ingest';
+import { stripMetadata } from './sanitize';
+import { findUploads, setThumbnail } from './uploads';
+import { validateImage } from './validate';
+
+// Claimed before the thumbnail is stored, so parallel requests can't each store one. It
+// outlives the upload so a request that read the asset before its thumbnailUrl was saved
+// still finds the claim taken.
+const claimKey = (userId: string, mediaId: string) => `${userId}:thumbnail:${mediaId}`;
+const CLAIM_TTL_MS = 24 * 60 * 60 * 1000;
+
+const alreadyHasThumbnail: UploadFailure = {
+  status: 409,
+  code: 'INVALID_REQUEST',
+  message: 'This upload already has a thumbnail',
+};
+
+/**
+ * Stores a client-rendered thumbnail for one of the user's uploads. It goes through the same
+ * structural checks as a full upload but not the quota, so each upload gets one thumbnail
+ * only; otherwise repeating the request would store media without limit.
+ */
+export const saveThumbnail = async (
+  userId: string,
+  mediaId: string,
+  body: Buffer,
+  mimeType: string | undefined
+): Promise<{ asset: UploadedAsset } | { failure: UploadFailure }> => {
+  const type = THUMBNAIL_MIME_TYPES.find((t) => t === mimeType);
+  if (!type) {
+    return {
+      failure: {
+        status: 415,
+        code: 'UNSUPPORTED_TYPE',
+        message: 'Thumbnails must be WebP or JPEG',
+      },
+    };
+  }
+  if (body.length > MAX_THUMBNAIL_BYTES) {
+    return {
+      failure: {
+        status: 413,
+        code: 'TOO_LARGE',
+        message: `Thumbnails must be under ${MAX_THUMBNAIL_BYTES / 1024}KB`,
+      },
+    };
+  }
+  const asset = (await findUploads(userId, [mediaId])).get(mediaId);
+  if (!asset) return { failure: { status: 404, code: 'NOT_FOUND', message: 'Upload not found' } };
+  if (asset.thumbnailUrl) return { failure: alreadyHasThumbnail };
+
+  const validation = validateImage(body, type);
+  if (!validation.ok) {
+    return {
+      failure: {
+        status: 415,
+        code: 'INVALID_IMAGE',
+        message: `Invalid image format: ${validation.reason}`,
+      },
+    };
+  }
+  const info = readImageInfo(body, type);
+  if (!info || Math.max(info.width, info.height) > THUMBNAIL_EDGE || info.animated) {
+    return {
+      failure: {
+        status: 422,
+        code: 'POLICY_VIOLATION',
+        message: `Thumbnails must be still images at most ${THUMBNAIL_EDGE}px on each side`,
+      },
+    };
+  }
+
+  const claimed = await redis.set(claimKey(userId, mediaId), '1', {
+    nx: true,
+    expiration: new Date(clock.now() + CLAIM_TTL_MS),
+  });
+  if (!claimed) return { failure: alreadyHasThumbnail };
+
+  const data = stripMetadata(body, type).data;
+  let uploaded: Awaited<ReturnType<typeof media.upload>>;
+  try {
+    uploaded = await media.upload({
+      type: 'image',
+      url: `data:${type};base64,${data.toString('base64')}`,
+    });
+  } catch (error) {
+    console.error('Thumbnail upload error:', error);
+    await redis.del(claimKey(userId, mediaId));
+    return {
+      failure: {
+        status: 502,
+        code: 'UPSTREAM_MEDIA_ERROR',
+        message: 'Reddit could not store the thumbnail',
+      },
+    };
+  }
+  return { asset: await setThumbnail(userId, asset, uploaded.mediaUrl) };
+};
@@ -0,0 +1,218 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { clock, redis } from '../services';
+import type { UploadSessionResponse } from '../../shared/types/api';
+import { MAX_VIDEO_BYTES, formatMegabytes } from '../../shared/policy';
+import type { UploadFailure, UploadMeta } from './ingest';
+
+// Each chunk is its own request, so this stays well under the platform's request size limit
+export const UPLOAD_CHUNK_BYTES = 1024 * 1024;
+// Sliding: every stored chunk pushes the expiry out again
+export const UPLOAD_SESSION_TTL_SECONDS = 24 * 60 * 60;
+// Per user, so unfinished sessions can't fill Redis; the client runs three uploads at a time
+export const MAX_OPEN_UPLOAD_SESSIONS = 5;
+// Room for two of the largest files the server accepts
+export const MAX_STAGED_UPLOAD_BYTES = 2 * MAX_VIDEO_BYTES;
+
+export type UploadSession = {
+  id: string;
+  userId: string;
+  meta: UploadMeta;
+  bytes: number;
+  sha256: string; // hex digest the assembled file must match
+  chunkBytes: number;
+  totalChunks: number;
+  expiresAt: string; // ISO timestamp
+};
+
+const sessionKey = (sessionId: string) => `uploadSession:${sessionId}`;
+// Hash of chunk index → base64 bytes; Redis values are strings
+const chunksKey = (sessionId: string) => `uploadSession:${sessionId}:chunks`;
+// Hash of the user's open session ids → declared bytes; entries outlive expired sessions
+// until the next lookup prunes them
+const openSessionsKey = (userId: string) => `${userId}:uploadSessions`;
+
+const saveSession = async (session: UploadSession): Promise<UploadSession> => {
+  const expiresAt = new Date(clock.now() + UPLOAD_SESSION_TTL_SECONDS * 1000);
+  const next = { ...session, expiresAt: expiresAt.toISOString() };
+  await redis.set(sessionKey(session.id), JSON.stringify(next), { expiration: expiresAt });
+  await redis.hSet(openSessionsKey(session.userId), { [session.id]: String(session.bytes) });
+  await redis.expire(openSessionsKey(session.userId), UPLOAD_SESSION_TTL_SECONDS);
+  return next;
+};
+
+// The user's sessions that haven't been completed, canceled or left to expire
+const openSessions = async (userId: string): Promise<UploadSession[]> => {
+  const ids = await redis.hKeys(openSessionsKey(userId));
+  const sessions: UploadSession[] = [];
+  const expired: string[] = [];
+  for (const id of ids) {
+    const raw = await redis.get(sessionKey(id));
+    if (raw) sessions.push(JSON.parse(raw) as UploadSession);
+    else expired.push(id);
+  }
+  if (expired.length > 0) await redis.hDel(openSessionsKey(userId), expired);
+  return sessions;
+};
+
+/**
+ * Caps how much a user can have in flight: at most MAX_OPEN_UPLOAD_SESSIONS sessions, whose
+ * declared sizes together stay within MAX_STAGED_UPLOAD_BYTES.
+ */
+export const checkUploadSessionLimits = async (
+  userId: string,
+  bytes: number
+): Promise<UploadFailure | null> => {
+  const sessions = await openSessions(userId);
+  if (sessions.length >= MAX_OPEN_UPLOAD_SESSIONS) {
+    return {
+      status: 429,
+      code: 'RATE_LIMITED',
+      message: `You can have at most ${MAX_OPEN_UPLOAD_SESSIONS} uploads in progress. Finish or cancel one first.`,
+    };
+  }
+  const declared = sessions.reduce((sum, s) => sum + s.bytes, 0);
+  if (declared + bytes > MAX_STAGED_UPLOAD_BYTES) {
+    return {
+      status: 413,
+      code: 'TOO_LARGE',
+      message: `Uploads in progress are limited to ${formatMegabytes(MAX_STAGED_UPLOAD_BYTES)} in total. Finish or cancel one first.`,
+    };
+  }
+  return null;
+};
+
+export const createUploadSession = async (
+  userId: string,
+  meta: UploadMeta,
+  bytes: number,
+  sha256: string
+): Promise<UploadSession> =>
+  saveSession({
+    id: randomUUID(),
+    userId,
+    meta,
+    bytes,
+    sha256,
+    chunkBytes: UPLOAD_CHUNK_BYTES,
+    totalChunks: Math.ceil(bytes / UPLOAD_CHUNK_BYTES),
+    expiresAt: '',
+  });
+
+// Sessions belonging to another user are reported as missing
+export const getUploadSession = async (
+  userId: string,
+  sessionId: string
+): Promise<UploadSession | null> => {
+  const raw = await redis.get(sessionKey(sessionId));
+  if (!raw) return null;
+  const session = JSON.parse(raw) as UploadSession;
+  return session.userId === userId ? session : null;
+};
+
+export const receivedChunks = async (session: UploadSession): Promise<number[]> =>
+  (await redis.hKeys(chunksKey(session.id))).map(Number).sort((a, b) => a - b);
+
+const expectedChunkBytes = (session: UploadSession, index: number) =>
+  index === session.totalChunks - 1
+    ? session.bytes - index * session.chunkBytes
+    : session.chunkBytes;
+
+// Bytes held in Redis for all of the user's open sessions
+const stagedBytes = async (userId: string): Promise<number> => {
+  let total = 0;
+  for (const session of await openSessions(userId)) {
+    for (const index of await receivedChunks(session)) {
+      total += expectedChunkBytes(session, index);
+    }
+  }
+  return total;
+};
+
+/**
+ * Stores one chunk. Every chunk but the last must be exactly `chunkBytes` long; re-sending a
+ * chunk that's already stored replaces it. New chunks are refused once the user's sessions
+ * together hold MAX_STAGED_UPLOAD_BYTES.
+ */
+export const saveChunk = async (
+  session: UploadSession,
+  index: number,
+  data: Buffer
+): Promise<{ session: UploadSession } | { failure: UploadFailure }> => {
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    return {
+      failure: {
+        status: 400,
+        code: 'INVALID_REQUEST',
+        message: `Chunk index must be between 0 and ${session.totalChunks - 1}`,
+      },
+    };
+  }
+  const expected = expectedChunkBytes(session, index);
+  if (data.length !== expected) {
+    return {
+      failure: {
+        status: 400,
+        code: 'INVALID_REQUEST',
+        message: `Chunk ${index} must be ${expected} bytes, got ${data.length}`,
+      },
+    };
+  }
+  const resent = (await redis.hGet(chunksKey(session.id), String(index))) !== undefined;
+  if (!resent && (await stagedBytes(session.userId)) + data.length > MAX_STAGED_UPLOAD_BYTES) {
+    return {
+      failure: {
+        status: 413,
+        code: 'TOO_LARGE',
+        message: `Uploads in progress are limited to ${formatMegabytes(MAX_STAGED_UPLOAD_BYTES)} in total`,
+      },
+    };
+  }
+  await redis.hSet(chunksKey(session.id), { [String(index)]: data.toString('base64') });
+  await redis.expire(chunksKey(session.id), UPLOAD_SESSION_TTL_SECONDS);
+  return { session: await saveSession(session) };
+};
+
+/**
+ * Joins the stored chunks and checks the result against the size and SHA-256 declared when
+ * the session was created.
+ */
+export const assembleUpload = async (
+  session: UploadSession
+): Promise<{ data: Buffer } | { missing: number[] } | { error: string }> => {
+  const stored = await redis.hGetAll(chunksKey(session.id));
+  const missing: number[] = [];
+  const parts: Buffer[] = [];
+  for (let i = 0; i < session.totalChunks; i++) {
+    const chunk = stored[String(i)];
+    if (chunk === undefined) missing.push(i);
+    else parts.push(Buffer.from(chunk, 'base64'));
+  }
+  if (missing.length > 0) return { missing };
+
+  const data = Buffer.concat(parts);
+  if (data.length !== session.bytes) {
+    return { error: `Assembled ${data.length} bytes, expected ${session.bytes}` };
+  }
+  if (createHash('sha256').update(data).digest('hex') !== session.sha256) {
+    return { error: 'Assembled file does not match its SHA-256 checksum' };
+  }
+  return { data };
+};
+
+export const deleteUploadSession = async (session: UploadSession): Promise<void> => {
+  await redis.del(sessionKey(session.id), chunksKey(session.id));
+  await redis.hDel(openSessionsKey(session.userId), [session.id]);
+};
+
+export const sessionResponse = (
+  session: UploadSession,
+  received: number[]
+): UploadSessionResponse => ({
+  type: 'uploadSession',
+  sessionId: session.id,
+  bytes: session.bytes,
+  chunkBytes: session.chunkBytes,
+  totalChunks: session.totalChunks,
+  receivedChunks: received,
+  expiresAt: session.expiresAt,
+});
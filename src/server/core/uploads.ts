@@ -0,0 +1,316 @@
+import { clock, redis } from '../services';
+import type {
+  AssetDetails,
+  Publication,
+  UploadSearch,
+  UploadedAsset,
+} from '../../shared/types/api';
+import { isExpired } from '../../shared/policy';
+import { applyAssetDetails } from './details';
+import { publishHistoryEvent } from './historyEvents';
+
+// Each user's uploads live in a hash keyed by their user id (mediaUrl -> JSON UploadedAsset)
+// plus a sorted set of mediaUrls scored by upload time, used to page through history by date,
+// and a hash of content SHA-256 -> mediaUrl used to spot re-uploads of the same file.
+// Albums are a hash of albumId -> JSON Album, each with its own sorted set of mediaUrls
+// scored by upload time, so an album pages exactly like the full history.
+// Uploads with an expiry are also in one app-wide sorted set of `<userId>:<mediaId>` scored
+// by expiry time, which the scheduled sweep walks from the oldest.
+// A hash of mediaId -> mediaUrl finds single uploads without reading the whole history.
+// Every write to a user's hash is followed by a HistoryEvent on their realtime channel.
+const indexKey = (userId: string) => `${userId}:uploads`;
+const idsKey = (userId: string) => `${userId}:ids`;
+const hashesKey = (userId: string) => `${userId}:hashes`;
+export const albumsKey = (userId: string) => `${userId}:albums`;
+export const albumIndexKey = (userId: string, albumId: string) => `${userId}:album:${albumId}`;
+export const expiringKey = 'uploads:expiring';
+export const expiringMember = (userId: string, mediaId: string) => `${userId}:${mediaId}`;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+const parseAsset = (raw: string): UploadedAsset | null => {
+  try {
+    return JSON.parse(raw) as UploadedAsset;
+  } catch {
+    return null;
+  }
+};
+
+export const scoreOf = (asset: UploadedAsset) => {
+  const ms = Date.parse(asset.date);
+  return Number.isFinite(ms) ? ms : 0;
+};
+
+// Histories written before the index existed only have the hash; index them on first read.
+const ensureIndexed = async (userId: string): Promise<void> => {
+  if ((await redis.zCard(indexKey(userId))) > 0) return;
+  const entries = await redis.hGetAll(userId);
+  const members = Object.entries(entries || {}).flatMap(([field, raw]) => {
+    const asset = parseAsset(raw);
+    return asset ? [{ member: field, score: scoreOf(asset) }] : [];
+  });
+  if (members.length > 0) {
+    await redis.zAdd(indexKey(userId), ...members);
+  }
+};
+
+// Same for the media id lookup, which came later than the date index
+const ensureIdsIndexed = async (userId: string): Promise<void> => {
+  if ((await redis.hLen(idsKey(userId))) > 0) return;
+  const entries = await redis.hGetAll(userId);
+  const ids = Object.fromEntries(
+    Object.entries(entries || {}).flatMap(([field, raw]) => {
+      const asset = parseAsset(raw);
+      return asset ? [[asset.mediaId, field]] : [];
+    })
+  );
+  if (Object.keys(ids).length > 0) await redis.hSet(idsKey(userId), ids);
+};
+
+// Cursor is `<score>:<skip>`: resume at that score, skipping entries already returned with it
+const parseCursor = (cursor: string | undefined): { score: number; skip: number } | null => {
+  if (!cursor) return null;
+  const [score, skip] = cursor.split(':').map(Number);
+  if (!Number.isFinite(score) || !Number.isInteger(skip) || skip! < 0) return null;
+  return { score: score!, skip: skip! };
+};
+
+const matchesSearch = (asset: UploadedAsset, search: UploadSearch): boolean => {
+  if (search.type) {
+    const mimeType = asset.mimeType ?? (asset.mediaType === 'gif' ? 'image/gif' : undefined);
+    if (mimeType !== search.type) return false;
+  }
+  if (search.tag && !asset.tags?.includes(search.tag.toLowerCase())) return false;
+  if (search.q) {
+    const needle = search.q.toLowerCase();
+    const haystack = [asset.caption, asset.altText, asset.fileName, ...(asset.tags ?? [])];
+    if (!haystack.some((field) => field?.toLowerCase().includes(needle))) return false;
+  }
+  return true;
+};
+
+const isFiltered = (search: UploadSearch) => Boolean(search.q || search.tag || search.type);
+
+// Upper bound on index entries examined per filtered page, so a rare match can't scan forever
+const MAX_SCAN_PER_PAGE = 500;
+
+/**
+ * Pages through the user's history (or one album) newest first. Date bounds narrow the score
+ * range; the other filters are applied while walking the index, so a page may come back short
+ * with a cursor when the scan limit is hit before `limit` matches are found. Expired uploads
+ * are skipped until the sweep removes them.
+ */
+export const listUploads = async (
+  userId: string,
+  opts: {
+    cursor?: string | undefined;
+    limit?: number | undefined;
+    albumId?: string | undefined;
+    search?: UploadSearch | undefined;
+  } = {}
+): Promise<{ assets: UploadedAsset[]; nextCursor: string | null }> => {
+  const limit = Math.min(Math.max(1, opts.limit ?? DEFAULT_PAGE_SIZE), MAX_PAGE_SIZE);
+  const search = opts.search ?? {};
+  const key = opts.albumId ? albumIndexKey(userId, opts.albumId) : indexKey(userId);
+  const cursor = parseCursor(opts.cursor);
+  if (!cursor && !opts.albumId) await ensureIndexed(userId);
+
+  const to = search.to ? Date.parse(search.to) : Infinity;
+  const from = search.from ? Date.parse(search.from) : -Infinity;
+  // Position just after the last entry examined, in the same form as the cursor
+  let position = cursor ?? { score: to, skip: 0 };
+  const batchSize = isFiltered(search) ? Math.max(limit + 1, 50) : limit + 1;
+  const assets: UploadedAsset[] = [];
+  let nextCursor: string | null = null;
+  let scanned = 0;
+  const now = clock.now();
+
+  while (scanned < MAX_SCAN_PER_PAGE) {
+    // Fetch one extra entry to learn whether another page exists
+    const page = await redis.zRange(
+      key,
+      Number.isFinite(position.score) ? position.score : '+inf',
+      Number.isFinite(from) ? from : '-inf',
+      { by: 'score', reverse: true, limit: { offset: position.skip, count: batchSize } }
+    );
+    if (page.length === 0) return { assets, nextCursor: null };
+
+    const values = await redis.hMGet(
+      userId,
+      page.map((m) => m.member)
+    );
+    const orphans: string[] = [];
+    for (const [i, m] of page.entries()) {
+      const asset = values[i] ? parseAsset(values[i]) : null;
+      if (asset && !isExpired(asset, now) && matchesSearch(asset, search)) {
+        if (assets.length === limit) {
+          // One match past the page: there's more, resume after the last returned entry
+          if (orphans.length > 0) await redis.zRem(key, orphans);
+          return { assets, nextCursor };
+        }
+        assets.push(asset);
+      } else if (!asset) {
+        orphans.push(m.member);
+      }
+      scanned++;
+      position =
+        m.score === position.score
+          ? { score: m.score, skip: position.skip + 1 }
+          : { score: m.score, skip: 1 };
+      // Orphans are removed below, so they must not count towards the resume offset
+      if (!asset) position = { score: position.score, skip: position.skip - 1 };
+      if (assets.length === limit) nextCursor = `${position.score}:${position.skip}`;
+    }
+    if (orphans.length > 0) await redis.zRem(key, orphans);
+    if (page.length < batchSize) return { assets, nextCursor: null };
+  }
+  return { assets, nextCursor: `${position.score}:${position.skip}` };
+};
+
+// Every unexpired upload in the user's history, newest first (used for export)
+export const listAllUploads = async (userId: string): Promise<UploadedAsset[]> => {
+  const entries = await redis.hGetAll(userId);
+  const now = clock.now();
+  return Object.values(entries || {})
+    .map(parseAsset)
+    .filter((a): a is UploadedAsset => a !== null && !isExpired(a, now))
+    .sort((a, b) => scoreOf(b) - scoreOf(a));
+};
+
+export const saveUpload = async (userId: string, asset: UploadedAsset): Promise<void> => {
+  await ensureIndexed(userId);
+  await ensureIdsIndexed(userId);
+  await redis.hSet(userId, {
+    [asset.mediaUrl]: JSON.stringify(asset),
+  });
+  await redis.hSet(idsKey(userId), { [asset.mediaId]: asset.mediaUrl });
+  await redis.zAdd(indexKey(userId), { member: asset.mediaUrl, score: scoreOf(asset) });
+  if (asset.sha256) {
+    await redis.hSet(hashesKey(userId), { [asset.sha256]: asset.mediaUrl });
+  }
+  if (asset.expiresAt) {
+    await redis.zAdd(expiringKey, {
+      member: expiringMember(userId, asset.mediaId),
+      score: Date.parse(asset.expiresAt),
+    });
+  }
+  await publishHistoryEvent(userId, { type: 'saved', asset });
+};
+
+// Returns the user's existing upload with this content hash, if it's still in their history
+// and hasn't expired
+export const findUploadByHash = async (
+  userId: string,
+  sha256: string
+): Promise<UploadedAsset | null> => {
+  const mediaUrl = await redis.hGet(hashesKey(userId), sha256);
+  if (!mediaUrl) return null;
+  const raw = await redis.hGet(userId, mediaUrl);
+  const asset = raw ? parseAsset(raw) : null;
+  if (!asset) {
+    // The upload was removed; forget the stale hash so the file can be uploaded again
+    await redis.hDel(hashesKey(userId), [sha256]);
+  }
+  return asset && !isExpired(asset, clock.now()) ? asset : null;
+};
+
+// Looks up the user's own uploads by media id, keyed by media id
+export const findUploads = async (
+  userId: string,
+  mediaIds: readonly string[]
+): Promise<Map<string, UploadedAsset>> => {
+  const found = new Map<string, UploadedAsset>();
+  if (mediaIds.length === 0) return found;
+  await ensureIdsIndexed(userId);
+  const urls = (await redis.hMGet(idsKey(userId), [...mediaIds])).filter(
+    (url): url is string => typeof url === 'string'
+  );
+  if (urls.length === 0) return found;
+  const wanted = new Set(mediaIds);
+  for (const raw of await redis.hMGet(userId, urls)) {
+    const asset = raw ? parseAsset(raw) : null;
+    if (asset && wanted.has(asset.mediaId)) found.set(asset.mediaId, asset);
+  }
+  return found;
+};
+
+// Updates caption/alt text/tags on one of the user's uploads; null when it isn't theirs
+export const updateUpload = async (
+  userId: string,
+  mediaId: string,
+  patch: AssetDetails
+): Promise<UploadedAsset | null> => {
+  const asset = (await findUploads(userId, [mediaId])).get(mediaId);
+  if (!asset) return null;
+  const updated = applyAssetDetails(asset, patch);
+  await redis.hSet(userId, { [asset.mediaUrl]: JSON.stringify(updated) });
+  await publishHistoryEvent(userId, { type: 'saved', asset: updated });
+  return updated;
+};
+
+export const addPublication = async (
+  userId: string,
+  asset: UploadedAsset,
+  publication: Publication
+): Promise<UploadedAsset> => {
+  const updated = { ...asset, publications: [...(asset.publications ?? []), publication] };
+  await redis.hSet(userId, { [asset.mediaUrl]: JSON.stringify(updated) });
+  await publishHistoryEvent(userId, { type: 'saved', asset: updated });
+  return updated;
+};
+
+export const setThumbnail = async (
+  userId: string,
+  asset: UploadedAsset,
+  thumbnailUrl: string
+): Promise<UploadedAsset> => {
+  const updated = { ...asset, thumbnailUrl };
+  await redis.hSet(userId, { [asset.mediaUrl]: JSON.stringify(updated) });
+  await publishHistoryEvent(userId, { type: 'saved', asset: updated });
+  return updated;
+};
+
+/**
+ * Removes the given media ids from the user's own history and albums. Only entries found
+ * in the user's hash are touched, so one user can never delete another user's uploads.
+ */
+export const removeUploads = async (
+  userId: string,
+  mediaIds: readonly string[]
+): Promise<{ deleted: string[]; notFound: string[] }> => {
+  const found = await findUploads(userId, mediaIds);
+  const assets = [...found.values()];
+  const fields = assets.map((a) => a.mediaUrl);
+  const hashed = assets.flatMap((a) => (a.sha256 ? [{ sha256: a.sha256, url: a.mediaUrl }] : []));
+  if (fields.length > 0) {
+    await redis.hDel(userId, fields);
+    await redis.hDel(
+      idsKey(userId),
+      assets.map((a) => a.mediaId)
+    );
+    await redis.zRem(indexKey(userId), fields);
+    for (const albumId of await redis.hKeys(albumsKey(userId))) {
+      await redis.zRem(albumIndexKey(userId, albumId), fields);
+    }
+  }
+  if (hashed.length > 0) {
+    // A later upload of the same file (after this one expired) owns the hash now; keep it
+    const owners = await redis.hMGet(
+      hashesKey(userId),
+      hashed.map((h) => h.sha256)
+    );
+    const stale = hashed.filter((h, i) => owners[i] === h.url).map((h) => h.sha256);
+    if (stale.length > 0) await redis.hDel(hashesKey(userId), stale);
+  }
+  const expiring = assets.filter((a) => a.expiresAt);
+  if (expiring.length > 0) {
+    await redis.zRem(
+      expiringKey,
+      expiring.map((a) => expiringMember(userId, a.mediaId))
+    );
+  }
+  const deleted = assets.map((a) => a.mediaId);
+  if (deleted.length > 0) await publishHistoryEvent(userId, { type: 'removed', mediaIds: deleted });
+  return { deleted, notFound: mediaIds.filter((id) => !found.has(id)) };
+};
@@ -0,0 +1,65 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type { ImageMimeType } from '../../shared/types/api';
+import { validateImage } from './validate';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+const mimeTypeOf = (name: string): ImageMimeType => {
+  if (name.endsWith('.png')) return 'image/png';
+  if (name.endsWith('.jpg')) return 'image/jpeg';
+  if (name.endsWith('.gif')) return 'image/gif';
+  return 'image/webp';
+};
+
+describe('validateImage', () => {
+  it.each([
+    'valid.png',
+    'valid.jpg',
+    'valid.gif',
+    'animated.gif',
+    'valid-lossless.webp',
+    'valid-lossy.webp',
+  ])('accepts %s', (name) => {
+    expect(validateImage(fixture(name), mimeTypeOf(name))).toEqual({ ok: true });
+  });
+
+  it.each([
+    ['truncated.png', /truncated/],
+    ['bad-crc.png', /bad CRC in IDAT/],
+    ['trailing-data.png', /trailing data after IEND/],
+    ['missing-iend.png', /missing IEND/],
+    ['bomb.png', /exceed/],
+    ['truncated.jpg', /missing EOI/],
+    ['trailing-data.jpg', /trailing data after EOI/],
+    ['bad-segment-length.jpg', /truncated segment/],
+    ['bomb.jpg', /exceed/],
+    ['truncated.gif', /truncated|missing trailer/],
+    ['trailing-data.gif', /trailing data after trailer/],
+    ['unknown-block.gif', /unknown block 0x99/],
+    ['bomb.gif', /exceed/],
+    ['truncated.webp', /truncated RIFF/],
+    ['trailing-data.webp', /trailing data after RIFF/],
+    ['bad-vp8l.webp', /invalid VP8L signature/],
+    ['bomb.webp', /exceed/],
+  ])('rejects %s', (name, reason) => {
+    const result = validateImage(fixture(name), mimeTypeOf(name));
+    expect(result.ok).toBe(false);
+    expect(result.ok ? '' : result.reason).toMatch(reason);
+  });
+
+  it('rejects a file that does not match its declared type', () => {
+    expect(validateImage(fixture('valid.png'), 'image/jpeg')).toEqual({
+      ok: false,
+      reason: 'missing SOI marker',
+    });
+  });
+
+  it('rejects a PNG wrapped around another format', () => {
+    const polyglot = Buffer.concat([fixture('valid.png'), fixture('valid.gif')]);
+    expect(validateImage(polyglot, 'image/png')).toEqual({
+      ok: false,
+      reason: 'trailing data after IEND',
+    });
+  });
+});
@@ -0,0 +1,257 @@
+import type { ImageMimeType } from '../../shared/types/api';
+import { crc32 } from './crc32';
+import { readImageInfo } from './imageInfo';
+
+// Decoded-size ceilings: small files that expand to huge bitmaps are rejected up front
+export const MAX_IMAGE_EDGE = 16384;
+export const MAX_IMAGE_PIXELS = 50_000_000;
+// Across all frames of an animation
+export const MAX_ANIMATION_PIXELS = 500_000_000;
+
+export type ValidationResult = { ok: true } | { ok: false; reason: string };
+
+// Thrown by the walkers below and turned into a failed result by validateImage
+class InvalidImage extends Error {}
+
+const fail = (reason: string): never => {
+  throw new InvalidImage(reason);
+};
+
+const ascii = (buf: Buffer, start: number, length: number) =>
+  buf.toString('latin1', start, start + length);
+
+const need = (buf: Buffer, end: number, what: string) => {
+  if (end > buf.length) fail(`truncated ${what}`);
+};
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+// PNG: IHDR first, every chunk's CRC intact, at least one IDAT, and nothing after IEND
+const validatePng = (buf: Buffer) => {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(PNG_SIGNATURE)) fail('missing PNG signature');
+  let offset = 8;
+  let sawIdat = false;
+  let first = true;
+  while (offset < buf.length) {
+    need(buf, offset + 8, 'chunk header');
+    const length = buf.readUInt32BE(offset);
+    const type = ascii(buf, offset + 4, 4);
+    if (!/^[A-Za-z]{4}$/.test(type)) fail(`invalid chunk type at byte ${offset}`);
+    need(buf, offset + 12 + length, `${type} chunk`);
+    const expected = buf.readUInt32BE(offset + 8 + length);
+    if (crc32(buf.subarray(offset + 4, offset + 8 + length)) !== expected) {
+      fail(`bad CRC in ${type} chunk`);
+    }
+    if (first) {
+      if (type !== 'IHDR' || length !== 13) fail('first chunk is not IHDR');
+      if (buf.readUInt32BE(offset + 8) === 0 || buf.readUInt32BE(offset + 12) === 0) {
+        fail('zero width or height');
+      }
+      first = false;
+    }
+    offset += 12 + length;
+    if (type === 'IDAT') sawIdat = true;
+    if (type === 'IEND') {
+      if (!sawIdat) fail('no IDAT chunk');
+      if (offset !== buf.length) fail('trailing data after IEND');
+      return;
+    }
+  }
+  fail('missing IEND chunk');
+};
+
+// Skips JPEG entropy-coded data, returning the offset of the next real marker
+const skipScan = (buf: Buffer, offset: number): number => {
+  while (offset + 1 < buf.length) {
+    if (buf[offset] === 0xff) {
+      const next = buf[offset + 1]!;
+      // 0xFF00 is a stuffed byte, 0xFFD0-D7 are restart markers and 0xFFFF is fill
+      if (next !== 0x00 && !(next >= 0xd0 && next <= 0xd7) && next !== 0xff) return offset;
+    }
+    offset += 1;
+  }
+  return fail('missing EOI marker');
+};
+
+// JPEG: well-formed marker segments, a frame header before the first scan, and EOI last
+const validateJpeg = (buf: Buffer) => {
+  if (buf.length < 4 || buf[0] !== 0xff || buf[1] !== 0xd8) fail('missing SOI marker');
+  let offset = 2;
+  let sawFrame = false;
+  while (offset < buf.length) {
+    need(buf, offset + 2, 'marker');
+    if (buf[offset] !== 0xff) fail(`expected marker at byte ${offset}`);
+    const marker = buf[offset + 1]!;
+    if (marker === 0xff) {
+      offset += 1;
+      continue;
+    }
+    if (marker === 0xd9) {
+      if (!sawFrame) fail('no frame header');
+      if (offset + 2 !== buf.length) fail('trailing data after EOI');
+      return;
+    }
+    if (marker === 0xd8 || marker === 0x00 || (marker >= 0xd0 && marker <= 0xd7)) {
+      fail(`unexpected marker 0x${marker.toString(16)} at byte ${offset}`);
+    }
+    if (marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    need(buf, offset + 4, 'segment length');
+    const length = buf.readUInt16BE(offset + 2);
+    if (length < 2) fail(`invalid segment length at byte ${offset}`);
+    need(buf, offset + 2 + length, `segment 0x${marker.toString(16)}`);
+    const isSof =
+      marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+    if (isSof) {
+      if (length < 8) fail('truncated frame header');
+      if (buf.readUInt16BE(offset + 5) === 0 || buf.readUInt16BE(offset + 7) === 0) {
+        fail('zero width or height');
+      }
+      sawFrame = true;
+    }
+    offset += 2 + length;
+    if (marker === 0xda) {
+      if (!sawFrame) fail('scan before frame header');
+      offset = skipScan(buf, offset);
+    }
+  }
+  fail('missing EOI marker');
+};
+
+// Skips GIF data sub-blocks, returning the offset after the block terminator
+const skipSubBlocks = (buf: Buffer, offset: number): number => {
+  for (;;) {
+    need(buf, offset + 1, 'data sub-block');
+    const size = buf[offset]!;
+    offset += 1;
+    if (size === 0) return offset;
+    need(buf, offset + size, 'data sub-block');
+    offset += size;
+  }
+};
+
+// GIF: header, color tables, then image/extension blocks up to a final trailer byte
+const validateGif = (buf: Buffer) => {
+  const signature = buf.length >= 6 ? ascii(buf, 0, 6) : '';
+  if (signature !== 'GIF87a' && signature !== 'GIF89a') fail('missing GIF signature');
+  need(buf, 13, 'logical screen descriptor');
+  if (buf.readUInt16LE(6) === 0 || buf.readUInt16LE(8) === 0) fail('zero width or height');
+  const flags = buf[10]!;
+  let offset = 13;
+  if (flags & 0x80) offset += 3 * (1 << ((flags & 0x07) + 1));
+  need(buf, offset, 'global color table');
+
+  let images = 0;
+  while (offset < buf.length) {
+    const block = buf[offset]!;
+    if (block === 0x3b) {
+      if (images === 0) fail('no image data');
+      if (offset + 1 !== buf.length) fail('trailing data after trailer');
+      return;
+    }
+    if (block === 0x2c) {
+      need(buf, offset + 10, 'image descriptor');
+      const localFlags = buf[offset + 9]!;
+      offset += 10;
+      if (localFlags & 0x80) offset += 3 * (1 << ((localFlags & 0x07) + 1));
+      need(buf, offset + 1, 'image data');
+      const codeSize = buf[offset]!;
+      if (codeSize < 2 || codeSize > 8) fail(`invalid LZW code size ${codeSize}`);
+      offset = skipSubBlocks(buf, offset + 1);
+      images += 1;
+    } else if (block === 0x21) {
+      need(buf, offset + 2, 'extension');
+      offset = skipSubBlocks(buf, offset + 2);
+    } else {
+      fail(`unknown block 0x${block.toString(16)} at byte ${offset}`);
+    }
+  }
+  fail('missing trailer');
+};
+
+// WebP: RIFF size matches the file exactly and the chunk list starts with image data or VP8X
+const validateWebp = (buf: Buffer) => {
+  if (buf.length < 12 || ascii(buf, 0, 4) !== 'RIFF' || ascii(buf, 8, 4) !== 'WEBP') {
+    fail('missing RIFF/WEBP header');
+  }
+  const riffEnd = buf.readUInt32LE(4) + 8;
+  if (riffEnd > buf.length) fail('truncated RIFF data');
+  if (riffEnd < buf.length) fail('trailing data after RIFF');
+
+  const chunks: string[] = [];
+  let offset = 12;
+  while (offset < buf.length) {
+    need(buf, offset + 8, 'chunk header');
+    const type = ascii(buf, offset, 4);
+    const size = buf.readUInt32LE(offset + 4);
+    const end = offset + 8 + size + (size % 2);
+    need(buf, end, `${type} chunk`);
+    if (type === 'VP8 ') {
+      if (
+        size < 10 ||
+        buf[offset + 11] !== 0x9d ||
+        buf[offset + 12] !== 0x01 ||
+        buf[offset + 13] !== 0x2a
+      ) {
+        fail('invalid VP8 frame header');
+      }
+    } else if (type === 'VP8L') {
+      if (size < 5 || buf[offset + 8] !== 0x2f) fail('invalid VP8L signature');
+    } else if (type === 'VP8X') {
+      if (size < 10) fail('truncated VP8X chunk');
+    }
+    chunks.push(type);
+    offset = end;
+  }
+
+  const [first] = chunks;
+  if (first !== 'VP8 ' && first !== 'VP8L' && first !== 'VP8X') fail('no image data chunk');
+  if (first === 'VP8X' && !chunks.some((c) => c === 'VP8 ' || c === 'VP8L' || c === 'ANMF')) {
+    fail('no image data chunk');
+  }
+};
+
+// Rejects images whose decoded size would be unreasonable for a web upload
+const checkDimensions = (buf: Buffer, mimeType: ImageMimeType) => {
+  const info = readImageInfo(buf, mimeType);
+  if (!info) return fail('unreadable dimensions');
+  const { width, height, frameCount } = info;
+  if (width > MAX_IMAGE_EDGE || height > MAX_IMAGE_EDGE) {
+    fail(`dimensions ${width}×${height} exceed ${MAX_IMAGE_EDGE}px`);
+  }
+  if (width * height > MAX_IMAGE_PIXELS) fail(`${width}×${height} is too many pixels`);
+  if (width * height * frameCount > MAX_ANIMATION_PIXELS) {
+    fail(`animation with ${frameCount} frames is too large`);
+  }
+};
+
+/**
+ * Walks the file's container structure for the declared type and rejects anything truncated,
+ * corrupted, followed by extra bytes, or that would decode to an excessive size. Pixel data
+ * itself isn't decoded.
+ */
+export const validateImage = (buf: Buffer, mimeType: ImageMimeType): ValidationResult => {
+  try {
+    switch (mimeType) {
+      case 'image/png':
+        validatePng(buf);
+        break;
+      case 'image/jpeg':
+        validateJpeg(buf);
+        break;
+      case 'image/gif':
+        validateGif(buf);
+        break;
+      case 'image/webp':
+        validateWebp(buf);
+        break;
+    }
+    checkDimensions(buf, mimeType);
+    return { ok: true };
+  } catch (error) {
+    if (error instanceof InvalidImage) return { ok: false, reason: error.message };
+    throw error;
+  }
+};
@@ -0,0 +1,59 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import type { VideoMimeType } from '../../shared/types/api';
+import { readVideoInfo, validateVideo } from './video';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+const mimeTypeOf = (name: string): VideoMimeType =>
+  name.endsWith('.mp4') ? 'video/mp4' : 'video/webm';
+
+describe('validateVideo', () => {
+  it.each(['valid.mp4', 'valid.webm'])('accepts %s', (name) => {
+    expect(validateVideo(fixture(name), mimeTypeOf(name))).toEqual({ ok: true });
+  });
+
+  it.each([
+    ['truncated.mp4', 'video/mp4', /truncated mdat box/],
+    ['wrong-brand.mp4', 'video/mp4', /ftyp brand is not MP4/],
+    ['missing-moov.mp4', 'video/mp4', /missing moov box/],
+    ['valid.webm', 'video/mp4', /missing ftyp box/],
+    ['truncated.webm', 'video/webm', /truncated element/],
+    ['wrong-doctype.webm', 'video/webm', /DocType is not webm/],
+    ['valid.mp4', 'video/webm', /missing EBML header/],
+  ] as const)('rejects %s as %s', (name, mimeType, reason) => {
+    const result = validateVideo(fixture(name), mimeType);
+    expect(result.ok).toBe(false);
+    if (!result.ok) expect(result.reason).toMatch(reason);
+  });
+
+  it('accepts 64-bit box sizes', () => {
+    const mp4 = fixture('valid.mp4');
+    // Rewrite the trailing mdat box with a 64-bit size
+    const mdatStart = mp4.length - 24;
+    const large = Buffer.alloc(16);
+    large.writeUInt32BE(1, 0);
+    large.write('mdat', 4, 'latin1');
+    large.writeBigUInt64BE(32n, 8);
+    const rewritten = Buffer.concat([
+      mp4.subarray(0, mdatStart),
+      large,
+      mp4.subarray(mdatStart + 8),
+    ]);
+    expect(validateVideo(rewritten, 'video/mp4')).toEqual({ ok: true });
+  });
+});
+
+describe('readVideoInfo', () => {
+  it.each(['valid.mp4', 'valid.webm'])('reads the duration and frame size of %s', (name) => {
+    expect(readVideoInfo(fixture(name), mimeTypeOf(name))).toEqual({
+      durationSeconds: 2.5,
+      width: 320,
+      height: 240,
+    });
+  });
+
+  it('returns null for containers it cannot parse', () => {
+    expect(readVideoInfo(fixture('truncated.webm'), 'video/webm')).toBeNull();
+  });
+});
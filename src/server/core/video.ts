@@ -0,0 +1,246 @@
+import type { VideoInfo, VideoMimeType } from '../../shared/types/api';
+import type { ValidationResult } from './validate';
+
+class InvalidVideo extends Error {}
+
+const fail = (reason: string): never => {
+  throw new InvalidVideo(reason);
+};
+
+const ascii = (buf: Buffer, start: number, length: number) =>
+  buf.toString('latin1', start, start + length);
+
+type Box = { type: string; start: number; contentStart: number; end: number };
+
+// Reads ISO BMFF boxes between start and end; sizes of 1 and 0 mean 64-bit and "to the end"
+const readBoxes = (buf: Buffer, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset < end) {
+    if (offset + 8 > end) fail('truncated box header');
+    let size = buf.readUInt32BE(offset);
+    const type = ascii(buf, offset + 4, 4);
+    let contentStart = offset + 8;
+    if (size === 1) {
+      if (offset + 16 > end) fail('truncated box header');
+      size = Number(buf.readBigUInt64BE(offset + 8));
+      contentStart = offset + 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < contentStart - offset) fail(`invalid ${type} box size`);
+    if (offset + size > end) fail(`truncated ${type} box`);
+    boxes.push({ type, start: offset, contentStart, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const child = (buf: Buffer, box: Box, type: string) =>
+  readBoxes(buf, box.contentStart, box.end).find((b) => b.type === type);
+
+// ISO BMFF is also the container for HEIF images, QuickTime and others; one of these brands
+// marks the file as MP4
+const MP4_BRANDS = new Set([
+  'isom',
+  'iso2',
+  'iso3',
+  'iso4',
+  'iso5',
+  'iso6',
+  'mp41',
+  'mp42',
+  'avc1',
+  'dash',
+  'M4V ',
+]);
+
+// Major brand, then the compatible brands after the 4-byte minor version
+const brands = (buf: Buffer, ftyp: Box) => {
+  const found = [ascii(buf, ftyp.contentStart, 4)];
+  for (let offset = ftyp.contentStart + 8; offset + 4 <= ftyp.end; offset += 4) {
+    found.push(ascii(buf, offset, 4));
+  }
+  return found;
+};
+
+// MP4: top-level boxes tile the file exactly, starting with ftyp and including moov
+const validateMp4 = (buf: Buffer) => {
+  if (buf.length < 16 || ascii(buf, 4, 4) !== 'ftyp') fail('missing ftyp box');
+  const boxes = readBoxes(buf, 0, buf.length);
+  if (boxes[0]!.end - boxes[0]!.contentStart < 8) fail('truncated ftyp box');
+  if (!brands(buf, boxes[0]!).some((b) => MP4_BRANDS.has(b))) fail('ftyp brand is not MP4');
+  if (!boxes.some((b) => b.type === 'moov')) fail('missing moov box');
+  if (!boxes.some((b) => b.type === 'mdat' || b.type === 'moof')) fail('no media data');
+};
+
+const readMp4Info = (buf: Buffer): VideoInfo | null => {
+  const moov = readBoxes(buf, 0, buf.length).find((b) => b.type === 'moov');
+  if (!moov) return null;
+  const info: VideoInfo = {};
+
+  // mvhd: version 1 uses 64-bit times, so the timescale/duration fields sit further in
+  const mvhd = child(buf, moov, 'mvhd');
+  if (mvhd) {
+    const c = mvhd.contentStart;
+    const v1 = buf[c] === 1;
+    const timescale = buf.readUInt32BE(c + (v1 ? 20 : 12));
+    const duration = v1 ? Number(buf.readBigUInt64BE(c + 24)) : buf.readUInt32BE(c + 16);
+    if (timescale > 0) info.durationSeconds = Math.round((duration / timescale) * 100) / 100;
+  }
+
+  // The first track with a non-zero tkhd size is the video track
+  for (const trak of readBoxes(buf, moov.contentStart, moov.end)) {
+    if (trak.type !== 'trak') continue;
+    const tkhd = child(buf, trak, 'tkhd');
+    if (!tkhd) continue;
+    const c = tkhd.contentStart + (buf[tkhd.contentStart] === 1 ? 88 : 76);
+    if (c + 8 > tkhd.end) continue;
+    const width = buf.readUInt32BE(c) >>> 16;
+    const height = buf.readUInt32BE(c + 4) >>> 16;
+    if (width > 0 && height > 0) {
+      info.width = width;
+      info.height = height;
+      break;
+    }
+  }
+  return info;
+};
+
+// EBML variable-length integer: the leading zero bits give the length
+const readVint = (
+  buf: Buffer,
+  offset: number,
+  keepMarker: boolean
+): { value: number; length: number; unknown: boolean } => {
+  const first = buf[offset];
+  if (first === undefined) return fail('truncated element');
+  if (first === 0) return fail('invalid element length');
+  const length = Math.clz32(first) - 23;
+  if (offset + length > buf.length) fail('truncated element');
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === 0xff >> length;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buf[offset + i]!;
+    if (buf[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+};
+
+type Element = { id: number; dataStart: number; end: number };
+
+const readElement = (buf: Buffer, offset: number, limit: number): Element => {
+  const id = readVint(buf, offset, true);
+  const size = readVint(buf, offset + id.length, false);
+  const dataStart = offset + id.length + size.length;
+  // Unknown sizes are only allowed for Segment and Cluster; treat them as running to the limit
+  const end = size.unknown ? limit : dataStart + size.value;
+  if (end > limit) fail(`truncated element 0x${id.value.toString(16)}`);
+  return { id: id.value, dataStart, end };
+};
+
+const children = (buf: Buffer, start: number, end: number): Element[] => {
+  const elements: Element[] = [];
+  let offset = start;
+  while (offset < end) {
+    const element = readElement(buf, offset, end);
+    elements.push(element);
+    offset = element.end;
+  }
+  return elements;
+};
+
+const EBML_HEADER = 0x1a45dfa3;
+const DOC_TYPE = 0x4282;
+const SEGMENT = 0x18538067;
+
+// WebM: an EBML header declaring DocType "webm" followed by one Segment that ends the file
+const validateWebm = (buf: Buffer) => {
+  if (buf.length < 4 || buf.readUInt32BE(0) !== EBML_HEADER) fail('missing EBML header');
+  const header = readElement(buf, 0, buf.length);
+  const docType = children(buf, header.dataStart, header.end).find((e) => e.id === DOC_TYPE);
+  if (!docType || ascii(buf, docType.dataStart, docType.end - docType.dataStart) !== 'webm') {
+    fail('EBML DocType is not webm');
+  }
+  if (header.end + 4 > buf.length) fail('missing Segment');
+  const segment = readElement(buf, header.end, buf.length);
+  if (segment.id !== SEGMENT) fail('missing Segment');
+  if (segment.end !== buf.length) fail('trailing data after Segment');
+};
+
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+
+const readUint = (buf: Buffer, e: Element) => buf.readUIntBE(e.dataStart, e.end - e.dataStart);
+
+const readWebmInfo = (buf: Buffer): VideoInfo | null => {
+  const header = readElement(buf, 0, buf.length);
+  const segment = readElement(buf, header.end, buf.length);
+  const info: VideoInfo = {};
+  // Only Info and Tracks are read, so stop at the first Cluster instead of walking the media
+  let offset = segment.dataStart;
+  while (offset < segment.end) {
+    const element = readElement(buf, offset, segment.end);
+    if (element.id === 0x1f43b675) break; // Cluster
+    if (element.id === INFO) {
+      const fields = children(buf, element.dataStart, element.end);
+      const scale = fields.find((f) => f.id === TIMECODE_SCALE);
+      const duration = fields.find((f) => f.id === DURATION);
+      if (duration) {
+        const ticks =
+          duration.end - duration.dataStart === 4
+            ? buf.readFloatBE(duration.dataStart)
+            : buf.readDoubleBE(duration.dataStart);
+        const nanos = ticks * (scale ? readUint(buf, scale) : 1_000_000);
+        info.durationSeconds = Math.round(nanos / 1e7) / 100;
+      }
+    }
+    if (element.id === TRACKS) {
+      for (const track of children(buf, element.dataStart, element.end)) {
+        if (track.id !== TRACK_ENTRY) continue;
+        const video = children(buf, track.dataStart, track.end).find((e) => e.id === VIDEO);
+        if (!video) continue;
+        const fields = children(buf, video.dataStart, video.end);
+        const width = fields.find((f) => f.id === PIXEL_WIDTH);
+        const height = fields.find((f) => f.id === PIXEL_HEIGHT);
+        if (width && height) {
+          info.width = readUint(buf, width);
+          info.height = readUint(buf, height);
+          break;
+        }
+      }
+    }
+    offset = element.end;
+  }
+  return info;
+};
+
+/** Checks the container structure of an MP4 or WebM upload; frames aren't decoded. */
+export const validateVideo = (buf: Buffer, mimeType: VideoMimeType): ValidationResult => {
+  try {
+    if (mimeType === 'video/mp4') validateMp4(buf);
+    else validateWebm(buf);
+    return { ok: true };
+  } catch (error) {
+    if (error instanceof InvalidVideo) return { ok: false, reason: error.message };
+    throw error;
+  }
+};
+
+/**
+ * Reads duration and frame size from the container headers. Returns null when they can't be
+ * parsed; callers treat that as "unknown".
+ */
+export const readVideoInfo = (buf: Buffer, mimeType: VideoMimeType): VideoInfo | null => {
+  try {
+    return mimeType === 'video/mp4' ? readMp4Info(buf) : readWebmInfo(buf);
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,18 @@
+import type { Response } from 'express';
+import type { ErrorCode, ErrorResponse } from '../shared/types/api';
+
+export type ErrorDetails = Omit<ErrorResponse, 'status' | 'code' | 'message'>;
+
+export const sendError = (
+  res: Response,
+  status: number,
+  code: ErrorCode,
+  message: string,
+  details: ErrorDetails = {}
+): void => {
+  if (details.retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(details.retryAfterSeconds));
+  }
+  const body: ErrorResponse = { status: 'error', code, message, ...details };
+  res.status(status).json(body);
+};
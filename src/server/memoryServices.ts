@@ -0,0 +1,320 @@
+import type { SetOptions, ZMember, ZRangeOptions } from '@devvit/web/server';
+import type {
+  Clock,
+  MediaService,
+  RealtimeService,
+  RedditService,
+  RequestContext,
+  ServerDeps,
+  SettingsService,
+  Storage,
+} from './services';
+
+// In-memory stand-ins for the Devvit services, for running the app without the platform
+
+export type FakeClock = Clock & {
+  advance(ms: number): void;
+};
+
+// A clock that only moves when told to
+export const createFakeClock = (start = Date.parse('2025-01-01T00:00:00Z')): FakeClock => {
+  let time = start;
+  return {
+    now: () => time,
+    advance: (ms) => {
+      time += ms;
+    },
+  };
+};
+
+const systemClock: Clock = { now: Date.now };
+
+/**
+ * Implements the Redis commands in `Storage` on plain maps. Expiry is checked against the
+ * clock on every access, so tests can move time forward with a fake clock.
+ */
+export const createMemoryStorage = (clock: Clock = systemClock): Storage => {
+  const now = () => clock.now();
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+  const expiries = new Map<string, number>();
+
+  const drop = (key: string) => {
+    strings.delete(key);
+    hashes.delete(key);
+    zsets.delete(key);
+    expiries.delete(key);
+  };
+  const live = (key: string) => {
+    const at = expiries.get(key);
+    if (at !== undefined && at <= now()) drop(key);
+  };
+  const exists = (key: string) => strings.has(key) || hashes.has(key) || zsets.has(key);
+
+  const hash = (key: string, create: boolean) => {
+    live(key);
+    let h = hashes.get(key);
+    if (!h && create) hashes.set(key, (h = new Map()));
+    return h;
+  };
+  const zset = (key: string, create: boolean) => {
+    live(key);
+    let z = zsets.get(key);
+    if (!z && create) zsets.set(key, (z = new Map()));
+    return z;
+  };
+  // Empty hashes and sorted sets disappear, as in Redis
+  const prune = (key: string) => {
+    if (hashes.get(key)?.size === 0) hashes.delete(key);
+    if (zsets.get(key)?.size === 0) zsets.delete(key);
+    if (!exists(key)) expiries.delete(key);
+  };
+
+  const sorted = (z: Map<string, number>): ZMember[] =>
+    [...z]
+      .map(([member, score]) => ({ member, score }))
+      .sort((a, b) => a.score - b.score || (a.member < b.member ? -1 : 1));
+
+  const scoreBound = (bound: number | string) => {
+    if (typeof bound === 'number') return bound;
+    if (bound === '-inf') return -Infinity;
+    if (bound === '+inf' || bound === 'inf') return Infinity;
+    return Number(bound);
+  };
+
+  return {
+    get: async (key) => {
+      live(key);
+      return strings.get(key);
+    },
+    set: async (key, value, options?: SetOptions) => {
+      live(key);
+      if (options?.nx && exists(key)) return '';
+      if (options?.xx && !exists(key)) return '';
+      drop(key);
+      strings.set(key, value);
+      if (options?.expiration) expiries.set(key, options.expiration.getTime());
+      return 'OK';
+    },
+    del: async (...keys) => {
+      for (const key of keys) drop(key);
+    },
+    expire: async (key, seconds) => {
+      live(key);
+      if (exists(key)) expiries.set(key, now() + seconds * 1000);
+    },
+    incrBy: async (key, value) => {
+      live(key);
+      const next = Number(strings.get(key) ?? '0') + value;
+      strings.set(key, String(next));
+      return next;
+    },
+    hGet: async (key, field) => hash(key, false)?.get(field),
+    hSet: async (key, fieldValues) => {
+      const h = hash(key, true)!;
+      let added = 0;
+      for (const [field, value] of Object.entries(fieldValues)) {
+        if (!h.has(field)) added += 1;
+        h.set(field, value);
+      }
+      return added;
+    },
+    hMGet: async (key, fields) => {
+      const h = hash(key, false);
+      return fields.map((f) => h?.get(f) ?? null);
+    },
+    hGetAll: async (key) => Object.fromEntries(hash(key, false) ?? []),
+    hDel: async (key, fields) => {
+      const h = hash(key, false);
+      const removed = fields.filter((f) => h?.delete(f)).length;
+      prune(key);
+      return removed;
+    },
+    hKeys: async (key) => [...(hash(key, false)?.keys() ?? [])],
+    hLen: async (key) => hash(key, false)?.size ?? 0,
+    zAdd: async (key, ...members) => {
+      const z = zset(key, true)!;
+      let added = 0;
+      for (const { member, score } of members) {
+        if (!z.has(member)) added += 1;
+        z.set(member, score);
+      }
+      return added;
+    },
+    zRem: async (key, members) => {
+      const z = zset(key, false);
+      const removed = members.filter((m) => z?.delete(m)).length;
+      prune(key);
+      return removed;
+    },
+    zCard: async (key) => zset(key, false)?.size ?? 0,
+    zRange: async (key, start, stop, options?: ZRangeOptions) => {
+      const z = zset(key, false);
+      if (!z) return [];
+      let members = sorted(z);
+      const by = options?.by ?? 'rank';
+      if (by === 'lex') throw new Error('zRange by lex is not supported in memory');
+      if (by === 'score') {
+        // Like ZRANGE BYSCORE REV, a reversed range is given from high to low
+        const [min, max] = options?.reverse
+          ? [scoreBound(stop), scoreBound(start)]
+          : [scoreBound(start), scoreBound(stop)];
+        members = members.filter((m) => m.score >= min && m.score <= max);
+        if (options?.reverse) members.reverse();
+      } else {
+        if (options?.reverse) members.reverse();
+        const from = Number(start) < 0 ? members.length + Number(start) : Number(start);
+        const to = Number(stop) < 0 ? members.length + Number(stop) : Number(stop);
+        members = members.slice(Math.max(from, 0), to + 1);
+      }
+      if (options?.limit) {
+        members = members.slice(options.limit.offset, options.limit.offset + options.limit.count);
+      }
+      return members;
+    },
+  };
+};
+
+export type MemoryMedia = MediaService & {
+  // Everything uploaded so far, oldest first
+  uploads: { mediaId: string; type: string; url: string }[];
+};
+
+export const createMemoryMedia = (): MemoryMedia => {
+  const uploads: MemoryMedia['uploads'] = [];
+  return {
+    uploads,
+    upload: async ({ type, url }) => {
+      const mediaId = `media${uploads.length + 1}`;
+      uploads.push({ mediaId, type, url });
+      return {
+        mediaId,
+        mediaUrl: `https://i.redd.it/${mediaId}.${type === 'video' ? 'mp4' : 'png'}`,
+      };
+    },
+  };
+};
+
+export type MemoryRealtime = RealtimeService & {
+  // Everything sent so far, oldest first
+  sent: { channel: string; msg: unknown }[];
+  // Calls `onMessage` with each later message on `channel`, like a connected client would
+  subscribe(channel: string, onMessage: (msg: unknown) => void): () => void;
+};
+
+export const createMemoryRealtime = (): MemoryRealtime => {
+  const sent: MemoryRealtime['sent'] = [];
+  const listeners = new Map<string, Set<(msg: unknown) => void>>();
+  return {
+    sent,
+    send: async (channel, msg) => {
+      sent.push({ channel, msg });
+      for (const listener of listeners.get(channel) ?? []) listener(msg);
+    },
+    subscribe: (channel, onMessage) => {
+      const set = listeners.get(channel) ?? new Set();
+      listeners.set(channel, set.add(onMessage));
+      return () => set.delete(onMessage);
+    },
+  };
+};
+
+// Mutable so tests can switch users or posts between requests
+export type MemoryContext = { -readonly [K in keyof RequestContext]: RequestContext[K] };
+
+export const createMemoryContext = (overrides: Partial<MemoryContext> = {}): MemoryContext => ({
+  userId: 't2_tester',
+  subredditId: 't5_testsub',
+  subredditName: 'testsub',
+  postId: 't3_app',
+  ...overrides,
+});
+
+type MemoryUser = { id: string; username: string };
+
+export type MemoryReddit = RedditService & {
+  users: MemoryUser[];
+  moderators: string[];
+  // Submitted posts and comments, oldest first
+  posts: { id: string; subredditName: string; title: string; url?: string }[];
+  comments: { id: string; parentId: string; text: string }[];
+};
+
+/**
+ * A Reddit stand-in where the current user is whichever entry in `users` has the context's
+ * user id.
+ */
+export const createMemoryReddit = (
+  context: RequestContext,
+  users: MemoryUser[] = [{ id: 't2_tester', username: 'tester' }]
+): MemoryReddit => {
+  const reddit: MemoryReddit = {
+    users,
+    moderators: [],
+    posts: [],
+    comments: [],
+    getCurrentUsername: async () => users.find((u) => u.id === context.userId)?.username,
+    getUserByUsername: async (username) =>
+      users.find((u) => u.username.toLowerCase() === username.toLowerCase()),
+    getModerators: () => ({
+      all: async () => reddit.moderators.map((username) => ({ username })),
+    }),
+    submitPost: async (opts) => {
+      const id = `t3_post${reddit.posts.length + 1}`;
+      reddit.posts.push({
+        id,
+        subredditName: opts.subredditName,
+        title: opts.title,
+        ...('url' in opts && opts.url ? { url: opts.url } : {}),
+      });
+      return { id, permalink: `/r/${opts.subredditName}/comments/${id.slice(3)}/` };
+    },
+    submitCustomPost: async (opts) => {
+      const id = `t3_post${reddit.posts.length + 1}`;
+      reddit.posts.push({ id, subredditName: opts.subredditName, title: opts.title });
+      return { id, permalink: `/r/${opts.subredditName}/comments/${id.slice(3)}/` };
+    },
+    submitComment: async (opts) => {
+      const id = `t1_comment${reddit.comments.length + 1}`;
+      reddit.comments.push({
+        id,
+        parentId: opts.id,
+        text: 'text' in opts ? String(opts.text) : '',
+      });
+      return {
+        id,
+        permalink: `/r/${context.subredditName}/comments/${opts.id.slice(3)}/-/${id.slice(3)}/`,
+      };
+    },
+  };
+  return reddit;
+};
+
+export const createMemorySettings = (
+  values: Record<string, string | number | boolean | string[]> = {}
+): SettingsService => ({
+  get: async <T>(name: string) => values[name] as T | undefined,
+});
+
+// Without the Omit, the intersection would keep ServerDeps' read-only context fields
+export type MemoryServices = Omit<ServerDeps, 'context'> & {
+  media: MemoryMedia;
+  realtime: MemoryRealtime;
+  context: MemoryContext;
+  reddit: MemoryReddit;
+};
+
+// A full set of services backed by memory, ready to pass to `createApp`
+export const createMemoryServices = (clock: Clock = systemClock): MemoryServices => {
+  const context = createMemoryContext();
+  return {
+    redis: createMemoryStorage(clock),
+    media: createMemoryMedia(),
+    realtime: createMemoryRealtime(),
+    context,
+    reddit: createMemoryReddit(context),
+    settings: createMemorySettings(),
+    clock,
+  };
+};
@@ -0,0 +1,107 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type {
+  MediaAsset,
+  RealtimeClient,
+  RedisClient,
+  RedditClient,
+  UploadMediaOptions,
+} from '@devvit/web/server';
+
+// The Redis commands the app uses; the in-memory store implements exactly these
+export type Storage = Pick<
+  RedisClient,
+  | 'get'
+  | 'set'
+  | 'del'
+  | 'expire'
+  | 'incrBy'
+  | 'hGet'
+  | 'hSet'
+  | 'hMGet'
+  | 'hGetAll'
+  | 'hDel'
+  | 'hKeys'
+  | 'hLen'
+  | 'zAdd'
+  | 'zRem'
+  | 'zCard'
+  | 'zRange'
+>;
+
+export type MediaService = {
+  upload(opts: UploadMediaOptions): Promise<MediaAsset>;
+};
+
+// Pushes messages to clients subscribed to a channel
+export type RealtimeService = Pick<RealtimeClient, 'send'>;
+
+// Who and where the current request comes from; ids keep Reddit's t2_/t3_/t5_ prefixes
+export type RequestContext = {
+  readonly userId: `t2_${string}` | undefined;
+  readonly subredditId: `t5_${string}`;
+  readonly subredditName: string;
+  readonly postId: `t3_${string}` | undefined;
+};
+
+type PostRef = { id: string; permalink: string };
+
+// The Reddit API calls the app makes, narrowed to the fields it reads back
+export type RedditService = {
+  getCurrentUsername(): Promise<string | undefined>;
+  getUserByUsername(username: string): Promise<{ id: string; username: string } | undefined>;
+  getModerators(opts: Parameters<RedditClient['getModerators']>[0]): {
+    all(): Promise<{ username: string }[]>;
+  };
+  submitPost(opts: Parameters<RedditClient['submitPost']>[0]): Promise<PostRef>;
+  submitCustomPost(opts: Parameters<RedditClient['submitCustomPost']>[0]): Promise<PostRef>;
+  submitComment(opts: Parameters<RedditClient['submitComment']>[0]): Promise<PostRef>;
+};
+
+export type SettingsService = {
+  get<T = string | number | boolean | string[] | undefined>(name: string): Promise<T | undefined>;
+};
+
+// Wall-clock time, swapped for a fake clock in tests of time-based behaviour
+export type Clock = {
+  now(): number; // milliseconds since the epoch
+};
+
+export type ServerDeps = {
+  redis: Storage;
+  media: MediaService;
+  realtime: RealtimeService;
+  context: RequestContext;
+  reddit: RedditService;
+  settings: SettingsService;
+  clock: Clock;
+};
+
+const current = new AsyncLocalStorage<ServerDeps>();
+
+// Runs `fn` (and everything it awaits) against the given services
+export const runWithServices = <T>(deps: ServerDeps, fn: () => T): T => current.run(deps, fn);
+
+const currentDeps = (): ServerDeps => {
+  const deps = current.getStore();
+  if (!deps) throw new Error('Server services used outside of a request');
+  return deps;
+};
+
+// A stand-in that forwards every property access to the current request's service, the same
+// way Devvit's own `context` and `redis` resolve per request
+const forward = <K extends keyof ServerDeps>(name: K): ServerDeps[K] =>
+  new Proxy({} as ServerDeps[K], {
+    get: (_target, prop) => {
+      const service = currentDeps()[name];
+      const value: unknown = Reflect.get(service, prop);
+      return typeof value === 'function' ? value.bind(service) : value;
+    },
+  });
+
+export const redis = forward('redis');
+export const media = forward('media');
+export const realtime = forward('realtime');
+export const context = forward('context');
+export const reddit = forward('reddit');
+export const settings = forward('settings');
+export const clock = forward('clock');
@@ -0,0 +1,87 @@
+import type { UploadedAsset } from './types/api';
+
+export type ExportFormat = 'json' | 'csv' | 'markdown';
+export type CopyFormat = 'url' | 'markdown' | 'html';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'csv', 'markdown'];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+
+const altOf = (asset: UploadedAsset) => asset.altText || asset.caption || asset.fileName || '';
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// One asset as a raw URL, a Markdown image or an HTML <img> tag. Markdown can't embed video,
+// so videos become a plain link there and a <video> element in HTML.
+export const formatAssetLink = (asset: UploadedAsset, format: CopyFormat): string => {
+  switch (format) {
+    case 'url':
+      return asset.mediaUrl;
+    case 'markdown': {
+      const label = altOf(asset).replace(/[[\]]/g, '');
+      return asset.mediaType === 'video'
+        ? `[${label || 'video'}](${asset.mediaUrl})`
+        : `![${label}](${asset.mediaUrl})`;
+    }
+    case 'html': {
+      const size =
+        asset.width !== undefined && asset.height !== undefined
+          ? ` width="${asset.width}" height="${asset.height}"`
+          : '';
+      const src = escapeHtml(asset.mediaUrl);
+      return asset.mediaType === 'video'
+        ? `<video src="${src}" title="${escapeHtml(altOf(asset))}"${size} controls></video>`
+        : `<img src="${src}" alt="${escapeHtml(altOf(asset))}"${size}>`;
+    }
+  }
+};
+
+const CSV_COLUMNS = [
+  'mediaId',
+  'mediaUrl',
+  'mediaType',
+  'mimeType',
+  'date',
+  'fileName',
+  'width',
+  'height',
+  'durationSeconds',
+  'expiresAt',
+  'caption',
+  'altText',
+  'tags',
+] as const;
+
+// RFC 4180 quoting; cells starting with a formula character are prefixed so spreadsheets
+// don't evaluate them
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const assetsToCsv = (assets: readonly UploadedAsset[]): string => {
+  const rows = assets.map((a) =>
+    CSV_COLUMNS.map((column) => csvCell(column === 'tags' ? a.tags?.join(' ') : a[column])).join(
+      ','
+    )
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+};
+
+export const assetsToMarkdown = (assets: readonly UploadedAsset[]): string =>
+  assets.map((a) => `- ${formatAssetLink(a, 'markdown')}`).join('\n') + '\n';
+
+export const exportAssets = (assets: readonly UploadedAsset[], format: ExportFormat): string => {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(assets, null, 2);
+    case 'csv':
+      return assetsToCsv(assets);
+    case 'markdown':
+      return assetsToMarkdown(assets);
+  }
+};
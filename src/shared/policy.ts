@@ -0,0 +1,84 @@
+import type {
+  ImageMimeType,
+  MediaMimeType,
+  UploadExpiry,
+  UploadPolicy,
+  UploadedAsset,
+  VideoMimeType,
+} from './types/api';
+
+// Every format the server knows how to validate; subreddits can allow a subset
+export const IMAGE_MIME_TYPES: readonly ImageMimeType[] = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+];
+
+export const VIDEO_MIME_TYPES: readonly VideoMimeType[] = ['video/mp4', 'video/webm'];
+
+// Largest image the server accepts at all; policies can only lower it
+export const MAX_UPLOAD_BYTES = 4 * 1024 * 1024;
+// Videos have their own, larger ceiling
+export const MAX_VIDEO_BYTES = 20 * 1024 * 1024;
+
+// Thumbnails are rendered client-side at this size (2x the History preview) and re-checked
+// by the server
+export const THUMBNAIL_EDGE = 96;
+export const MAX_THUMBNAIL_BYTES = 32 * 1024;
+export const THUMBNAIL_MIME_TYPES: readonly ImageMimeType[] = ['image/webp', 'image/jpeg'];
+
+export const DEFAULT_UPLOAD_POLICY: UploadPolicy = {
+  allowedTypes: [...IMAGE_MIME_TYPES],
+  maxBytes: MAX_UPLOAD_BYTES,
+  maxWidth: null,
+  maxHeight: null,
+  allowAnimatedGifs: true,
+  allowVideos: true,
+  maxVideoBytes: MAX_VIDEO_BYTES,
+};
+
+export const isImageMimeType = (value: unknown): value is ImageMimeType =>
+  typeof value === 'string' && (IMAGE_MIME_TYPES as readonly string[]).includes(value);
+
+export const isVideoMimeType = (value: unknown): value is VideoMimeType =>
+  typeof value === 'string' && (VIDEO_MIME_TYPES as readonly string[]).includes(value);
+
+export const isMediaMimeType = (value: unknown): value is MediaMimeType =>
+  isImageMimeType(value) || isVideoMimeType(value);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXPIRY_MS: Record<UploadExpiry, number | null> = {
+  '1d': DAY_MS,
+  '7d': 7 * DAY_MS,
+  never: null,
+};
+
+export const UPLOAD_EXPIRIES = Object.keys(EXPIRY_MS) as UploadExpiry[];
+
+// Own keys only: `in` would also accept inherited names such as 'constructor'
+export const isUploadExpiry = (value: unknown): value is UploadExpiry =>
+  typeof value === 'string' && Object.hasOwn(EXPIRY_MS, value);
+
+// ISO expiry time for an upload made at `now`, or undefined for uploads that never expire
+export const expiresAtFor = (expiry: UploadExpiry, now: number): string | undefined => {
+  const ms = EXPIRY_MS[expiry];
+  return ms === null ? undefined : new Date(now + ms).toISOString();
+};
+
+export const isExpired = (asset: Pick<UploadedAsset, 'expiresAt'>, now: number): boolean =>
+  asset.expiresAt !== undefined && Date.parse(asset.expiresAt) <= now;
+
+// "PNG, JPEG or GIF"
+export const formatMimeTypes = (types: readonly MediaMimeType[]): string => {
+  const names = types.map((t) => t.replace(/^(image|video)\//, '').toUpperCase());
+  return names.length <= 1
+    ? (names[0] ?? '')
+    : `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`;
+};
+
+export const formatMegabytes = (bytes: number): string => {
+  const mb = bytes / (1024 * 1024);
+  return `${Number.isInteger(mb) ? mb : mb.toFixed(1)}MB`;
+};
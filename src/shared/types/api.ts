@@ -1,37 +1,326 @@
-export type InitResponse = {
-  type: 'init';
-  postId: string;
-  count: number;
-  username: string;
+// Machine-readable reason attached to every error response
+export type ErrorCode =
+  | 'UNAUTHORIZED' // not logged in
+  | 'FORBIDDEN' // moderator-only action
+  | 'BANNED' // banned from uploading in this subreddit
+  | 'NOT_FOUND'
+  | 'INVALID_REQUEST' // malformed or out-of-range input
+  | 'UNSUPPORTED_TYPE' // file type not accepted, by the app or the subreddit's policy
+  | 'INVALID_IMAGE' // declared as an image but the bytes don't parse
+  | 'INVALID_VIDEO' // declared as a video but the container doesn't parse
+  | 'TOO_LARGE' // over a size limit, including the request body limit
+  | 'POLICY_VIOLATION' // dimensions or animation not allowed by the subreddit's policy
+  | 'RATE_LIMITED' // upload quota exhausted; see retryAfterSeconds
+  | 'INCOMPLETE_UPLOAD' // upload session completed before all chunks arrived
+  | 'CHECKSUM_MISMATCH' // assembled upload doesn't match its declared SHA-256
+  | 'UPSTREAM_MEDIA_ERROR' // Reddit's media service failed to store the file
+  | 'UPSTREAM_REDDIT_ERROR' // Reddit rejected or failed a post/comment
+  | 'INTERNAL_ERROR';
+
+export type ErrorResponse = {
+  status: 'error';
+  code: ErrorCode;
+  message: string; // human-readable; safe to show as-is
+  retryAfterSeconds?: number; // RATE_LIMITED
+  missingChunks?: number[]; // INCOMPLETE_UPLOAD
 };
 
-export type IncrementResponse = {
-  type: 'increment';
-  postId: string;
-  count: number;
+export type ImageMimeType = 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+export type VideoMimeType = 'video/mp4' | 'video/webm';
+export type MediaMimeType = ImageMimeType | VideoMimeType;
+
+// Read from the image headers at upload time; absent when the headers couldn't be parsed
+export type ImageDimensions = {
+  width: number;
+  height: number;
+  animated: boolean;
+  frameCount: number;
 };
 
-export type DecrementResponse = {
-  type: 'decrement';
-  postId: string;
-  count: number;
+// Read from the video container at upload time; fields are absent when they couldn't be parsed
+export type VideoInfo = {
+  width?: number;
+  height?: number;
+  durationSeconds?: number;
 };
 
+// Metadata removed from an upload before it was stored
+export type MetadataKind = 'exif' | 'xmp' | 'iptc' | 'text' | 'other';
+
 export type UploadResponse = {
   type: 'upload';
-  mimeType: 'image/png' | 'image/jpeg' | 'image/gif' | 'image/webp';
+  mimeType: MediaMimeType;
   bytes: number;
   fileName?: string;
-};
+  strippedMetadata: MetadataKind[];
+  asset: UploadedAsset;
+  // True when the same file was already in the user's history; `asset` is the existing entry
+  duplicate: boolean;
+} & Partial<ImageDimensions>;
 
 export type UploadedAsset = {
   mediaType: 'image' | 'gif' | 'video';
   mediaUrl: string;
   mediaId: string;
+  // Small still preview, uploaded by the client after the original; older uploads have none
+  thumbnailUrl?: string;
+  date: string; // ISO timestamp
+  sha256?: string; // hex digest of the uploaded bytes, used for de-duplication
+  mimeType?: MediaMimeType;
+  fileName?: string;
+  durationSeconds?: number; // videos only
+  expiresAt?: string; // ISO timestamp after which it leaves the history; absent means never
+  // Posts and comments this upload was published to, oldest first
+  publications?: Publication[];
+} & Partial<ImageDimensions> &
+  AssetDetails;
+
+// How long an upload stays in the uploader's history
+export type UploadExpiry = '1d' | '7d' | 'never';
+
+// Starts a chunked upload; details and album are applied when the session is completed
+export type UploadSessionRequest = {
+  mimeType: MediaMimeType;
+  bytes: number;
+  sha256: string; // hex digest of the whole file, checked before the upload is processed
+  fileName?: string;
+  albumId?: string;
+  expiresIn?: UploadExpiry; // defaults to never
+} & AssetDetails;
+
+export type UploadSessionResponse = {
+  type: 'uploadSession';
+  sessionId: string;
+  bytes: number;
+  // Every chunk but the last is exactly this long
+  chunkBytes: number;
+  totalChunks: number;
+  // Indexes of the chunks already stored, ascending; resume by sending the rest
+  receivedChunks: number[];
+  expiresAt: string; // ISO timestamp; pushed back each time a chunk arrives
+};
+
+export type ImportUploadsRequest = {
+  assets: unknown[]; // records from a JSON export; each is validated
+};
+
+export type ImportUploadsResponse = {
+  type: 'importUploads';
+  imported: number;
+  // Records that weren't restored, by position in the request
+  skipped: { index: number; reason: string }[];
+};
+
+export type PublishTarget = 'post' | 'comment';
+
+export type Publication = {
+  target: PublishTarget;
+  permalink: string; // absolute reddit.com URL
   date: string; // ISO timestamp
 };
 
+// User-editable description of an upload
+export type AssetDetails = {
+  caption?: string;
+  altText?: string;
+  tags?: string[];
+};
+
+export type UpdateAssetRequest = AssetDetails;
+
+export type UpdateAssetResponse = {
+  type: 'asset';
+  asset: UploadedAsset;
+};
+
+export type PublishRequest = {
+  mediaId: string;
+  target: PublishTarget;
+  title?: string; // required for posts
+  body?: string; // comment text; the image link is appended
+};
+
+export type PublishResponse = {
+  type: 'publish';
+  asset: UploadedAsset;
+  publication: Publication;
+};
+
+// Filters accepted by GET /api/my-images, all optional and combined with AND
+export type UploadSearch = {
+  q?: string; // case-insensitive match on caption, alt text, tags and file name
+  tag?: string;
+  type?: MediaMimeType;
+  from?: string; // ISO timestamp, inclusive
+  to?: string; // ISO timestamp, inclusive
+};
+
 export type ListUploadsResponse = {
   type: 'listUploads';
   assets: UploadedAsset[];
+  // Pass back as `cursor` to fetch the next page; null when there are no more uploads
+  nextCursor: string | null;
+};
+
+export type DeleteUploadsRequest = {
+  mediaIds: string[];
+};
+
+export type DeleteUploadsResponse = {
+  type: 'deleteUploads';
+  deleted: string[];
+  notFound: string[];
+};
+
+// Sent on the user's history channel whenever their uploads change, from any session
+export type HistoryEvent =
+  | { type: 'saved'; asset: UploadedAsset } // a new upload, or an update to one already listed
+  | { type: 'removed'; mediaIds: string[] };
+
+export type HistoryChannelResponse = {
+  type: 'historyChannel';
+  // Realtime channel carrying HistoryEvent messages for the current user only
+  channel: string;
+};
+
+export type QuotaLimits = {
+  uploadsPerHour: number;
+  uploadsPerDay: number;
+  bytesPerDay: number;
+};
+
+export type QuotaResponse = {
+  type: 'quota';
+  limits: QuotaLimits;
+  remaining: {
+    uploadsThisHour: number;
+    uploadsToday: number;
+    bytesToday: number;
+  };
+  hourResetsAt: string; // ISO timestamp
+  dayResetsAt: string; // ISO timestamp
+};
+
+// Per-subreddit upload rules set by moderators; null dimensions mean no limit
+export type UploadPolicy = {
+  allowedTypes: ImageMimeType[];
+  maxBytes: number;
+  maxWidth: number | null;
+  maxHeight: number | null;
+  allowAnimatedGifs: boolean;
+  allowVideos: boolean;
+  maxVideoBytes: number;
+};
+
+export type PolicyResponse = {
+  type: 'policy';
+  policy: UploadPolicy;
+  // Whether the current user moderates the subreddit and may change the policy
+  canEdit: boolean;
+};
+
+export type UpdatePolicyRequest = Partial<UploadPolicy>;
+
+// One upload as seen in the subreddit-wide moderator log
+export type ModUploadEntry = {
+  userId: string;
+  username: string;
+  mediaId: string;
+  mediaUrl: string;
+  mimeType: MediaMimeType;
+  bytes: number;
+  date: string; // ISO timestamp
+};
+
+export type ModUploadsResponse = {
+  type: 'modUploads';
+  entries: ModUploadEntry[];
+};
+
+export type UploadBan = {
+  userId: string;
+  username: string;
+  bannedBy: string;
+  reason?: string;
+  date: string; // ISO timestamp
+};
+
+export type BanUploaderRequest = {
+  username: string;
+  reason?: string;
+};
+
+export type UploadBansResponse = {
+  type: 'uploadBans';
+  bans: UploadBan[];
+};
+
+// One upload shared to a post's community gallery
+export type GalleryEntry = {
+  mediaId: string;
+  mediaUrl: string;
+  mediaType: UploadedAsset['mediaType'];
+  mimeType?: MediaMimeType;
+  userId: string;
+  username: string;
+  date: string; // ISO timestamp it was shared
+  votes: number;
+  votedByMe: boolean;
+  sharedByMe: boolean;
+} & Partial<Pick<ImageDimensions, 'width' | 'height'>> &
+  Pick<AssetDetails, 'caption' | 'altText'>;
+
+export type GallerySort = 'new' | 'top';
+
+export type GalleryResponse = {
+  type: 'gallery';
+  entries: GalleryEntry[];
+  // Pass back as `cursor` to fetch the next page; null when there are no more entries
+  nextCursor: string | null;
+};
+
+export type GalleryEntryResponse = {
+  type: 'galleryEntry';
+  entry: GalleryEntry;
+};
+
+export type ShareToGalleryRequest = {
+  mediaId: string; // one of the current user's uploads
+};
+
+export type GallerySettings = {
+  enabled: boolean;
+};
+
+export type GallerySettingsResponse = {
+  type: 'gallerySettings';
+  settings: GallerySettings;
+  // Whether the current user created the post or moderates the subreddit, and so may toggle
+  // the gallery and remove entries
+  canManage: boolean;
+};
+
+export type Album = {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  count: number;
+};
+
+export type AlbumsResponse = {
+  type: 'albums';
+  albums: Album[];
+};
+
+export type AlbumResponse = {
+  type: 'album';
+  album: Album;
+};
+
+export type AlbumRequest = {
+  name: string;
+};
+
+export type AlbumAssetsRequest = {
+  mediaIds: string[];
 };